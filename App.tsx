@@ -1,54 +1,362 @@
-import React, { useState, useCallback } from 'react';
-import { parseGNSSLog } from './services/parser';
-import { GNSSDataPoint } from './types';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { isParseAborted, parseGNSSLog } from './services/parser';
+import { timelineAccessor, formatTimelineTime } from './services/utcTime';
+import { emptyEpochTable, epochTime } from './services/epochTable';
+import { createRunId, loadRunLog, saveRun, saveRunLog } from './services/campaignStore';
+import { AttackWindow, DetectionSeries, DeviceAnalysis, DeviceType, EpochTable, LogFileSpan, ParseIntegrity, ParseProgress, ReferenceSource, SecurityEvent, TestRun } from './types';
 import { DevicePanel } from './components/DevicePanel';
+import { TimelineProps } from './components/Charts';
+import { Scorecard } from './components/Scorecard';
+import { CampaignManager, TestRunMetadata } from './components/CampaignManager';
+import { MapTrack, TrajectoryMap } from './components/TrajectoryMap';
+import { PositionErrorPanel } from './components/PositionErrorPanel';
+import { ReportDialog } from './components/ReportDialog';
+import { ReportDevice } from './services/reportBuilder';
+import { ArchiveDialog } from './components/ArchiveDialog';
+import { detectCompression, listZipEntries, ZipEntry } from './services/archive';
+import { appendLogFile, MergedLog, singleFileLog } from './services/logMerge';
+
+// One file of a device's capture as uploaded
+interface DeviceFile {
+  file: File;
+  entries: string[] | null; // Zip members to parse, in join order (null: every readable one)
+}
 
 interface DeviceState {
-  data: GNSSDataPoint[];
+  data: EpochTable;
   msgCounts: Record<string, number>;
-  fileName: string | null;
+  integrity: ParseIntegrity | null;
+  securityEvents: SecurityEvent[];
+  fileName: string | null; // The file, or the first of several
+  files: LogFileSpan[]; // Files merged into data
   isParsing: boolean;
+  progress: ParseProgress | null; // Streaming parse status while isParsing
+  loadError: string | null; // Why the last parse or append failed, or which picked files were skipped
+  timeOffset: number; // Seconds, manual correction of this receiver's clock
+  detections: DetectionSeries[]; // Reported by the panel once its indicators are computed
+  analysis: DeviceAnalysis | null; // Indicator summary and event table, also reported by the panel
+  sources: DeviceFile[]; // Raw logs, kept so the session can be stored as a test run
+  unsaved: boolean; // Sources not yet stored with the active run
 }
 
 const initialState: DeviceState = {
-  data: [],
+  data: emptyEpochTable(),
   msgCounts: {},
+  integrity: null,
+  securityEvents: [],
   fileName: null,
-  isParsing: false
+  files: [],
+  isParsing: false,
+  progress: null,
+  loadError: null,
+  timeOffset: 0,
+  detections: [],
+  analysis: null,
+  sources: [],
+  unsaved: false
 };
 
+const displayName = (sources: DeviceFile[]) =>
+  sources.length === 0 ? null : (sources.length === 1 ? sources[0].file.name : `${sources[0].file.name} +${sources.length - 1}`);
+
+// Zip upload with several members, waiting for the user to pick the ones to parse (null: skip the file)
+interface PendingArchive {
+  file: File;
+  entries: ZipEntry[];
+  resolve: (names: string[] | null) => void;
+}
+
 export default function App() {
   // State for 3 separate devices
   const [x20p, setX20p] = useState<DeviceState>(initialState);
   const [a7p, setA7p] = useState<DeviceState>(initialState);
   const [x5, setX5] = useState<DeviceState>(initialState);
 
-  const handleUpload = useCallback(async (
-    event: React.ChangeEvent<HTMLInputElement>, 
-    setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>
+  // Running parse per device, so a new upload or Cancel can abort it
+  const parseControllers = useRef(new Map<React.Dispatch<React.SetStateAction<DeviceState>>, AbortController>());
+
+  const cancelParse = useCallback((setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>) => {
+    parseControllers.current.get(setDeviceState)?.abort();
+  }, []);
+
+  // Parses the files one after another and merges them by time into one log. With `appendTo`
+  // (the device's current state) they are added to the log already loaded instead of replacing it.
+  // The log parsed so far is shown while parsing, and kept if the parse is cancelled or fails.
+  const loadFiles = useCallback(async (
+    files: DeviceFile[],
+    setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>,
+    timeOffset: number,
+    unsaved: boolean,
+    appendTo: DeviceState | null = null,
+    skipped: string[] = [] // Picked files that could not be read, reported with the result
   ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    parseControllers.current.get(setDeviceState)?.abort();
+    const controller = new AbortController();
+    parseControllers.current.set(setDeviceState, controller);
 
-    setDeviceState(prev => ({ ...prev, isParsing: true, fileName: file.name }));
+    const skippedNote = skipped.length > 0 ? skipped.join(' · ') : null;
+    const base = appendTo?.integrity ? appendTo : null;
+    const baseSources = base ? base.sources : [];
+    const logState = (log: MergedLog) => ({
+      data: log.data,
+      msgCounts: log.messageCounts,
+      integrity: log.integrity,
+      securityEvents: log.securityEvents,
+      files: log.files,
+      timeOffset,
+      detections: [],
+      analysis: null
+    });
+    // Latest log on screen and the files it holds (the last one possibly in part)
+    let shown: { log: MergedLog; sources: DeviceFile[] } | null = null;
     
     try {
-      const result = await parseGNSSLog(file);
+      let log: MergedLog | null = base?.integrity
+        ? { data: base.data, rawText: '', messageCounts: base.msgCounts, integrity: base.integrity, securityEvents: base.securityEvents, files: base.files }
+        : null;
+      for (const [k, { file, entries }] of files.entries()) {
+        setDeviceState(prev => ({ ...prev, isParsing: true, progress: null, loadError: skippedNote, fileName: file.name }));
+        const previous = log;
+        const sources = [...baseSources, ...files.slice(0, k + 1)];
+        const result = await parseGNSSLog(file, {
+          signal: controller.signal,
+          onProgress: (progress, partial) => {
+            let partialLog: MergedLog | null = null;
+            try {
+              if (partial && partial.data.length > 0) partialLog = previous ? appendLogFile(previous, file.name, partial) : singleFileLog(file.name, partial);
+            } catch {
+              // Not shown; the complete file gets the same check and reports it
+            }
+            if (partialLog) {
+              const loaded = partialLog;
+              shown = { log: loaded, sources };
+              setDeviceState(prev => ({ ...prev, ...logState(loaded), progress }));
+            } else {
+              setDeviceState(prev => ({ ...prev, progress }));
+            }
+          },
+          entries: entries ?? undefined
+        });
+        log = log ? appendLogFile(log, file.name, result) : singleFileLog(file.name, result);
+        const loaded = log;
+        shown = { log: loaded, sources };
+        if (k < files.length - 1) setDeviceState(prev => ({ ...prev, ...logState(loaded) }));
+      }
+      if (!log) return;
+      const sources = [...baseSources, ...files];
       setDeviceState({
-        data: result.data,
-        msgCounts: result.messageCounts,
-        fileName: file.name,
-        isParsing: false
+        ...logState(log),
+        fileName: displayName(sources),
+        isParsing: false,
+        progress: null,
+        loadError: skippedNote,
+        sources,
+        unsaved
       });
     } catch (error) {
-      console.error("Parse error", error);
-      setDeviceState(prev => ({ ...prev, isParsing: false }));
+      // A newer parse of this device owns the state now
+      if (isParseAborted(error) && parseControllers.current.get(setDeviceState) !== controller) return;
+      if (!isParseAborted(error)) console.error("Parse error", error);
+      const failure = isParseAborted(error) ? null : (error instanceof Error ? error.message : String(error));
+      const loadError = [failure, skippedNote].filter(Boolean).join(' · ') || null;
+      const kept: { log: MergedLog; sources: DeviceFile[] } | null = shown;
+      if (kept) {
+        setDeviceState(prev => ({
+          ...prev,
+          ...logState(kept.log),
+          fileName: displayName(kept.sources),
+          isParsing: false,
+          progress: null,
+          loadError,
+          sources: kept.sources,
+          unsaved
+        }));
+      } else {
+        setDeviceState(prev => ({ ...prev, isParsing: false, progress: null, loadError, fileName: displayName(prev.sources) }));
+      }
+    } finally {
+      if (parseControllers.current.get(setDeviceState) === controller) parseControllers.current.delete(setDeviceState);
     }
   }, []);
 
+  const [pendingArchive, setPendingArchive] = useState<PendingArchive | null>(null);
+
+  // A zip of several parts asks which ones to parse; gzip and single-member zips go straight in.
+  // Resolves to the members chosen, null for the whole file, or undefined when the user skips it.
+  const pickZipEntries = useCallback(async (file: File): Promise<string[] | null | undefined> => {
+    if (await detectCompression(file) !== 'zip') return null;
+    const entries = await listZipEntries(file);
+    if (entries.length <= 1) return null;
+    const names = await new Promise<string[] | null>(resolve => setPendingArchive({ file, entries, resolve }));
+    return names ?? undefined;
+  }, []);
+
+  // Several files picked at once are one capture; `appendTo` adds them to the device's current log
+  const handleUpload = useCallback(async (
+    event: React.ChangeEvent<HTMLInputElement>, 
+    setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>,
+    appendTo: DeviceState | null = null
+  ) => {
+    const picked = Array.from(event.target.files ?? []);
+    event.target.value = ''; // So the same file can be picked again
+    const files: DeviceFile[] = [];
+    const skipped: string[] = [];
+    for (const file of picked) {
+      try {
+        const entries = await pickZipEntries(file);
+        if (entries !== undefined) files.push({ file, entries });
+      } catch (error) {
+        console.error("Zip archive error", error);
+        skipped.push(`${file.name} skipped: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (files.length > 0) {
+      loadFiles(files, setDeviceState, appendTo?.timeOffset ?? 0, true, appendTo, skipped);
+    } else if (skipped.length > 0) {
+      setDeviceState(prev => ({ ...prev, loadError: skipped.join(' · ') }));
+    }
+  }, [loadFiles, pickZipEntries]);
+
+  // Shared multi-device timeline: zooming or moving the cursor in any chart drives every panel
+  const [zoomRange, setZoomRange] = useState<[number, number] | null>(null);
+  const [cursorMs, setCursorMs] = useState<number | null>(null);
+
+  const fullDomain = useMemo<[number, number]>(() => {
+    let min = Infinity;
+    let max = -Infinity;
+    const devices: [EpochTable, number][] = [[x20p.data, x20p.timeOffset], [a7p.data, a7p.timeOffset], [x5.data, x5.timeOffset]];
+    devices.forEach(([data, timeOffset]) => {
+      if (data.length === 0) return;
+      const position = timelineAccessor(data, timeOffset);
+      min = Math.min(min, position(epochTime(data, 0)));
+      max = Math.max(max, position(epochTime(data, data.length - 1)));
+    });
+    return min <= max ? [min, max] : [0, 1];
+  }, [x20p.data, x20p.timeOffset, a7p.data, a7p.timeOffset, x5.data, x5.timeOffset]);
+
+  const timeline = useMemo<TimelineProps>(() => ({
+    domain: zoomRange ?? fullDomain,
+    cursorMs,
+    onCursor: setCursorMs,
+    onSelectRange: setZoomRange
+  }), [zoomRange, fullDomain, cursorMs]);
+
+  const setOffset = (setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>) =>
+    (seconds: number) => setDeviceState(prev => ({ ...prev, timeOffset: seconds }));
+
+  // Ground-truth attack windows for the detection scorecard
+  const [attackWindows, setAttackWindows] = useState<AttackWindow[]>([]);
+
+  // Stable callbacks: the panels report their detection series from an effect
+  const reportDetections = useMemo(() => {
+    const reporter = (setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>) =>
+      (detections: DetectionSeries[]) => setDeviceState(prev => ({ ...prev, detections }));
+    return { x20p: reporter(setX20p), a7p: reporter(setA7p), x5: reporter(setX5) };
+  }, []);
+
+  const reportAnalysis = useMemo(() => {
+    const reporter = (setDeviceState: React.Dispatch<React.SetStateAction<DeviceState>>) =>
+      (analysis: DeviceAnalysis | null) => setDeviceState(prev => ({ ...prev, analysis }));
+    return { x20p: reporter(setX20p), a7p: reporter(setA7p), x5: reporter(setX5) };
+  }, []);
+
+  // Test campaign: the open run links one stored log per device plus its attack windows
+  const [activeRun, setActiveRun] = useState<TestRun | null>(null);
+
+  const devices: [DeviceType, DeviceState, React.Dispatch<React.SetStateAction<DeviceState>>][] = [
+    ['X20P', x20p, setX20p],
+    ['A7P', a7p, setA7p],
+    ['X5', x5, setX5]
+  ];
+
+  const handleSaveRun = async (metadata: TestRunMetadata, asNew: boolean) => {
+    const now = Date.now();
+    let run: TestRun = activeRun && !asNew
+      ? { ...activeRun, ...metadata, attackWindows, updatedMs: now }
+      : { id: createRunId(), ...metadata, attackWindows, logs: {}, createdMs: now, updatedMs: now };
+    for (const [type, state, setDeviceState] of devices) {
+      if (state.sources.length > 0 && (state.unsaved || !run.logs[type])) {
+        run = await saveRunLog(run, type, state.sources.map(({ file, entries }) => ({ file, fileName: file.name, entries })));
+        setDeviceState(prev => (prev.sources === state.sources ? { ...prev, unsaved: false } : prev));
+      }
+      const log = run.logs[type];
+      if (log) run = { ...run, logs: { ...run.logs, [type]: { ...log, timeOffset: state.timeOffset } } };
+    }
+    await saveRun(run);
+    setActiveRun(run);
+  };
+
+  const handleOpenRun = async (run: TestRun) => {
+    setActiveRun(run);
+    setAttackWindows(run.attackWindows);
+    setZoomRange(null);
+    setCursorMs(null);
+    await Promise.all(devices.map(async ([type, , setDeviceState]) => {
+      const log = run.logs[type];
+      const stored = log ? [log, ...(log.extraFiles ?? [])] : [];
+      const blobs = await Promise.all(stored.map((_, part) => loadRunLog(run.id, type, part)));
+      if (!log || blobs.some(blob => !blob)) {
+        cancelParse(setDeviceState);
+        setDeviceState({ ...initialState, fileName: log ? `${log.fileName} (missing)` : null });
+        return;
+      }
+      const files = stored.map((f, part) => ({ file: new File([blobs[part]!], f.fileName), entries: f.entries ?? null }));
+      await loadFiles(files, setDeviceState, log.timeOffset, false);
+    }));
+  };
+
+  const handleCloseRun = () => {
+    devices.forEach(([, , setDeviceState]) => cancelParse(setDeviceState));
+    setActiveRun(null);
+    setAttackWindows([]);
+    setZoomRange(null);
+    setCursorMs(null);
+    devices.forEach(([, , setDeviceState]) => setDeviceState(initialState));
+  };
+
+  // Deleting the open run keeps the panels; their logs become unsaved again
+  const handleRunDeleted = (run: TestRun) => {
+    if (run.id !== activeRun?.id) return;
+    setActiveRun(null);
+    devices.forEach(([, , setDeviceState]) => setDeviceState(prev => ({ ...prev, unsaved: prev.sources.length > 0 })));
+  };
+
+  const unsavedLogs = devices.filter(([, state]) => state.unsaved).length;
+
+  const scorecardDevices = useMemo(() => [
+    { title: 'u-blox X20P', data: x20p.data, timeOffset: x20p.timeOffset, series: x20p.detections },
+    { title: 'Kisilicon A7P', data: a7p.data, timeOffset: a7p.timeOffset, series: a7p.detections },
+    { title: 'Mosaic X5', data: x5.data, timeOffset: x5.timeOffset, series: x5.detections }
+  ], [x20p, a7p, x5]);
+
+  // Ground truth for the position error statistics (surveyed point or reference trajectory)
+  const [reference, setReference] = useState<ReferenceSource | null>(null);
+
+  const mapTracks = useMemo<MapTrack[]>(() => [
+    { title: 'u-blox X20P', color: '#60a5fa', data: x20p.data, timeOffset: x20p.timeOffset, detections: x20p.detections },
+    { title: 'Kisilicon A7P', color: '#f472b6', data: a7p.data, timeOffset: a7p.timeOffset, detections: a7p.detections },
+    { title: 'Mosaic X5', color: '#a78bfa', data: x5.data, timeOffset: x5.timeOffset, detections: x5.detections }
+  ], [x20p, a7p, x5]);
+
+  // Campaign report: everything already held per device, plus the analyst's notes
+  const [showReport, setShowReport] = useState(false);
+  const [reportNotes, setReportNotes] = useState('');
+  const reportDevices = useMemo<ReportDevice[]>(() => [x20p, a7p, x5].map((state, idx) => ({
+    title: mapTracks[idx].title,
+    color: mapTracks[idx].color,
+    fileName: state.fileName,
+    data: state.data,
+    timeOffset: state.timeOffset,
+    msgCounts: state.msgCounts,
+    integrity: state.integrity,
+    securityEvents: state.securityEvents,
+    detections: state.detections,
+    analysis: state.analysis
+  })), [x20p, a7p, x5, mapTracks]);
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-6 font-sans">
-      <header className="max-w-[1600px] mx-auto mb-6">
+      <header className="max-w-[1600px] mx-auto mb-6 flex justify-between items-end">
         <div>
           <h1 className="text-3xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-300 tracking-tight">
             GNSS Forensics Workbench
@@ -57,8 +365,40 @@ export default function App() {
             Comparative Analysis: u-blox X20P vs Kisilicon A7P vs Mosaic X5
           </p>
         </div>
+        <div className="flex items-center gap-3 text-xs text-slate-400 font-mono">
+          {cursorMs !== null && (
+            <span title="Shared cursor (click a chart to move it)">Cursor {formatTimelineTime(cursorMs)}</span>
+          )}
+          <button
+            onClick={() => setShowReport(true)}
+            className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 py-1 px-3 rounded shadow-sm transition-all font-sans"
+            title="Self-contained HTML report, printable to PDF"
+          >
+            Report
+          </button>
+          {zoomRange && (
+            <button
+              onClick={() => setZoomRange(null)}
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 py-1 px-3 rounded shadow-sm transition-all font-sans"
+              title="Drag across any chart to zoom all panels"
+            >
+              Reset zoom
+            </button>
+          )}
+        </div>
       </header>
 
+      <div className="max-w-[1600px] mx-auto mb-4">
+        <CampaignManager
+          activeRun={activeRun}
+          unsavedLogs={unsavedLogs}
+          onSave={handleSaveRun}
+          onOpen={handleOpenRun}
+          onClose={handleCloseRun}
+          onDeleted={handleRunDeleted}
+        />
+      </div>
+
       <main className="max-w-[1600px] mx-auto h-[calc(100vh-140px)]">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 h-full">
             {/* Column 1: u-blox X20P */}
@@ -67,9 +407,22 @@ export default function App() {
                 deviceType="X20P"
                 data={x20p.data}
                 fileName={x20p.fileName}
+                files={x20p.files}
                 msgCounts={x20p.msgCounts}
+                integrity={x20p.integrity}
+                securityEvents={x20p.securityEvents}
                 isParsing={x20p.isParsing}
+                parseProgress={x20p.progress}
+                loadError={x20p.loadError}
+                onCancelParse={() => cancelParse(setX20p)}
                 onUpload={(e) => handleUpload(e, setX20p)}
+                onAppend={(e) => handleUpload(e, setX20p, x20p)}
+                timeline={timeline}
+                timeOffset={x20p.timeOffset}
+                onTimeOffsetChange={setOffset(setX20p)}
+                onDetectionSeries={reportDetections.x20p}
+                onAnalysis={reportAnalysis.x20p}
+                exportDevices={scorecardDevices}
             />
 
             {/* Column 2: Kisilicon A7P (NMEA) */}
@@ -78,9 +431,22 @@ export default function App() {
                 deviceType="A7P"
                 data={a7p.data}
                 fileName={a7p.fileName}
+                files={a7p.files}
                 msgCounts={a7p.msgCounts}
+                integrity={a7p.integrity}
+                securityEvents={a7p.securityEvents}
                 isParsing={a7p.isParsing}
+                parseProgress={a7p.progress}
+                loadError={a7p.loadError}
+                onCancelParse={() => cancelParse(setA7p)}
                 onUpload={(e) => handleUpload(e, setA7p)}
+                onAppend={(e) => handleUpload(e, setA7p, a7p)}
+                timeline={timeline}
+                timeOffset={a7p.timeOffset}
+                onTimeOffsetChange={setOffset(setA7p)}
+                onDetectionSeries={reportDetections.a7p}
+                onAnalysis={reportAnalysis.a7p}
+                exportDevices={scorecardDevices}
             />
 
             {/* Column 3: Septentrio Mosaic X5 */}
@@ -89,12 +455,78 @@ export default function App() {
                 deviceType="X5"
                 data={x5.data}
                 fileName={x5.fileName}
+                files={x5.files}
                 msgCounts={x5.msgCounts}
+                integrity={x5.integrity}
+                securityEvents={x5.securityEvents}
                 isParsing={x5.isParsing}
+                parseProgress={x5.progress}
+                loadError={x5.loadError}
+                onCancelParse={() => cancelParse(setX5)}
                 onUpload={(e) => handleUpload(e, setX5)}
+                onAppend={(e) => handleUpload(e, setX5, x5)}
+                timeline={timeline}
+                timeOffset={x5.timeOffset}
+                onTimeOffsetChange={setOffset(setX5)}
+                onDetectionSeries={reportDetections.x5}
+                onAnalysis={reportAnalysis.x5}
+                exportDevices={scorecardDevices}
             />
           </div>
       </main>
+
+      {/* Tracks of all receivers on one offline map */}
+      <div className="max-w-[1600px] mx-auto mt-4">
+        <TrajectoryMap tracks={mapTracks} timeline={timeline} reference={reference} />
+      </div>
+
+      {/* Accuracy against ground truth, inside and outside the attack windows */}
+      <div className="max-w-[1600px] mx-auto mt-4">
+        <PositionErrorPanel
+          tracks={mapTracks}
+          windows={attackWindows}
+          timeline={timeline}
+          reference={reference}
+          onReferenceChange={setReference}
+        />
+      </div>
+
+      {/* Receiver ranking against the ground-truth attack windows */}
+      <div className="max-w-[1600px] mx-auto mt-4">
+        <Scorecard
+          devices={scorecardDevices}
+          windows={attackWindows}
+          onWindowsChange={setAttackWindows}
+          zoomRange={zoomRange}
+        />
+      </div>
+
+      {pendingArchive && (
+        <ArchiveDialog
+          fileName={pendingArchive.file.name}
+          entries={pendingArchive.entries}
+          onParse={(names) => {
+            pendingArchive.resolve(names);
+            setPendingArchive(null);
+          }}
+          onClose={() => {
+            pendingArchive.resolve(null);
+            setPendingArchive(null);
+          }}
+        />
+      )}
+
+      {showReport && (
+        <ReportDialog
+          devices={reportDevices}
+          run={activeRun}
+          windows={attackWindows}
+          reference={reference}
+          notes={reportNotes}
+          onNotesChange={setReportNotes}
+          onClose={() => setShowReport(false)}
+        />
+      )}
     </div>
   );
 }
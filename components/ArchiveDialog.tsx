@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { canDecompress, sortZipEntries, ZipEntry } from '../services/archive';
+import { formatUtc } from '../services/utcTime';
+
+interface ArchiveDialogProps {
+  fileName: string;
+  entries: ZipEntry[];
+  onParse: (names: string[]) => void; // Chosen members, in the order they are joined
+  onClose: () => void;
+}
+
+type JoinOrder = 'name' | 'time';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1e9 ? `${(bytes / 1e9).toFixed(2)} GB` : (bytes >= 1e6 ? `${(bytes / 1e6).toFixed(1)} MB` : `${(bytes / 1e3).toFixed(0)} kB`);
+
+// Zip archive with several members: pick the logs to parse; they are joined into one log in name or time order
+export const ArchiveDialog: React.FC<ArchiveDialogProps> = ({ fileName, entries, onParse, onClose }) => {
+  const [order, setOrder] = useState<JoinOrder>('name');
+  const [selected, setSelected] = useState<string[]>(() => entries.filter(canDecompress).map(entry => entry.name));
+
+  const sorted = useMemo(() => sortZipEntries(entries, order), [entries, order]);
+  const chosen = sorted.filter(entry => selected.includes(entry.name));
+
+  const toggleEntry = (name: string) => {
+    setSelected(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded border text-xs ${active ? 'bg-slate-200 border-slate-200 text-slate-900 font-bold' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-slate-800 border border-slate-600 rounded-lg p-4 w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto custom-scrollbar flex flex-col gap-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-200 text-sm font-bold">Zip archive · {fileName}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xs">Cancel</button>
+        </div>
+
+        <p className="text-xs text-slate-400">
+          The archive holds {entries.length} files. The ones selected are parsed as one log, joined in the order below.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <span className="font-bold uppercase text-slate-500">Join order</span>
+          <button onClick={() => setOrder('name')} className={chipClass(order === 'name')}>By name</button>
+          <button onClick={() => setOrder('time')} className={chipClass(order === 'time')}>By modification time</button>
+          <span className="flex-1" />
+          <button onClick={() => setSelected(entries.filter(canDecompress).map(entry => entry.name))} className="text-blue-400 hover:text-white">All</button>
+          <button onClick={() => setSelected([])} className="text-blue-400 hover:text-white">None</button>
+        </div>
+
+        <table className="w-full text-left text-xs">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-0.5 w-6"></th>
+              <th className="py-0.5">File</th>
+              <th className="py-0.5 text-right">Size</th>
+              <th className="py-0.5 text-right">Modified</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300 font-mono">
+            {sorted.map(entry => {
+              const readable = canDecompress(entry);
+              return (
+                <tr key={entry.name} className={readable ? '' : 'text-slate-600'} title={readable ? undefined : 'Encrypted or unsupported compression'}>
+                  <td className="py-0.5">
+                    <input type="checkbox" disabled={!readable} checked={selected.includes(entry.name)} onChange={() => toggleEntry(entry.name)} />
+                  </td>
+                  <td className="py-0.5 break-all">{entry.name}</td>
+                  <td className="py-0.5 text-right whitespace-nowrap">{formatSize(entry.uncompressedSize)}</td>
+                  <td className="py-0.5 text-right whitespace-nowrap">{formatUtc(entry.modifiedMs)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="flex justify-between items-center border-t border-slate-700 pt-3 text-xs">
+          <span className="text-slate-400">
+            {chosen.length} of {entries.length} files · {formatSize(chosen.reduce((sum, entry) => sum + entry.uncompressedSize, 0))}
+          </span>
+          <button
+            disabled={chosen.length === 0}
+            onClick={() => onParse(chosen.map(entry => entry.name))}
+            className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 border border-indigo-400 text-white py-1.5 px-4 rounded shadow-sm transition-all"
+          >
+            Parse
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
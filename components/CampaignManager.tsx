@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AttackType, DeviceType, TestRun } from '../types';
+import { deleteRun, listRuns } from '../services/campaignStore';
+
+export type TestRunMetadata = Pick<TestRun, 'campaign' | 'name' | 'date' | 'attackType' | 'powerSteps' | 'location' | 'notes'>;
+
+export const ATTACK_TYPE_LABELS: Record<AttackType, string> = {
+  meaconing: 'Meaconing',
+  simulation: 'Simulation',
+  'time-push': 'Time push',
+  jamming: 'Jamming',
+  other: 'Other'
+};
+
+const DEVICE_LABELS: Record<DeviceType, string> = { X20P: 'X20P', A7P: 'A7P', X5: 'X5' };
+
+interface CampaignManagerProps {
+  activeRun: TestRun | null;
+  unsavedLogs: number; // Loaded logs not yet stored with the active run
+  onSave: (metadata: TestRunMetadata, asNew: boolean) => Promise<void>;
+  onOpen: (run: TestRun) => Promise<void>;
+  onClose: () => void;
+  onDeleted: (run: TestRun) => void;
+}
+
+const emptyMetadata = (): TestRunMetadata => ({
+  campaign: '',
+  name: '',
+  date: new Date().toISOString().slice(0, 10),
+  attackType: 'simulation',
+  powerSteps: [],
+  location: '',
+  notes: ''
+});
+
+const runMetadata = (run: TestRun): TestRunMetadata => ({
+  campaign: run.campaign,
+  name: run.name,
+  date: run.date,
+  attackType: run.attackType,
+  powerSteps: run.powerSteps,
+  location: run.location,
+  notes: run.notes
+});
+
+const formatPowerSteps = (steps: number[]) => steps.map(p => `${p}`).join(', ');
+
+const parsePowerSteps = (text: string) =>
+  text.split(/[,;\s]+/).map(v => parseFloat(v)).filter(v => !isNaN(v));
+
+const inputClass = 'bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-slate-200';
+const buttonClass = 'bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1 px-3 rounded shadow-sm transition-all';
+
+export const CampaignManager: React.FC<CampaignManagerProps> = ({ activeRun, unsavedLogs, onSave, onOpen, onClose, onDeleted }) => {
+  const [runs, setRuns] = useState<TestRun[]>([]);
+  const [showList, setShowList] = useState(false);
+  const [form, setForm] = useState<{ metadata: TestRunMetadata; powerText: string; asNew: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the list whenever the active run is saved, opened or closed
+  useEffect(() => {
+    listRuns().then(setRuns).catch(err => setError(`Run storage unavailable: ${err instanceof Error ? err.message : err}`));
+  }, [activeRun]);
+
+  const campaigns = useMemo(() => {
+    const groups = new Map<string, TestRun[]>();
+    runs.forEach(run => {
+      const key = run.campaign || 'No campaign';
+      groups.set(key, [...(groups.get(key) ?? []), run]);
+    });
+    return Array.from(groups.entries());
+  }, [runs]);
+
+  const withBusy = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startForm = (asNew: boolean) => {
+    const metadata: TestRunMetadata = activeRun && !asNew
+      ? runMetadata(activeRun)
+      : { ...emptyMetadata(), campaign: activeRun?.campaign ?? '' };
+    setForm({ metadata, powerText: formatPowerSteps(metadata.powerSteps), asNew });
+  };
+
+  const handleSubmit = () => {
+    if (!form) return;
+    if (!form.metadata.name.trim()) {
+      setError('A run needs a name');
+      return;
+    }
+    const metadata = { ...form.metadata, name: form.metadata.name.trim(), powerSteps: parsePowerSteps(form.powerText) };
+    withBusy(async () => {
+      await onSave(metadata, form.asNew);
+      setForm(null);
+    });
+  };
+
+  const handleDelete = (target: TestRun) => {
+    if (!window.confirm(`Delete run "${target.name}" and its stored logs?`)) return;
+    withBusy(async () => {
+      await deleteRun(target);
+      setRuns(prev => prev.filter(r => r.id !== target.id));
+      onDeleted(target);
+    });
+  };
+
+  const setMetadata = (patch: Partial<TestRunMetadata>) => form && setForm({ ...form, metadata: { ...form.metadata, ...patch } });
+
+  return (
+    <section className="bg-slate-800/20 rounded-xl border border-slate-700/50 p-3 text-xs">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-slate-500 uppercase font-bold tracking-wider">Run</span>
+          {activeRun ? (
+            <span className="text-slate-200 truncate">
+              {activeRun.campaign && <span className="text-slate-500">{activeRun.campaign} / </span>}
+              <span className="font-bold">{activeRun.name}</span>
+              <span className="text-slate-400"> · {activeRun.date} · {ATTACK_TYPE_LABELS[activeRun.attackType]}</span>
+              {activeRun.powerSteps.length > 0 && <span className="text-slate-400 font-mono"> · {formatPowerSteps(activeRun.powerSteps)} dBm</span>}
+              {activeRun.location && <span className="text-slate-400"> · {activeRun.location}</span>}
+            </span>
+          ) : (
+            <span className="text-slate-500 italic">Unsaved session — save it as a run to reopen it later without re-uploading</span>
+          )}
+          {unsavedLogs > 0 && activeRun && (
+            <span className="text-amber-400">{unsavedLogs} log{unsavedLogs > 1 ? 's' : ''} not saved</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {activeRun && (
+            <>
+              <button
+                disabled={busy}
+                onClick={() => withBusy(() => onSave(runMetadata(activeRun), false))}
+                className={buttonClass}
+                title="Store the loaded logs, clock offsets and attack windows with this run"
+              >
+                Save
+              </button>
+              <button disabled={busy} onClick={() => startForm(false)} className={buttonClass}>Edit</button>
+              <button disabled={busy} onClick={onClose} className={buttonClass} title="Close the run and clear all panels">Close</button>
+            </>
+          )}
+          <button disabled={busy} onClick={() => startForm(true)} className={buttonClass}>
+            {activeRun ? 'Save as new run' : 'Save as run'}
+          </button>
+          <button onClick={() => setShowList(!showList)} className={buttonClass}>
+            {showList ? 'Hide runs' : `Runs (${runs.length})`}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-red-400 mt-2">{error}</div>}
+
+      {/* Run metadata */}
+      {form && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 items-end border-t border-slate-700/50 pt-3">
+          <label className="flex flex-col gap-1 text-slate-400">
+            Campaign
+            <input value={form.metadata.campaign} onChange={(e) => setMetadata({ campaign: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Run name
+            <input value={form.metadata.name} onChange={(e) => setMetadata({ name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Date
+            <input type="date" value={form.metadata.date} onChange={(e) => setMetadata({ date: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Attack type
+            <select
+              value={form.metadata.attackType}
+              onChange={(e) => setMetadata({ attackType: e.target.value as AttackType })}
+              className={inputClass}
+            >
+              {(Object.keys(ATTACK_TYPE_LABELS) as AttackType[]).map(type => (
+                <option key={type} value={type}>{ATTACK_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Spoofer power steps (dBm)
+            <input
+              value={form.powerText}
+              onChange={(e) => setForm({ ...form, powerText: e.target.value })}
+              placeholder="-120, -110, -100"
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            Location
+            <input value={form.metadata.location} onChange={(e) => setMetadata({ location: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400 col-span-2">
+            Notes
+            <input value={form.metadata.notes} onChange={(e) => setMetadata({ notes: e.target.value })} className={inputClass} />
+          </label>
+          <div className="col-span-2 md:col-span-4 flex gap-2 justify-end">
+            <button onClick={() => setForm(null)} className={buttonClass}>Cancel</button>
+            <button
+              disabled={busy}
+              onClick={handleSubmit}
+              className="bg-indigo-600 hover:bg-indigo-500 border border-indigo-400 text-xs text-white py-1 px-3 rounded shadow-sm transition-all"
+            >
+              {busy ? 'Saving...' : (form.asNew ? 'Create run' : 'Save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Stored runs, grouped by campaign */}
+      {showList && (
+        <div className="mt-3 border-t border-slate-700/50 pt-3 max-h-72 overflow-y-auto custom-scrollbar">
+          {runs.length === 0 ? (
+            <div className="text-slate-500 italic">No stored runs yet.</div>
+          ) : (
+            campaigns.map(([campaign, campaignRuns]) => (
+              <div key={campaign} className="mb-3">
+                <div className="text-slate-400 font-bold mb-1">{campaign}</div>
+                <table className="w-full text-left">
+                  <thead className="text-slate-500 border-b border-slate-700">
+                    <tr>
+                      <th className="px-2 py-1">Run</th>
+                      <th className="px-2 py-1">Date</th>
+                      <th className="px-2 py-1">Attack</th>
+                      <th className="px-2 py-1">Power (dBm)</th>
+                      <th className="px-2 py-1">Location</th>
+                      <th className="px-2 py-1">Logs</th>
+                      <th className="px-2 py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800 text-slate-300">
+                    {campaignRuns.map(r => (
+                      <tr key={r.id} className={r.id === activeRun?.id ? 'bg-blue-900/20' : ''} title={r.notes || undefined}>
+                        <td className="px-2 py-1 font-bold">{r.name}</td>
+                        <td className="px-2 py-1 font-mono">{r.date}</td>
+                        <td className="px-2 py-1">{ATTACK_TYPE_LABELS[r.attackType]}</td>
+                        <td className="px-2 py-1 font-mono">{formatPowerSteps(r.powerSteps) || '—'}</td>
+                        <td className="px-2 py-1">{r.location || '—'}</td>
+                        <td className="px-2 py-1 text-slate-400">
+                          {(Object.keys(r.logs) as DeviceType[]).map(device => (
+                            <span key={device} className="mr-2" title={[r.logs[device]?.fileName, ...(r.logs[device]?.extraFiles ?? []).map(f => f.fileName)].join(', ')}>{DEVICE_LABELS[device]}</span>
+                          ))}
+                          {Object.keys(r.logs).length === 0 && '—'}
+                        </td>
+                        <td className="px-2 py-1 text-right whitespace-nowrap">
+                          <button
+                            disabled={busy}
+                            onClick={() => withBusy(async () => { await onOpen(r); setShowList(false); })}
+                            className="text-blue-400 hover:text-white mr-3"
+                          >
+                            Open
+                          </button>
+                          <button disabled={busy} onClick={() => handleDelete(r)} className="text-red-400 hover:text-white">Delete</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
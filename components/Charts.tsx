@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -14,18 +14,110 @@ import {
   Area,
   ReferenceLine,
   ComposedChart,
-  Cell
+  Cell,
+  ReferenceArea,
+  MouseHandlerDataParam,
+  TickItem
 } from 'recharts';
-import { GNSSDataPoint } from '../types';
+import { AttackWindow, Cn0CorrelationEpoch, DeviceType, GNSSDataPoint, GnssSystem, SignalBand } from '../types';
+import { GNSS_SYSTEMS, SIGNAL_BANDS, signalKey } from '../services/gnssSignals';
+import { CN0_ALERT_LABELS, DEFAULT_CN0_CORRELATION_CONFIG } from '../services/cn0Correlation';
+import { formatTimelineTick, formatUtc } from '../services/utcTime';
+
+export interface ChartMarker {
+  x: number; // Position on the shared timeline (ms)
+  label: string;
+  color: string;
+}
+
+// Shared multi-device timeline: every chart plots against the same axis (axisMs on each row)
+export interface TimelineProps {
+  domain: [number, number];
+  cursorMs: number | null;
+  onCursor: (ms: number) => void;
+  onSelectRange: (range: [number, number]) => void;
+}
+
+export type TimelinePoint = GNSSDataPoint & { axisMs: number };
 
 interface ChartProps {
-  data: GNSSDataPoint[];
+  data: TimelinePoint[];
+  timeline: TimelineProps;
   disabled?: boolean;
-  deviceType?: 'X20P' | 'A7P' | 'X5';
+  deviceType?: DeviceType;
+  markers?: ChartMarker[];
+  gaps?: [number, number][]; // Stretches between the device's files with no data (timeline ms)
 }
 
+// Tooltip sync across panels by time, not by index: each chart shows its own nearest epoch,
+// and hides the tooltip when it has no data near the hovered time
+const syncByTime = (ticks: ReadonlyArray<TickItem>, state: MouseHandlerDataParam) => {
+  const target = Number(state.activeLabel);
+  if (ticks.length === 0 || isNaN(target)) return -1;
+  let best = 0;
+  ticks.forEach((tick, idx) => {
+    if (Math.abs(tick.value - target) < Math.abs(ticks[best].value - target)) best = idx;
+  });
+  const spacing = ticks.length > 1 ? (ticks[ticks.length - 1].value - ticks[0].value) / (ticks.length - 1) : 0;
+  return Math.abs(ticks[best].value - target) <= Math.max(5000, 2 * spacing) ? best : -1;
+};
+
+// Drag across any chart to zoom every panel; a click without dragging moves the shared cursor.
+// Gaps between a device's files are shaded so a line drawn across them is not read as data.
+const useTimelineSelection = (timeline: TimelineProps, gaps: [number, number][] = []) => {
+  const [drag, setDrag] = useState<{ start: number; end: number } | null>(null);
+  const labelOf = (state: MouseHandlerDataParam) => {
+    const v = Number(state?.activeLabel);
+    return state?.activeLabel === undefined || isNaN(v) ? null : v;
+  };
+
+  const handlers = {
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      const v = labelOf(state);
+      if (v !== null) setDrag({ start: v, end: v });
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      const v = labelOf(state);
+      if (drag && v !== null && v !== drag.end) setDrag({ ...drag, end: v });
+    },
+    onMouseUp: () => {
+      if (!drag) return;
+      if (drag.start === drag.end) timeline.onCursor(drag.start);
+      else timeline.onSelectRange([Math.min(drag.start, drag.end), Math.max(drag.start, drag.end)]);
+      setDrag(null);
+    },
+    onMouseLeave: () => setDrag(null)
+  };
+
+  const overlays = [
+    ...gaps.map(([x1, x2], idx) => (
+      <ReferenceArea key={`gap-${idx}`} x1={x1} x2={x2} ifOverflow="hidden" fill="#0f172a" fillOpacity={0.6} stroke="#64748b" strokeDasharray="2 2" strokeOpacity={0.6} />
+    )),
+    drag && drag.start !== drag.end && (
+      <ReferenceArea key="selection" x1={drag.start} x2={drag.end} fill="#94a3b8" fillOpacity={0.2} stroke="#94a3b8" strokeOpacity={0.5} />
+    ),
+    timeline.cursorMs !== null && (
+      <ReferenceLine key="cursor" x={timeline.cursorMs} stroke="#f8fafc" strokeDasharray="2 2" />
+    )
+  ];
+
+  return { handlers, overlays };
+};
+
+const timelineXAxis = (timeline: TimelineProps) => (
+  <XAxis dataKey="axisMs" type="number" domain={timeline.domain} allowDataOverflow hide />
+);
+
+// Tooltip header: full UTC date-time of the hovered epoch once the log's date is known
+const utcTooltipLabel = (label: number, payload: readonly { payload?: { utcMs?: number; timestamp?: string } }[]) => {
+  const point = payload?.[0]?.payload;
+  if (point?.utcMs !== undefined) return formatUtc(point.utcMs);
+  return point?.timestamp ?? label;
+};
+
 // 1. Top Chart: Spoofing State (SEC-SIG)
-export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, deviceType }) => {
+export const SpoofingChart: React.FC<ChartProps> = ({ data, timeline, disabled = false, deviceType, markers = [], gaps }) => {
+  const selection = useTimelineSelection(timeline, gaps);
   const getSpoofLabel = (state: number) => {
     switch(state) {
       case 0: return 'Unknown';
@@ -55,7 +147,7 @@ export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, de
           </div>
         )}
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={disabled ? [] : data} syncId="gnssSync">
+          <AreaChart data={disabled ? [] : data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
             <defs>
               <linearGradient id="spoofGradient" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.8}/>
@@ -63,7 +155,7 @@ export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, de
               </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-            <XAxis dataKey="timestamp" hide />
+            {timelineXAxis(timeline)}
             <YAxis 
               domain={[0, 3]} 
               tickCount={4} 
@@ -80,6 +172,7 @@ export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, de
             {!disabled && (
               <Tooltip 
                 contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                labelFormatter={utcTooltipLabel}
                 formatter={(value: number) => [getSpoofLabel(value), "State"]}
               />
             )}
@@ -91,6 +184,17 @@ export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, de
               strokeWidth={2}
             />
             <ReferenceLine y={2} stroke="#fb7185" strokeDasharray="3 3" />
+            {/* Detector / authentication events (UBX-SEC-SIGLOG, SEC-OSNMA, NAV-SIG) */}
+            {!disabled && markers.map((m, idx) => (
+              <ReferenceLine
+                key={`marker-${idx}`}
+                x={m.x}
+                stroke={m.color}
+                strokeWidth={1.5}
+                label={{ value: m.label, position: 'insideTopLeft', fill: m.color, fontSize: 9 }}
+              />
+            ))}
+            {selection.overlays}
           </AreaChart>
         </ResponsiveContainer>
       </div>
@@ -98,20 +202,90 @@ export const SpoofingChart: React.FC<ChartProps> = ({ data, disabled = false, de
   );
 };
 
-// 2. Middle Chart: Signal Strength (Top 3 Avg from GSV or NAV-SIG)
-export const SignalChart: React.FC<ChartProps> = ({ data }) => {
+export const SYSTEM_COLORS: Record<GnssSystem, string> = {
+  GPS: '#38bdf8',
+  GLONASS: '#f87171',
+  Galileo: '#a78bfa',
+  BeiDou: '#fbbf24',
+  QZSS: '#34d399',
+  SBAS: '#94a3b8',
+  Unknown: '#64748b'
+};
+
+// Bands are told apart by dash pattern, constellations by color
+const BAND_DASH: Record<SignalBand, string | undefined> = {
+  L1: undefined,
+  L2: '6 3',
+  L5: '2 2',
+  Other: '8 2 2 2'
+};
+
+// 2. Middle Chart: Signal Strength (Top 3 Avg from GSV or NAV-SIG) + per-constellation/band overlays
+export const SignalChart: React.FC<ChartProps> = ({ data, timeline, gaps }) => {
+  const selection = useTimelineSelection(timeline, gaps);
   const hasGsvData = data.some(d => (d.gpsTop3AvgCn0 || 0) > 0);
   const dataKey = hasGsvData ? "gpsTop3AvgCn0" : "gpsL1Cn0";
   const label = hasGsvData ? "Top 3 Avg C/N0" : "L1 Avg C/N0";
 
+  const [enabledSystems, setEnabledSystems] = useState<Set<GnssSystem>>(() => new Set(GNSS_SYSTEMS));
+  const [enabledBands, setEnabledBands] = useState<Set<SignalBand>>(() => new Set<SignalBand>(['L1']));
+
+  // Which constellation/band groups actually occur in this log
+  const availableKeys = useMemo(() => {
+    const keys = new Set<string>();
+    data.forEach(d => {
+      if (d.signalStats) Object.keys(d.signalStats).forEach(k => keys.add(k));
+    });
+    return keys;
+  }, [data]);
+
+  const availableSystems = GNSS_SYSTEMS.filter(sys => SIGNAL_BANDS.some(b => availableKeys.has(signalKey(sys, b))));
+  const availableBands = SIGNAL_BANDS.filter(b => GNSS_SYSTEMS.some(sys => availableKeys.has(signalKey(sys, b))));
+
+  const toggle = <T,>(set: Set<T>, value: T, update: (next: Set<T>) => void) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    update(next);
+  };
+
+  const overlaySeries = availableSystems
+    .filter(sys => enabledSystems.has(sys))
+    .flatMap(sys => availableBands
+      .filter(band => enabledBands.has(band) && availableKeys.has(signalKey(sys, band)))
+      .map(band => ({ system: sys, band, key: signalKey(sys, band) })));
+
   return (
     <div className="flex-1 w-full bg-slate-800 p-4 border-x border-t border-slate-700 flex flex-col relative">
       <h3 className="text-slate-300 text-xs font-bold uppercase mb-2 flex items-center gap-2 flex-none">
         <span className="w-2 h-2 rounded-full bg-sky-500"></span> 2. GPS Signal Strength ({label})
       </h3>
+      {availableKeys.size > 0 && (
+        <div className="flex flex-wrap gap-1 mb-1 flex-none">
+          {availableSystems.map(sys => (
+            <button
+              key={sys}
+              onClick={() => toggle(enabledSystems, sys, setEnabledSystems)}
+              className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors ${enabledSystems.has(sys) ? 'text-slate-900 font-bold' : 'text-slate-400 border-slate-600 bg-transparent'}`}
+              style={enabledSystems.has(sys) ? { backgroundColor: SYSTEM_COLORS[sys], borderColor: SYSTEM_COLORS[sys] } : undefined}
+            >
+              {sys}
+            </button>
+          ))}
+          <span className="w-px bg-slate-600 mx-1"></span>
+          {availableBands.map(band => (
+            <button
+              key={band}
+              onClick={() => toggle(enabledBands, band, setEnabledBands)}
+              className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors ${enabledBands.has(band) ? 'bg-slate-200 border-slate-200 text-slate-900 font-bold' : 'text-slate-400 border-slate-600'}`}
+            >
+              {band}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="relative w-full flex-1 min-h-0">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={data} syncId="gnssSync">
+          <ComposedChart data={data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
              <defs>
               <linearGradient id="cnoGradient" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#38bdf8" stopOpacity={0.4}/>
@@ -119,11 +293,12 @@ export const SignalChart: React.FC<ChartProps> = ({ data }) => {
               </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-            <XAxis dataKey="timestamp" hide />
+            {timelineXAxis(timeline)}
             <YAxis stroke="#94a3b8" domain={[0, 55]} label={{ value: 'dB-Hz', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 10 }} />
             <Tooltip 
               contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
-              formatter={(val: number) => [val, label]}
+              labelFormatter={utcTooltipLabel}
+              formatter={(val: number, name: string) => [val, name]}
             />
             <Area 
               type="monotone" 
@@ -133,7 +308,144 @@ export const SignalChart: React.FC<ChartProps> = ({ data }) => {
               strokeWidth={2} 
               name={label}
             />
-          </AreaChart>
+            {overlaySeries.map(series => (
+              <Line
+                key={series.key}
+                type="monotone"
+                dataKey={(d: GNSSDataPoint) => d.signalStats?.[series.key]?.avgCn0}
+                stroke={SYSTEM_COLORS[series.system]}
+                strokeDasharray={BAND_DASH[series.band]}
+                strokeWidth={1}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+                name={`${series.system} ${series.band}`}
+              />
+            ))}
+            {selection.overlays}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// 2b. RF Interference: jamming indicator / AGC (UBX-MON-RF, SBF ReceiverStatus/RFStatus)
+export const JammingChart: React.FC<ChartProps> = ({ data, timeline, deviceType, gaps }) => {
+  const selection = useTimelineSelection(timeline, gaps);
+  const hasUbxRf = data.some(d => d.cwJamInd !== undefined || d.agcPercent !== undefined);
+  const hasSbfAgc = data.some(d => d.agcGainDb !== undefined);
+  const source = deviceType === 'X5' || (hasSbfAgc && !hasUbxRf) ? 'SBF-ReceiverStatus' : 'UBX-MON-RF';
+
+  const getJamLabel = (state: number) => {
+    switch(state) {
+      case 1: return 'OK';
+      case 2: return 'Warning';
+      case 3: return 'Critical';
+      default: return 'Unknown';
+    }
+  };
+
+  return (
+    <div className="flex-1 w-full bg-slate-800 p-4 border-x border-t border-slate-700 flex flex-col relative">
+      <h3 className="text-slate-300 text-xs font-bold uppercase mb-2 flex items-center gap-2 flex-none">
+        <span className="w-2 h-2 rounded-full bg-amber-500"></span> 2b. RF Interference ({source})
+      </h3>
+      <div className="relative w-full flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            {timelineXAxis(timeline)}
+            <YAxis yAxisId="level" stroke="#94a3b8" fontSize={10} domain={hasUbxRf ? [0, 255] : ['auto', 'auto']} />
+            <YAxis yAxisId="state" orientation="right" domain={[0, 3]} hide />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+              labelFormatter={utcTooltipLabel}
+              formatter={(val: number, name: string) => [name === 'Jam State' ? getJamLabel(val) : val, name]}
+            />
+            {hasUbxRf && (
+              <Area
+                yAxisId="state"
+                type="stepAfter"
+                dataKey="jammingState"
+                stroke="#f59e0b"
+                fill="#f59e0b"
+                fillOpacity={0.15}
+                strokeWidth={1}
+                connectNulls
+                name="Jam State"
+              />
+            )}
+            {hasUbxRf && (
+              <Line yAxisId="level" type="monotone" dataKey="cwJamInd" stroke="#ef4444" strokeWidth={1.5} dot={false} connectNulls name="CW Jam Ind" />
+            )}
+            {hasUbxRf && (
+              <Line yAxisId="level" type="monotone" dataKey={(d: GNSSDataPoint) => d.agcPercent !== undefined ? d.agcPercent * 2.55 : undefined} stroke="#22d3ee" strokeWidth={1} dot={false} connectNulls name="AGC (% x2.55)" />
+            )}
+            {hasSbfAgc && (
+              <Line yAxisId="level" type="monotone" dataKey="agcGainDb" stroke="#22d3ee" strokeWidth={1.5} dot={false} connectNulls name="AGC Gain (dB)" />
+            )}
+            {hasSbfAgc && (
+              <Line yAxisId="level" type="stepAfter" dataKey={(d: GNSSDataPoint) => d.interferenceBands?.length} stroke="#ef4444" strokeWidth={1} dot={false} connectNulls name="Interferers" />
+            )}
+            {selection.overlays}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// 2c. Cross-satellite C/N0 correlation (rows are the decimated epochs of the visible range)
+export interface Cn0CorrelationPoint extends Cn0CorrelationEpoch {
+  timestamp: string;
+  utcMs?: number;
+  axisMs: number;
+}
+
+export const Cn0CorrelationChart: React.FC<{ data: Cn0CorrelationPoint[]; timeline: TimelineProps; gaps?: [number, number][] }> = ({ data, timeline, gaps }) => {
+  const selection = useTimelineSelection(timeline, gaps);
+  const [showAlert, setShowAlert] = useState(true);
+  const threshold = DEFAULT_CN0_CORRELATION_CONFIG.correlationThreshold;
+
+  return (
+    <div className="flex-1 w-full bg-slate-800 p-4 border-x border-t border-slate-700 flex flex-col relative">
+      <div className="flex items-center justify-between mb-2 flex-none">
+        <h3 className="text-slate-300 text-xs font-bold uppercase flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-fuchsia-500"></span> 2c. C/N0 Correlation (single-source check)
+        </h3>
+        <button
+          onClick={() => setShowAlert(v => !v)}
+          className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors ${showAlert ? 'bg-slate-200 border-slate-200 text-slate-900 font-bold' : 'text-slate-400 border-slate-600'}`}
+        >
+          Alert level
+        </button>
+      </div>
+      <div className="relative w-full flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            {timelineXAxis(timeline)}
+            <YAxis yAxisId="corr" stroke="#94a3b8" fontSize={10} domain={[-1, 1]} ticks={[-1, 0, threshold, 1]} />
+            <YAxis yAxisId="db" orientation="right" stroke="#94a3b8" fontSize={10} domain={['auto', 'auto']} />
+            <YAxis yAxisId="alert" domain={[0, 3]} hide />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+              labelFormatter={utcTooltipLabel}
+              formatter={(val: number, name: string) => [
+                name === 'Alert' ? CN0_ALERT_LABELS[val] : (typeof val === 'number' ? val.toFixed(2) : val),
+                name
+              ]}
+            />
+            {showAlert && (
+              <Area yAxisId="alert" type="stepAfter" dataKey="alertLevel" stroke="#d946ef" fill="#d946ef" fillOpacity={0.15} strokeWidth={1} name="Alert" />
+            )}
+            <ReferenceLine yAxisId="corr" y={threshold} stroke="#d946ef" strokeDasharray="3 3" />
+            <Line yAxisId="corr" type="monotone" dataKey="correlation" stroke="#d946ef" strokeWidth={1.5} dot={false} connectNulls name="Correlation" />
+            <Line yAxisId="db" type="monotone" dataKey="spread" stroke="#38bdf8" strokeWidth={1} dot={false} connectNulls name="Spread (dB)" />
+            <Line yAxisId="db" type="monotone" dataKey="powerDistortion" stroke="#facc15" strokeWidth={1} dot={false} connectNulls name="Power Δ (dB)" />
+            {selection.overlays}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
     </div>
@@ -141,7 +453,8 @@ export const SignalChart: React.FC<ChartProps> = ({ data }) => {
 };
 
 // 3. Bottom Chart: Fix Status (Using GGA Quality with Color Coding)
-export const FixStatusChart: React.FC<ChartProps> = ({ data }) => {
+export const FixStatusChart: React.FC<ChartProps> = ({ data, timeline, gaps }) => {
+  const selection = useTimelineSelection(timeline, gaps);
   const getFixLabel = (val: number) => {
       switch(val) {
           case 0: return 'Invalid';
@@ -173,14 +486,18 @@ export const FixStatusChart: React.FC<ChartProps> = ({ data }) => {
       </h3>
       <div className="relative w-full flex-1 min-h-0">
         <ResponsiveContainer width="100%" height="100%">
-          <ComposedChart data={data} syncId="gnssSync">
+          <ComposedChart data={data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
             <XAxis 
-              dataKey="timestamp" 
+              dataKey="axisMs" 
+              type="number"
+              domain={timeline.domain}
+              allowDataOverflow
               stroke="#94a3b8" 
               fontSize={12} 
               tick={{fontSize: 10}}
               minTickGap={30}
+              tickFormatter={(ms: number) => formatTimelineTick(ms, timeline.domain[1] - timeline.domain[0])}
             />
             <YAxis 
               stroke="#94a3b8" 
@@ -192,6 +509,7 @@ export const FixStatusChart: React.FC<ChartProps> = ({ data }) => {
             />
             <Tooltip 
               contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+              labelFormatter={utcTooltipLabel}
               labelStyle={{ color: '#94a3b8' }}
               formatter={(val: number) => [getFixLabel(val), "Quality"]}
             />
@@ -211,9 +529,59 @@ export const FixStatusChart: React.FC<ChartProps> = ({ data }) => {
                 <Cell key={`cell-${index}`} fill={getFixColor(entry.fixQuality || 0)} />
               ))}
             </Scatter>
+            {selection.overlays}
           </ComposedChart>
         </ResponsiveContainer>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+// 5. Position error against the reference, all receivers on one axis (attack windows shaded)
+export interface PositionErrorSeries {
+  key: string; // Data key in PositionErrorPoint
+  label: string;
+  color: string;
+}
+
+// Rows of all receivers merged by time; a null value breaks that receiver's line (no reference there)
+export type PositionErrorPoint = { axisMs: number; utcMs?: number; timestamp?: string } & Record<string, number | string | null | undefined>;
+
+export const PositionErrorChart: React.FC<{
+  data: PositionErrorPoint[];
+  series: PositionErrorSeries[];
+  unit: string; // Axis label, e.g. '2D error (m)'
+  windows: AttackWindow[];
+  timeline: TimelineProps;
+}> = ({ data, series, unit, windows, timeline }) => {
+  const selection = useTimelineSelection(timeline);
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} syncId="gnssSync" syncMethod={syncByTime} {...selection.handlers}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+        <XAxis
+          dataKey="axisMs"
+          type="number"
+          domain={timeline.domain}
+          allowDataOverflow
+          stroke="#94a3b8"
+          tick={{ fontSize: 10 }}
+          minTickGap={30}
+          tickFormatter={(ms: number) => formatTimelineTick(ms, timeline.domain[1] - timeline.domain[0])}
+        />
+        <YAxis stroke="#94a3b8" fontSize={10} label={{ value: unit, angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 10 }} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+          labelFormatter={utcTooltipLabel}
+          formatter={(val: number, name: string) => [typeof val === 'number' ? `${val.toFixed(2)} m` : val, name]}
+        />
+        {windows.map((w, idx) => (
+          <ReferenceArea key={`attack-${idx}`} x1={w.startMs} x2={w.endMs} fill="#ef4444" fillOpacity={0.1} stroke="#ef4444" strokeOpacity={0.3} />
+        ))}
+        {series.map(s => (
+          <Line key={s.key} type="linear" dataKey={s.key} stroke={s.color} strokeWidth={1.5} dot={false} name={s.label} isAnimationActive={false} />
+        ))}
+        {selection.overlays}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
@@ -1,55 +1,274 @@
-import React, { useMemo } from 'react';
-import { GNSSDataPoint } from '../types';
-import { SpoofingChart, SignalChart, FixStatusChart } from './Charts';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisEvent, DetectionSeries, DeviceAnalysis, DeviceType, EpochFloatField, EpochStateField, EpochTable, KinematicFlag, LogAnalysisSummary, LogFileSpan, LogProtocol, ParseIntegrity, ParseProgress, PlatformProfile, SecurityEvent } from '../types';
+import { analyzeKinematics, PLATFORM_PROFILES } from '../services/kinematics';
+import { buildAnalysisSummary, overallConfidence } from '../services/spoofingScore';
+import { analyzeCn0Correlation, CN0_ALERT_LABELS } from '../services/cn0Correlation';
+import { formatEpochTime, formatTimelineTime, timelineAccessor } from '../services/utcTime';
+import { emptyEpochTable, epochAt, epochPositions, epochTime, findNearestIndex, hasValue } from '../services/epochTable';
+import { evenIndices, lttbIndices, mergeIndices, transitionIndices } from '../services/downsample';
+import { fileGaps, sortedFiles } from '../services/logMerge';
+import { buildGeoJson, buildGpx, buildKml, GeoExportInput } from '../services/geoExport';
+import { CombinedExportDevice, downloadFile } from '../services/dataExport';
+import { SpoofingChart, SignalChart, JammingChart, Cn0CorrelationChart, FixStatusChart, TimelineProps, TimelinePoint, Cn0CorrelationPoint } from './Charts';
+import { Skyplot, SatelliteStripChart } from './SatelliteView';
+import { SpectrumWaterfall } from './SpectrumView';
+import { ExportDialog } from './ExportDialog';
 
 interface DevicePanelProps {
   title: string;
-  deviceType: 'X20P' | 'A7P' | 'X5';
-  data: GNSSDataPoint[];
+  deviceType: DeviceType;
+  data: EpochTable;
   fileName: string | null;
+  files: LogFileSpan[]; // Files merged into data (more than one when a capture spans several)
   msgCounts: Record<string, number>;
+  integrity: ParseIntegrity | null;
+  securityEvents: SecurityEvent[];
   isParsing: boolean;
+  parseProgress: ParseProgress | null;
+  loadError: string | null; // Last parse or append that failed
+  onCancelParse: () => void;
   onUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onAppend: (event: React.ChangeEvent<HTMLInputElement>) => void; // Add files to the loaded log
+  timeline: TimelineProps;
+  timeOffset: number; // Seconds added to this receiver's clock on the shared timeline
+  onTimeOffsetChange: (seconds: number) => void;
+  onDetectionSeries: (series: DetectionSeries[]) => void; // Feeds the cross-device scorecard
+  onAnalysis: (analysis: DeviceAnalysis | null) => void; // Feeds the campaign report
+  exportDevices: CombinedExportDevice[]; // All receivers, for the combined CSV export
 }
 
+// Visible epochs up to which charts get every epoch; above it each series is decimated on its own
+const DOWNSAMPLE_TARGET = 2000;
+// Points kept per decimated line: headline C/N0 and RF levels, constellation/band overlays
+const LINE_POINTS = 600;
+const OVERLAY_POINTS = 200;
+// Buckets per step series (each keeps a few changes, see transitionIndices)
+const TRANSITION_BUCKETS = 100;
+// Time columns of the per-satellite strip chart
+const STRIP_POINTS = 600;
+
+const LINE_FIELDS: EpochFloatField[] = ['gpsL1Cn0', 'gpsTop3AvgCn0', 'cwJamInd', 'agcPercent', 'agcGainDb'];
+const STEP_FIELDS: EpochStateField[] = ['spoofingState', 'secSigState', 'fixQuality', 'jammingState'];
+
+// What the full-resolution detectors see while a parse is still running: the partial log is only
+// charted, the detectors run once on the complete one
+const NOT_ANALYSED = emptyEpochTable();
+
+const allIndices = (start: number, end: number) => Array.from({ length: end - start }, (_, k) => start + k);
+
 // Visual Deception: Downsampling Logic
-// Reduces 100k+ points to ~2000 points for rendering, but preserves critical spikes.
-const downsampleData = (data: GNSSDataPoint[], targetPoints: number = 2000): GNSSDataPoint[] => {
-    if (data.length <= targetPoints) return data;
+// Reduces 100k+ epochs to a few thousand rows for rendering without inventing values: lines keep their
+// LTTB shape points (so short C/N0 spikes survive), step series keep every transition, and the rows are
+// the real epochs at the union of those indices. Recomputed for the visible range, so zooming in
+// progressively brings back every epoch.
+const chartIndices = (data: EpochTable, positions: Float64Array, start: number, end: number) => {
+    if (end - start <= DOWNSAMPLE_TARGET) return allIndices(start, end);
+    const stateAt = (field: EpochStateField) => (idx: number) => (hasValue(data, field, idx) ? data.states[field][idx] : NaN);
+    return mergeIndices([
+        ...LINE_FIELDS.map(field => lttbIndices(positions, data.floats[field], start, end, LINE_POINTS)),
+        ...Object.values(data.signals).map(columns => lttbIndices(positions, columns.avgCn0, start, end, OVERLAY_POINTS)),
+        ...STEP_FIELDS.map(field => transitionIndices(stateAt(field), start, end, TRANSITION_BUCKETS)),
+        transitionIndices(idx => data.interferenceBands.get(idx)?.length ?? NaN, start, end, TRANSITION_BUCKETS)
+    ]);
+};
 
-    const blockSize = Math.floor(data.length / targetPoints);
-    const result: GNSSDataPoint[] = [];
+type ExportFormat = 'data' | 'gpx' | 'kml' | 'geojson';
 
-    for (let i = 0; i < data.length; i += blockSize) {
-        const slice = data.slice(i, i + blockSize);
-        if (slice.length === 0) continue;
+const EXPORT_FORMATS: { format: ExportFormat; label: string; title: string }[] = [
+    { format: 'data', label: 'CSV / JSON...', title: 'Choose columns and time range, JSON bundle, combined multi-device CSV' },
+    { format: 'gpx', label: 'GPX', title: 'Track points with time/elevation, events as waypoints' },
+    { format: 'kml', label: 'KML', title: 'Track styled by spoofing state, event placemarks (Google Earth)' },
+    { format: 'geojson', label: 'GeoJSON', title: 'State segments and event points with properties (GIS)' }
+];
 
-        // Base point (take first in block for timestamp/position reference)
-        const base = slice[0];
+// One row of the events table: either a receiver state interval or a discrete detector/auth event
+interface EventRow {
+    time: number;
+    start: string;
+    end: string;
+    label: string;
+    severity: 'alert' | 'warn' | 'info';
+    source: string;
+}
 
-        // Security Aggregation: Always take the MAXIMUM threat level in the bucket
-        const maxSpoof = Math.max(...slice.map(d => d.spoofingState || 0));
-        const maxSecSig = Math.max(...slice.map(d => d.secSigState || 0));
-        
-        // Signal Aggregation: Average gives a cleaner trend line
-        const avgL1 = slice.reduce((acc, curr) => acc + (curr.gpsL1Cn0 || 0), 0) / slice.length;
-        const avgTop3 = slice.reduce((acc, curr) => acc + (curr.gpsTop3AvgCn0 || 0), 0) / slice.length;
-
-        // Fix Quality: Minimum (Pessimistic) is often safer for analysis, 
-        // or Mode. Here we use the quality of the point that had the Max Spoofing to correlate, 
-        // or simply the min quality to show dropouts. Let's use MIN quality to highlight signal loss.
-        const minFix = Math.min(...slice.map(d => d.fixQuality || 0));
-
-        result.push({
-            ...base,
-            spoofingState: maxSpoof,
-            secSigState: maxSecSig,
-            gpsL1Cn0: parseFloat(avgL1.toFixed(1)),
-            gpsTop3AvgCn0: parseFloat(avgTop3.toFixed(1)),
-            fixQuality: minFix
-        });
-    }
-    return result;
+const SEVERITY_CLASS: Record<EventRow['severity'], string> = {
+    alert: 'bg-red-500 text-white',
+    warn: 'bg-orange-500 text-white',
+    info: 'bg-slate-600 text-slate-100'
+};
+
+const securityEventSeverity = (evt: SecurityEvent): EventRow['severity'] => {
+    if (/confirmed|lost|failed/i.test(evt.eventType)) return 'alert';
+    if (/indicated|mitigated/i.test(evt.eventType)) return 'warn';
+    return 'info';
+};
+
+const PROTOCOLS: LogProtocol[] = ['NMEA', 'UBX', 'SBF'];
+
+// Collapsible summary of checksum/CRC results so the analyst knows whether to trust the log
+const IntegritySection: React.FC<{ integrity: ParseIntegrity }> = ({ integrity }) => {
+    const totalBad = PROTOCOLS.reduce((acc, p) => acc + integrity.frames[p].bad, 0);
+    const skippedPct = integrity.totalBytes > 0 ? (integrity.bytesSkipped / integrity.totalBytes) * 100 : 0;
+
+    // Green: clean log. Amber: a few bad frames, some garbage or a cut-short archive. Red: heavy corruption.
+    const level = totalBad === 0 && skippedPct < 1 && !integrity.archiveError ? 'ok' : (skippedPct < 5 ? 'warn' : 'bad');
+    const levelClass = level === 'ok'
+        ? 'border-emerald-800/60 text-emerald-400'
+        : level === 'warn' ? 'border-amber-800/60 text-amber-400' : 'border-red-800/60 text-red-400';
+
+    return (
+        <details className={`bg-slate-800 rounded border ${levelClass} flex-none mb-4 text-xs`}>
+            <summary className="px-2 py-1.5 cursor-pointer flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold">Frame Integrity</span>
+                <span className="font-mono text-[10px]">
+                    {totalBad} bad · {skippedPct.toFixed(2)}% skipped
+                </span>
+            </summary>
+            <div className="px-2 pb-2">
+                <table className="w-full text-left font-mono">
+                    <thead className="text-slate-500">
+                        <tr>
+                            <th className="py-0.5">Proto</th>
+                            <th className="py-0.5">Good</th>
+                            <th className="py-0.5">Bad</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {PROTOCOLS.filter(p => integrity.frames[p].good + integrity.frames[p].bad > 0).map(p => (
+                            <tr key={p}>
+                                <td className="py-0.5">{p}</td>
+                                <td className="py-0.5">{integrity.frames[p].good}</td>
+                                <td className={`py-0.5 ${integrity.frames[p].bad > 0 ? 'text-red-400' : ''}`}>{integrity.frames[p].bad}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-slate-500 mt-1">
+                    Garbage bytes skipped: <span className="text-slate-300 font-mono">{integrity.bytesSkipped}</span> of {integrity.totalBytes}
+                </p>
+                {integrity.archiveError && (
+                    <p className="text-amber-400 mt-1">Archive ended early, parsed up to there: {integrity.archiveError}</p>
+                )}
+                {integrity.failures.length > 0 && (
+                    <div className="mt-1 max-h-24 overflow-y-auto">
+                        <p className="text-slate-500">First {integrity.failures.length} failures:</p>
+                        {integrity.failures.map((f, idx) => (
+                            <div key={idx} className="font-mono text-[10px] text-slate-400">
+                                {f.fileName && `${f.fileName} `}@0x{f.offset.toString(16).toUpperCase()} {f.protocol} — {f.reason}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+// Files of a capture in time order with their ranges, and the gaps between them
+const FilesSection: React.FC<{ files: LogFileSpan[] }> = ({ files }) => {
+    const gaps = fileGaps(files);
+    const duplicates = files.reduce((acc, f) => acc + f.duplicates, 0);
+    return (
+        <details className="bg-slate-800 rounded border border-slate-700 flex-none mb-4 text-xs">
+            <summary className="px-2 py-1.5 cursor-pointer flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold text-slate-400">Files</span>
+                <span className={`font-mono text-[10px] ${gaps.length > 0 ? 'text-amber-400' : 'text-slate-400'}`}>
+                    {files.length} files · {gaps.length} gaps · {duplicates} duplicate epochs removed
+                </span>
+            </summary>
+            <div className="px-2 pb-2 font-mono text-[10px]">
+                {sortedFiles(files).map((f, idx) => {
+                    const gap = gaps.find(([, end]) => end === f.startMs);
+                    return (
+                        <React.Fragment key={idx}>
+                            {gap && (
+                                <div className="text-amber-400 py-0.5">
+                                    — gap {formatEta((gap[1] - gap[0]) / 1000)}: {formatTimelineTime(gap[0])} → {formatTimelineTime(gap[1])}
+                                </div>
+                            )}
+                            <div className="flex justify-between gap-2 py-0.5 text-slate-300">
+                                <span className="truncate" title={f.fileName}>{f.fileName}</span>
+                                <span className="text-slate-400 whitespace-nowrap">
+                                    {f.startMs !== null && f.endMs !== null ? `${formatTimelineTime(f.startMs)} → ${formatTimelineTime(f.endMs)}` : 'no epochs'}
+                                    {' · '}{f.epochs} ep{f.duplicates > 0 ? ` (${f.duplicates} dup)` : ''}
+                                    {f.interleaved > 0 && (
+                                        <span className="text-amber-400" title="Epochs inside the time range of the files loaded before it that are not duplicates: overlapping captures or a receiver clock that jumped">
+                                            {' · '}{f.interleaved} interleaved
+                                        </span>
+                                    )}
+                                </span>
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+        </details>
+    );
+};
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1e9 ? `${(bytes / 1e9).toFixed(2)} GB` : (bytes >= 1e6 ? `${(bytes / 1e6).toFixed(1)} MB` : `${(bytes / 1e3).toFixed(0)} kB`);
+
+const formatEta = (seconds: number) =>
+    seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${Math.ceil(seconds)}s`;
+
+// Streaming parse status: bytes read, epochs so far, time left, and a way out
+const ParseStatus: React.FC<{ fileName: string | null; progress: ParseProgress | null; onCancel: () => void }> = ({ fileName, progress, onCancel }) => {
+    const percent = progress && progress.totalBytes > 0 ? (100 * progress.bytesRead) / progress.totalBytes : 0;
+    return (
+        <div className="text-xs text-slate-400 flex flex-col gap-1">
+            <div className="flex justify-between items-center gap-2">
+                <span className="font-mono truncate" title={fileName ?? undefined}>Parsing: {fileName}</span>
+                <button onClick={onCancel} className="text-red-400 hover:text-red-300 flex-none">Cancel</button>
+            </div>
+            <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            {progress && (
+                <div className="font-mono text-[10px] text-slate-500">
+                    {percent.toFixed(0)}% · {formatBytes(progress.bytesRead)} / {formatBytes(progress.totalBytes)} · {progress.epochs} epochs
+                    {progress.lastTimestamp && ` · up to ${progress.lastTimestamp}`}
+                    {progress.etaSeconds !== undefined && ` · ${formatEta(progress.etaSeconds)} left`}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Rule-based spoofing score, computed offline from the epochs (works for every receiver)
+const AnalysisSummarySection: React.FC<{ summary: LogAnalysisSummary }> = ({ summary }) => {
+    const score = overallConfidence(summary);
+    const detectedCount = summary.spoofingIndicators.filter(ind => ind.detected).length;
+    const levelClass = score >= 70
+        ? 'border-red-800/60 text-red-400'
+        : score > 0 ? 'border-amber-800/60 text-amber-400' : 'border-emerald-800/60 text-emerald-400';
+
+    return (
+        <details className={`bg-slate-800 rounded border ${levelClass} flex-none mb-4 text-xs`}>
+            <summary className="px-2 py-1.5 cursor-pointer flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold">Spoofing Score</span>
+                <span className="font-mono text-[10px]">
+                    {score}% · {detectedCount}/{summary.spoofingIndicators.length} indicators
+                </span>
+            </summary>
+            <div className="px-2 pb-2 flex flex-col gap-1">
+                <p className="text-slate-500">
+                    {summary.startTime} – {summary.endTime} ({summary.totalDuration}, {summary.totalEpochs} epochs) · avg C/N0 <span className="text-slate-300 font-mono">{summary.avgL1CN0}</span> dB-Hz
+                </p>
+                {summary.spoofingIndicators.map(ind => (
+                    <div key={ind.label} title={ind.details}>
+                        <div className="flex justify-between">
+                            <span className={ind.detected ? 'text-slate-200' : 'text-slate-500'}>{ind.label}</span>
+                            <span className={`font-mono ${ind.detected ? (ind.confidence >= 70 ? 'text-red-400' : 'text-amber-400') : 'text-slate-600'}`}>
+                                {ind.detected ? `${ind.confidence}%` : '—'}
+                            </span>
+                        </div>
+                        <div className="text-[10px] text-slate-500 truncate">{ind.details}</div>
+                    </div>
+                ))}
+            </div>
+        </details>
+    );
 };
 
 export const DevicePanel: React.FC<DevicePanelProps> = ({
@@ -57,79 +276,272 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
   deviceType,
   data,
   fileName,
+  files,
   msgCounts,
+  integrity,
+  securityEvents,
   isParsing,
-  onUpload
+  parseProgress,
+  loadError,
+  onCancelParse,
+  onUpload,
+  onAppend,
+  timeline,
+  timeOffset,
+  onTimeOffsetChange,
+  onDetectionSeries,
+  onAnalysis,
+  exportDevices
 }) => {
   const hasData = data.length > 0;
+  const [showSatellites, setShowSatellites] = useState(false);
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [showSpectrum, setShowSpectrum] = useState(false);
+  const [platform, setPlatform] = useState<PlatformProfile>('car');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   
   // A7P doesn't have spoofing detection messages
   const isSpoofingSupported = deviceType === 'X20P' || deviceType === 'X5'; 
 
+  // Position of each epoch (and of events between epochs) on the shared multi-device timeline
+  const positions = useMemo(() => epochPositions(data, timeOffset), [data, timeOffset]);
+  const axisOf = useMemo(() => timelineAccessor(data, timeOffset), [data, timeOffset]);
+
+  // Gaps between the files of a split capture, on the shared timeline
+  const gapRanges = useMemo(
+    () => fileGaps(files).map(([start, end]): [number, number] => [start + timeOffset * 1000, end + timeOffset * 1000]),
+    [files, timeOffset]
+  );
+
+  // Epochs inside the shared zoom window (plus one on each side so lines reach the edges)
+  const [visibleStart, visibleEnd] = useMemo(() => {
+    if (!hasData) return [0, 0];
+    return [
+        Math.max(0, findNearestIndex(positions, timeline.domain[0]) - 1),
+        Math.min(data.length, findNearestIndex(positions, timeline.domain[1]) + 2)
+    ];
+  }, [data, hasData, positions, timeline.domain]);
+
   // 1. Heavy Calculation for Charts: Downsample (Memoized)
-  const chartData = useMemo(() => {
-     return downsampleData(data);
-  }, [data]);
+  const chartData = useMemo<TimelinePoint[]>(
+    () => chartIndices(data, positions, visibleStart, visibleEnd).map(idx => ({ ...epochAt(data, idx), axisMs: positions[idx] })),
+    [data, positions, visibleStart, visibleEnd]
+  );
+
+  // The strip chart colours a column per epoch until the next one: it needs evenly spaced epochs,
+  // not the spike and transition points picked for the line charts
+  const stripData = useMemo(
+    () => (showSatellites ? evenIndices(visibleStart, visibleEnd, STRIP_POINTS).map(idx => epochAt(data, idx)) : []),
+    [data, showSatellites, visibleStart, visibleEnd]
+  );
+
+  // Spectrum epochs in view (MON-SPAN is low-rate, so these stay few)
+  const spectrumData = useMemo(() => {
+    const indices = Array.from(data.spectra.keys()).filter(idx => idx >= visibleStart && idx < visibleEnd).sort((a, b) => a - b);
+    return indices.map(idx => epochAt(data, idx));
+  }, [data, visibleStart, visibleEnd]);
+
+  // Shared cursor -> this panel's nearest epoch (skyplot, strip chart)
+  useEffect(() => {
+    if (hasData && timeline.cursorMs !== null) setCursorIndex(findNearestIndex(positions, timeline.cursorMs));
+  }, [hasData, positions, timeline.cursorMs]);
+  const moveCursorTo = (idx: number) => timeline.onCursor(positions[idx]);
+
+  // Full-resolution analysis input: empty while parsing (each partial update would re-run every detector)
+  const analysed = isParsing ? NOT_ANALYSED : data;
 
   // 2. Heavy Calculation for Table: Extract Events (Full Resolution)
-  // We use the full `data` here because we want exact start/end times for the log table.
+  // We use the full state columns here because we want exact start/end times for the log table.
   const spoofingEvents = useMemo(() => {
-    if (!hasData) return [];
-    const events: {start: string, end: string, maxState: number, count: number}[] = [];
-    let current = null;
+    if (analysed.length === 0) return [];
+    const events: {start: string, end: string, startTime: number, maxState: number, count: number}[] = [];
+    let current: typeof events[number] | null = null;
+    const { spoofingState, secSigState } = analysed.states;
 
-    data.forEach(d => {
+    for (let idx = 0; idx < analysed.length; idx++) {
         // Check for spoofing (State 2=Indicated, 3=Confirmed)
-        const s1 = d.spoofingState || 0;
-        const s2 = d.secSigState || 0;
-        const state = Math.max(s1, s2);
-        
+        const state = Math.max(spoofingState[idx], secSigState[idx]);
+
         if (state >= 2) {
+            const time = formatEpochTime(epochTime(analysed, idx));
             if (!current) {
-                current = { start: d.timestamp, end: d.timestamp, maxState: state, count: 1 };
+                current = { start: time, end: time, startTime: analysed.timeSeconds[idx], maxState: state, count: 1 };
             } else {
-                current.end = d.timestamp;
+                current.end = time;
                 current.maxState = Math.max(current.maxState, state);
                 current.count++;
             }
-        } else {
-            if (current) {
-                events.push(current);
-                current = null;
+        } else if (current) {
+            events.push(current);
+            current = null;
+        }
+    }
+    if (current) events.push(current);
+    return events;
+  }, [analysed]);
+
+  // 3. Kinematic plausibility of consecutive fixes (Full Resolution)
+  const kinematics = useMemo(() => analyzeKinematics(analysed, platform), [analysed, platform]);
+
+  // 4. Cross-satellite C/N0 correlation (Full Resolution, decimated like chartData)
+  const correlation = useMemo(() => analyzeCn0Correlation(analysed), [analysed]);
+  const correlationLines = useMemo(() => (['correlation', 'spread', 'powerDistortion'] as const).map(key =>
+    Float64Array.from(correlation, c => c[key] ?? NaN)), [correlation]);
+  const correlationChartData = useMemo<Cn0CorrelationPoint[]>(() => {
+    if (correlation.length !== data.length) return [];
+    let indices = allIndices(visibleStart, visibleEnd);
+    if (indices.length > DOWNSAMPLE_TARGET) {
+        indices = mergeIndices([
+            ...correlationLines.map(line => lttbIndices(positions, line, visibleStart, visibleEnd, LINE_POINTS)),
+            transitionIndices(idx => correlation[idx].alertLevel, visibleStart, visibleEnd, TRANSITION_BUCKETS)
+        ]);
+    }
+    return indices.map(idx => {
+        const { timestamp, utcMs } = epochTime(data, idx);
+        return { ...correlation[idx], timestamp, utcMs, axisMs: positions[idx] };
+    });
+  }, [data, correlation, correlationLines, visibleStart, visibleEnd, positions]);
+
+  // Correlation alert intervals (level 2+) for the events table
+  const correlationEvents = useMemo(() => {
+    const events: {start: string, end: string, startTime: number, maxLevel: number}[] = [];
+    let current: typeof events[number] | null = null;
+    correlation.forEach((c, idx) => {
+        const d = epochTime(analysed, idx);
+        if (c.alertLevel >= 2) {
+            if (!current) {
+                current = { start: formatEpochTime(d), end: formatEpochTime(d), startTime: d.timeSeconds, maxLevel: c.alertLevel };
+            } else {
+                current.end = formatEpochTime(d);
+                current.maxLevel = Math.max(current.maxLevel, c.alertLevel);
             }
+        } else if (current) {
+            events.push(current);
+            current = null;
         }
     });
     if (current) events.push(current);
     return events;
-  }, [data, hasData]); // Added hasData to dependency
+  }, [analysed, correlation]);
+
+  // Offline spoofing score over the full-resolution data
+  const analysisSummary = useMemo(() => buildAnalysisSummary({
+      fileName: fileName || title,
+      data: analysed,
+      securityEvents,
+      kinematicEvents: kinematics.events,
+      correlation
+  }), [fileName, title, analysed, securityEvents, kinematics, correlation]);
+
+  // Receiver state intervals and detector/authentication events, in time order
+  const eventRows = useMemo(() => {
+    const stateSource = deviceType === 'X5' ? 'SBF-RFStatus' : 'UBX-SEC-SIG';
+    const rows: EventRow[] = [
+        ...spoofingEvents.map(evt => ({
+            time: evt.startTime,
+            start: evt.start,
+            end: evt.end,
+            label: evt.maxState === 3 ? 'ALERT' : 'WARN',
+            severity: (evt.maxState === 3 ? 'alert' : 'warn') as EventRow['severity'],
+            source: stateSource
+        })),
+        ...securityEvents.map(evt => ({
+            time: evt.timeSeconds,
+            start: formatEpochTime(evt),
+            end: '—',
+            label: evt.eventType,
+            severity: securityEventSeverity(evt),
+            source: [evt.source.replace('UBX-', ''), evt.detector, evt.constellation].filter(Boolean).join(' · ')
+        })),
+        ...kinematics.events.map(evt => ({
+            time: evt.startTime,
+            start: evt.start,
+            end: evt.end,
+            label: `${evt.label} ${evt.peak.toFixed(1)} ${evt.unit}`,
+            severity: (evt.flag === KinematicFlag.TELEPORT || evt.flag === KinematicFlag.SPEED ? 'alert' : 'warn') as EventRow['severity'],
+            source: `Kinematics · ${PLATFORM_PROFILES[platform].label}`
+        })),
+        ...correlationEvents.map(evt => ({
+            time: evt.startTime,
+            start: evt.start,
+            end: evt.end,
+            label: CN0_ALERT_LABELS[evt.maxLevel],
+            severity: (evt.maxLevel === 3 ? 'alert' : 'warn') as EventRow['severity'],
+            source: 'C/N0 correlation'
+        }))
+    ];
+    return rows.sort((a, b) => a.time - b.time);
+  }, [spoofingEvents, securityEvents, kinematics, correlationEvents, platform, deviceType]);
+
+  const analysisEvents = useMemo<AnalysisEvent[]>(() => eventRows.map(evt => ({
+      timeSeconds: evt.time,
+      label: evt.label,
+      source: evt.source,
+      severity: evt.severity,
+      start: evt.start,
+      end: evt.end
+  })), [eventRows]);
 
-  const handleExport = () => {
+  // Detector/auth events as markers on the spoofing chart
+  const securityMarkers = useMemo(() => {
+    return securityEvents.map(evt => ({
+        x: axisOf(evt),
+        label: evt.detector || evt.eventType,
+        color: securityEventSeverity(evt) === 'alert' ? '#ef4444' : (securityEventSeverity(evt) === 'warn' ? '#f97316' : '#94a3b8')
+    }));
+  }, [securityEvents, axisOf]);
+
+  const hasRfData = data.rfBlocks.size > 0 || data.interferenceBands.size > 0;
+  const hasSpectrum = data.spectra.size > 0;
+  const hasSatellites = data.satellites.offsets[data.length] > 0;
+  const cursorPoint = useMemo(() => (hasData ? epochAt(data, Math.min(cursorIndex, data.length - 1)) : null), [data, hasData, cursorIndex]);
+
+  // Per-epoch detection level of each indicator (0 none, 1 indicated, 2 confirmed) for the scorecard
+  const detectionSeries = useMemo(() => {
+    const series: DetectionSeries[] = [];
+    if (analysed.length === 0) return series;
+    if (isSpoofingSupported) {
+        const { spoofingState, secSigState } = analysed.states;
+        series.push({ source: 'Receiver', levels: Uint8Array.from(spoofingState, (s, idx) => {
+            const state = Math.max(s, secSigState[idx]);
+            return state >= 3 ? 2 : (state >= 2 ? 1 : 0);
+        }) });
+    }
+    if (hasSatellites) {
+        series.push({ source: 'C/N0 correlation', levels: Uint8Array.from(correlation, c => (c.alertLevel >= 3 ? 2 : (c.alertLevel >= 2 ? 1 : 0))) });
+    }
+    const severeFlags = KinematicFlag.TELEPORT | KinematicFlag.SPEED;
+    series.push({ source: `Kinematics (${PLATFORM_PROFILES[platform].label})`, levels: Uint8Array.from(kinematics.epochs, k => ((k.flags & severeFlags) ? 2 : (k.flags ? 1 : 0))) });
+    return series;
+  }, [analysed, isSpoofingSupported, hasSatellites, correlation, kinematics, platform]);
+
+  useEffect(() => {
+    onDetectionSeries(detectionSeries);
+  }, [detectionSeries, onDetectionSeries]);
+
+  useEffect(() => {
+    onAnalysis(analysed.length > 0 ? { summary: analysisSummary, events: analysisEvents } : null);
+  }, [analysed, analysisSummary, analysisEvents, onAnalysis]);
+
+  const handleExport = (format: ExportFormat) => {
+    setShowExportMenu(false);
     if (!hasData) return;
-    const headers = ['Timestamp', 'TimeSec', 'Lat', 'Lon', 'Alt', 'FixQual', 'Sats', 'L1_CN0', 'SpoofState', 'SecSigState'];
-    const csvContent = [
-        headers.join(','),
-        ...data.map(d => [
-            d.timestamp,
-            d.timeSeconds,
-            d.lat || '',
-            d.lon || '',
-            d.alt || '',
-            d.fixQuality,
-            d.satellitesUsed,
-            d.gpsL1Cn0,
-            d.spoofingState,
-            d.secSigState
-        ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `${deviceType}_analysis.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (format === 'data') {
+        setShowExportDialog(true);
+        return;
+    }
+
+    // GIS formats: full-resolution track, colored by the worst indicator level at each epoch
+    const input: GeoExportInput = {
+        name: fileName ? `${title} - ${fileName}` : title,
+        data,
+        levels: Uint8Array.from(positions, (_, idx) => detectionSeries.reduce((acc, s) => Math.max(acc, s.levels[idx]), 0)),
+        events: analysisEvents
+    };
+    if (format === 'gpx') downloadFile(buildGpx(input), `${deviceType}_track.gpx`, 'application/gpx+xml');
+    if (format === 'kml') downloadFile(buildKml(input), `${deviceType}_track.kml`, 'application/vnd.google-earth.kml+xml');
+    if (format === 'geojson') downloadFile(buildGeoJson(input), `${deviceType}_track.geojson`, 'application/geo+json');
   };
 
   return (
@@ -139,22 +551,57 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
         <div className="flex justify-between items-center mb-2">
           <h2 className="text-xl font-bold text-slate-200">{title}</h2>
           <div className="flex gap-2">
-             {hasData && (
-                <button 
-                    onClick={handleExport}
-                    className="bg-indigo-600 hover:bg-indigo-500 border border-indigo-400 text-xs text-white py-1.5 px-3 rounded shadow-sm transition-all flex items-center gap-1"
-                    title="Export CSV"
+             {hasSpectrum && (
+                <button
+                    onClick={() => setShowSpectrum(v => !v)}
+                    className={`border text-xs py-1.5 px-3 rounded shadow-sm transition-all ${showSpectrum ? 'bg-cyan-700 border-cyan-400 text-white' : 'bg-slate-800 hover:bg-slate-700 border-slate-600 text-slate-200'}`}
+                    title="RF spectrum waterfall (UBX-MON-SPAN)"
                 >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                    Export
+                    Spectrum
                 </button>
+             )}
+             {hasSatellites && (
+                <button
+                    onClick={() => setShowSatellites(v => !v)}
+                    className={`border text-xs py-1.5 px-3 rounded shadow-sm transition-all ${showSatellites ? 'bg-cyan-700 border-cyan-400 text-white' : 'bg-slate-800 hover:bg-slate-700 border-slate-600 text-slate-200'}`}
+                    title="Skyplot and per-satellite C/N0"
+                >
+                    Sky
+                </button>
+             )}
+             {hasData && (
+                <div className="relative">
+                    <button 
+                        onClick={() => setShowExportMenu(v => !v)}
+                        className="bg-indigo-600 hover:bg-indigo-500 border border-indigo-400 text-xs text-white py-1.5 px-3 rounded shadow-sm transition-all flex items-center gap-1"
+                        title="Export CSV, GPX, KML or GeoJSON"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                        </svg>
+                        Export
+                    </button>
+                    {showExportMenu && (
+                        <div className="absolute right-0 mt-1 z-30 bg-slate-800 border border-slate-600 rounded shadow-lg flex flex-col min-w-[96px]">
+                            {EXPORT_FORMATS.map(f => (
+                                <button
+                                    key={f.format}
+                                    onClick={() => handleExport(f.format)}
+                                    className="text-left text-xs text-slate-200 px-3 py-1.5 hover:bg-slate-700"
+                                    title={f.title}
+                                >
+                                    {f.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
             )}
             <div className="relative group">
                 <input
                     type="file"
-                    accept=".txt,.ubx,.nmea,.log,.sbf"
+                    multiple
+                    accept=".txt,.ubx,.nmea,.log,.sbf,.gz,.zip"
                     onChange={onUpload}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
                 />
@@ -165,16 +612,38 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
                     {fileName ? 'Change' : 'Upload'}
                 </button>
             </div>
+            {hasData && !isParsing && (
+                <div className="relative group" title="Add more files of this capture (merged by time, overlaps removed)">
+                    <input
+                        type="file"
+                        multiple
+                        accept=".txt,.ubx,.nmea,.log,.sbf,.gz,.zip"
+                        onChange={onAppend}
+                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+                    />
+                    <button className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1.5 px-3 rounded shadow-sm transition-all flex items-center gap-2 group-hover:border-cyan-500/50">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-cyan-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        Add
+                    </button>
+                </div>
+            )}
           </div>
         </div>
         
-        {fileName ? (
+        {isParsing ? (
+            <ParseStatus fileName={fileName} progress={parseProgress} onCancel={onCancelParse} />
+        ) : fileName ? (
             <div className="text-xs text-slate-400 font-mono truncate" title={fileName}>
                 Loaded: {fileName}
             </div>
         ) : (
             <div className="text-xs text-slate-500 italic">No file loaded</div>
         )}
+        {loadError && !isParsing && (
+            <div className="text-xs text-amber-400 break-words" title={loadError}>{loadError}</div>
+        )}
       </div>
 
       {/* Content Area */}
@@ -186,10 +655,10 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
                      <div className="bg-slate-800 p-2 rounded border border-slate-700">
                         <p className="text-[10px] text-slate-500 uppercase font-bold">Duration</p>
                         <p className="text-sm font-mono text-white">
-                            {(data[data.length-1].timeSeconds / 60).toFixed(1)}m
+                            {(data.timeSeconds[data.length - 1] / 60).toFixed(1)}m
                         </p>
                     </div>
-                     <div className="bg-slate-800 p-2 rounded border border-slate-700">
+                     <div className="bg-slate-800 p-2 rounded border border-slate-700" title={`Charts show ${chartData.length} of ${visibleEnd - visibleStart} epochs in view`}>
                         <p className="text-[10px] text-slate-500 uppercase font-bold">Points</p>
                         <p className="text-sm font-mono text-white">
                            {/* Show Total points, but Charts use downsampled */}
@@ -204,22 +673,101 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
                     </div>
                 </div>
 
+                {/* Platform profile for the kinematic plausibility checks */}
+                <div className="flex items-center justify-between flex-none mb-2 text-[10px]">
+                    <label className="text-slate-500 uppercase font-bold flex items-center gap-2">
+                        Platform
+                        <select
+                            value={platform}
+                            onChange={(e) => setPlatform(e.target.value as PlatformProfile)}
+                            className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 normal-case font-normal"
+                        >
+                            {(Object.keys(PLATFORM_PROFILES) as PlatformProfile[]).map(p => (
+                                <option key={p} value={p}>{PLATFORM_PROFILES[p].label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {/* Manual clock correction for receivers whose time was spoofed */}
+                    <label className="text-slate-500 uppercase font-bold flex items-center gap-1" title="Shift this receiver on the shared timeline">
+                        Offset
+                        <input
+                            type="number"
+                            step={0.1}
+                            value={timeOffset}
+                            onChange={(e) => onTimeOffsetChange(parseFloat(e.target.value) || 0)}
+                            className="w-16 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono font-normal"
+                        />
+                        <span className="normal-case font-normal">s</span>
+                    </label>
+                    <span className={`font-mono ${kinematics.events.length > 0 ? 'text-orange-400' : 'text-slate-500'}`}>
+                        {kinematics.events.length} kinematic anomalies
+                    </span>
+                </div>
+
+                {/* Frame Integrity (checksum / CRC validation) */}
+                {integrity && <IntegritySection integrity={integrity} />}
+
+                {/* Files of a capture split over several logs */}
+                {files.length > 1 && <FilesSection files={files} />}
+
+                {/* Rule-based spoofing indicators */}
+                <AnalysisSummarySection summary={analysisSummary} />
+
                 {/* Charts */}
                 <div className="flex-1 flex flex-col min-h-0 gap-2">
                     {/* Pass chartData (Downsampled) to charts */}
                     <SpoofingChart 
                         data={chartData} 
+                        timeline={timeline}
                         disabled={!isSpoofingSupported} 
                         deviceType={deviceType}
+                        markers={securityMarkers}
+                        gaps={gapRanges}
                     />
-                    <SignalChart data={chartData} />
-                    <FixStatusChart data={chartData} />
+                    <SignalChart data={chartData} timeline={timeline} gaps={gapRanges} />
+                    {hasRfData && <JammingChart data={chartData} timeline={timeline} deviceType={deviceType} gaps={gapRanges} />}
+                    {hasSatellites && <Cn0CorrelationChart data={correlationChartData} timeline={timeline} gaps={gapRanges} />}
+                    <FixStatusChart data={chartData} timeline={timeline} gaps={gapRanges} />
+
+                    {/* RF spectrum waterfall (UBX-MON-SPAN), uses full data */}
+                    {showSpectrum && hasSpectrum && (
+                        <div className="bg-slate-800 rounded border border-slate-700 p-2 flex-none">
+                            <SpectrumWaterfall data={spectrumData} />
+                        </div>
+                    )}
 
-                    {/* Spoofing Extraction List (Uses full data) */}
-                    {spoofingEvents.length > 0 && (
+                    {/* Skyplot + per-PRN C/N0 strip chart, synced to the time cursor */}
+                    {showSatellites && hasSatellites && cursorPoint && (
+                        <div className="bg-slate-800 rounded border border-slate-700 p-2 flex-none flex gap-2 max-h-60">
+                            <div className="flex flex-col items-center flex-none">
+                                <Skyplot satellites={cursorPoint.satellites || []} />
+                                <span className="text-[10px] font-mono text-slate-400">{formatEpochTime(cursorPoint)}</span>
+                            </div>
+                            <div className="flex-1 min-w-0 flex flex-col">
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={data.length - 1}
+                                    value={Math.min(cursorIndex, data.length - 1)}
+                                    onChange={(e) => moveCursorTo(parseInt(e.target.value))}
+                                    className="w-full flex-none mb-1 accent-cyan-400"
+                                />
+                                <div className="flex-1 min-h-0 overflow-y-auto">
+                                    <SatelliteStripChart
+                                        data={stripData}
+                                        cursorTime={cursorPoint.timeSeconds}
+                                        onSelectTime={(t) => moveCursorTo(findNearestIndex(data.timeSeconds, t))}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Spoofing Extraction List (Uses full data) + detector/auth events */}
+                    {eventRows.length > 0 && (
                         <div className="bg-slate-900/50 rounded border border-red-900/50 overflow-hidden flex-none max-h-32 overflow-y-auto">
                             <div className="bg-red-900/20 px-3 py-1 text-[10px] font-bold text-red-400 uppercase tracking-wider sticky top-0 backdrop-blur-sm">
-                                Spoofing Detected ({spoofingEvents.length} events)
+                                Spoofing Detected ({spoofingEvents.length} events{eventRows.length > spoofingEvents.length ? ` · ${eventRows.length - spoofingEvents.length} indicators` : ''})
                             </div>
                             <table className="w-full text-xs text-left">
                                 <thead className="text-slate-500 border-b border-slate-800">
@@ -227,18 +775,24 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
                                         <th className="px-3 py-1">Start</th>
                                         <th className="px-3 py-1">End</th>
                                         <th className="px-3 py-1">Level</th>
+                                        <th className="px-3 py-1">Source</th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-slate-800">
-                                    {spoofingEvents.map((evt, idx) => (
-                                        <tr key={idx} className="hover:bg-red-500/5 transition-colors">
+                                    {eventRows.map((evt, idx) => (
+                                        <tr
+                                            key={idx}
+                                            onClick={() => moveCursorTo(findNearestIndex(data.timeSeconds, evt.time))}
+                                            className="hover:bg-red-500/5 transition-colors cursor-pointer"
+                                        >
                                             <td className="px-3 py-1 text-slate-300 font-mono">{evt.start}</td>
                                             <td className="px-3 py-1 text-slate-300 font-mono">{evt.end}</td>
                                             <td className="px-3 py-1">
-                                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${evt.maxState === 3 ? 'bg-red-500 text-white' : 'bg-orange-500 text-white'}`}>
-                                                    {evt.maxState === 3 ? 'ALERT' : 'WARN'}
+                                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${SEVERITY_CLASS[evt.severity]}`}>
+                                                    {evt.label}
                                                 </span>
                                             </td>
+                                            <td className="px-3 py-1 text-slate-500 text-[10px]">{evt.source}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -268,6 +822,24 @@ export const DevicePanel: React.FC<DevicePanelProps> = ({
             </div>
         )}
       </div>
+
+      {showExportDialog && (
+        <ExportDialog
+          title={title}
+          deviceType={deviceType}
+          fileName={fileName}
+          data={data}
+          timeOffset={timeOffset}
+          msgCounts={msgCounts}
+          integrity={integrity}
+          securityEvents={securityEvents}
+          events={eventRows}
+          analysis={analysisSummary}
+          allDevices={exportDevices}
+          visibleRange={timeline.domain}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { EpochTable, LogAnalysisSummary, ParseIntegrity, SecurityEvent } from '../types';
+import {
+  buildCombinedCsv,
+  buildCsv,
+  buildJsonBundle,
+  CombinedExportDevice,
+  DEFAULT_EXPORT_COLUMNS,
+  downloadFile,
+  EXPORT_COLUMNS,
+  filterByRange
+} from '../services/dataExport';
+import { parseTimeInput } from '../services/scorecard';
+import { formatTimelineTime } from '../services/utcTime';
+
+interface ExportDialogProps {
+  title: string;
+  deviceType: string;
+  fileName: string | null;
+  data: EpochTable;
+  timeOffset: number;
+  msgCounts: Record<string, number>;
+  integrity: ParseIntegrity | null;
+  securityEvents: SecurityEvent[];
+  events: unknown[]; // The panel's event table
+  analysis: LogAnalysisSummary;
+  allDevices: CombinedExportDevice[]; // Every receiver, for the combined CSV
+  visibleRange: [number, number]; // Current shared timeline view
+  onClose: () => void;
+}
+
+type ExportMode = 'csv' | 'json' | 'combined';
+type RangeMode = 'all' | 'view' | 'custom';
+
+const MODES: { mode: ExportMode; label: string }[] = [
+  { mode: 'csv', label: 'Device CSV' },
+  { mode: 'json', label: 'JSON bundle' },
+  { mode: 'combined', label: 'Combined CSV (all receivers)' }
+];
+
+const GROUPS = Array.from(new Set(EXPORT_COLUMNS.map(c => c.group)));
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  title,
+  deviceType,
+  fileName,
+  data,
+  timeOffset,
+  msgCounts,
+  integrity,
+  securityEvents,
+  events,
+  analysis,
+  allDevices,
+  visibleRange,
+  onClose
+}) => {
+  const [mode, setMode] = useState<ExportMode>('csv');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [rangeMode, setRangeMode] = useState<RangeMode>('all');
+  const [custom, setCustom] = useState({ start: '', end: '' });
+  const [includeDetail, setIncludeDetail] = useState(true);
+  const [stepMs, setStepMs] = useState(100);
+
+  const range = useMemo<[number, number] | null | undefined>(() => {
+    if (rangeMode === 'all') return null;
+    if (rangeMode === 'view') return visibleRange;
+    const start = parseTimeInput(custom.start);
+    const end = parseTimeInput(custom.end);
+    return start !== undefined && end !== undefined && end > start ? [start, end] : undefined; // undefined: invalid
+  }, [rangeMode, visibleRange, custom]);
+
+  const epochCount = useMemo(() => {
+    if (range === undefined) return 0;
+    if (mode === 'combined') return allDevices.reduce((acc, dev) => acc + filterByRange(dev.data, dev.timeOffset, range).length, 0);
+    return filterByRange(data, timeOffset, range).length;
+  }, [mode, range, data, timeOffset, allDevices]);
+
+  const toggleColumn = (key: string) =>
+    setColumns(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const handleDownload = () => {
+    if (range === undefined) return;
+    const suffix = range ? '_range' : '';
+    if (mode === 'csv') {
+      downloadFile(buildCsv(data, filterByRange(data, timeOffset, range), columns), `${deviceType}_analysis${suffix}.csv`, 'text/csv;charset=utf-8;');
+    } else if (mode === 'json') {
+      const bundle = buildJsonBundle({
+        title,
+        deviceType,
+        fileName,
+        timeOffset,
+        range,
+        data,
+        indices: filterByRange(data, timeOffset, range),
+        messageCounts: msgCounts,
+        integrity,
+        securityEvents,
+        events,
+        analysis,
+        includeDetail
+      });
+      downloadFile(bundle, `${deviceType}_bundle${suffix}.json`, 'application/json');
+    } else {
+      downloadFile(buildCombinedCsv(allDevices, columns, range, stepMs), `combined_receivers${suffix}.csv`, 'text/csv;charset=utf-8;');
+    }
+    onClose();
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded border text-xs ${active ? 'bg-slate-200 border-slate-200 text-slate-900 font-bold' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`;
+  const inputClass = 'w-40 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono text-xs';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-slate-800 border border-slate-600 rounded-lg p-4 w-[720px] max-w-[95vw] max-h-[90vh] overflow-y-auto custom-scrollbar flex flex-col gap-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-200 text-sm font-bold">Export data · {title}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-xs">Close</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {MODES.map(m => (
+            <button key={m.mode} onClick={() => setMode(m.mode)} className={chipClass(mode === m.mode)}>{m.label}</button>
+          ))}
+        </div>
+
+        {/* Time range on the shared timeline */}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <span className="font-bold uppercase text-slate-500">Range</span>
+          <button onClick={() => setRangeMode('all')} className={chipClass(rangeMode === 'all')}>Whole log</button>
+          <button onClick={() => setRangeMode('view')} className={chipClass(rangeMode === 'view')}>
+            Current view ({formatTimelineTime(visibleRange[0])} → {formatTimelineTime(visibleRange[1])})
+          </button>
+          <button onClick={() => setRangeMode('custom')} className={chipClass(rangeMode === 'custom')}>Custom</button>
+          {rangeMode === 'custom' && (
+            <>
+              <input value={custom.start} onChange={(e) => setCustom({ ...custom, start: e.target.value })} placeholder="Start (UTC)" className={inputClass} />
+              <input value={custom.end} onChange={(e) => setCustom({ ...custom, end: e.target.value })} placeholder="Stop (UTC)" className={inputClass} />
+            </>
+          )}
+        </div>
+
+        {mode === 'json' ? (
+          <div className="text-xs text-slate-400 flex flex-col gap-2">
+            <p>All epoch fields, message counts, parse integrity, the event table, receiver security events, the spoofing score and file metadata.</p>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeDetail} onChange={(e) => setIncludeDetail(e.target.checked)} />
+              Include per-satellite, RF block and spectrum detail (large)
+            </label>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="font-bold uppercase text-slate-500">Columns</span>
+              <button onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)} className="text-blue-400 hover:text-white">Default</button>
+              <button onClick={() => setColumns(EXPORT_COLUMNS.map(c => c.key))} className="text-blue-400 hover:text-white">All</button>
+              <button onClick={() => setColumns([])} className="text-blue-400 hover:text-white">None</button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {GROUPS.map(group => (
+                <div key={group}>
+                  <div className="text-slate-500 font-bold mb-1">{group}</div>
+                  {EXPORT_COLUMNS.filter(c => c.group === group).map(c => (
+                    <label key={c.key} className="flex items-center gap-1 text-slate-300">
+                      <input type="checkbox" checked={columns.includes(c.key)} onChange={() => toggleColumn(c.key)} />
+                      <span className="font-mono">{c.key}</span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+            {mode === 'combined' && (
+              <label className="flex items-center gap-2 text-slate-400">
+                Align epochs to
+                <select value={stepMs} onChange={(e) => setStepMs(Number(e.target.value))} className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-slate-200">
+                  <option value={50}>50 ms (20 Hz)</option>
+                  <option value={100}>100 ms (10 Hz)</option>
+                  <option value={1000}>1 s</option>
+                </select>
+                on UTC, one column group per receiver (clock offsets applied)
+              </label>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center border-t border-slate-700 pt-3 text-xs">
+          <span className={range === undefined ? 'text-red-400' : 'text-slate-400'}>
+            {range === undefined ? 'Use YYYY-MM-DD HH:MM:SS (UTC) or HH:MM:SS, with stop after start' : `${epochCount} epochs`}
+          </span>
+          <button
+            disabled={range === undefined || (mode !== 'json' && columns.length === 0)}
+            onClick={handleDownload}
+            className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 border border-indigo-400 text-white py-1.5 px-4 rounded shadow-sm transition-all"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { AttackWindow, PositionError, PositionErrorStats, ReferenceSource } from '../types';
+import { PositionErrorChart, PositionErrorPoint, PositionErrorSeries, TimelineProps } from './Charts';
+import { MapTrack } from './TrajectoryMap';
+import { computePositionErrors, parseReferenceTrajectory, splitErrorStats } from '../services/referenceTrajectory';
+import { epochPositions, epochTime } from '../services/epochTable';
+
+interface PositionErrorPanelProps {
+  tracks: MapTrack[];
+  windows: AttackWindow[];
+  timeline: TimelineProps;
+  reference: ReferenceSource | null;
+  onReferenceChange: (reference: ReferenceSource | null) => void;
+}
+
+type ErrorMetric = 'horizontal' | 'vertical' | '3d';
+
+const METRICS: { key: ErrorMetric; label: string; unit: string; value: (e: PositionError) => number | undefined }[] = [
+  { key: 'horizontal', label: '2D', unit: '2D error (m)', value: e => e.horizontal },
+  { key: 'vertical', label: 'Vertical', unit: 'Vertical error (m)', value: e => e.up },
+  { key: '3d', label: '3D', unit: '3D error (m)', value: e => e.error3d }
+];
+
+// Per receiver, plotted points over the visible range
+const CHART_POINTS = 1000;
+
+const formatMeters = (value?: number) => (value === undefined ? '—' : value.toFixed(2));
+
+export const PositionErrorPanel: React.FC<PositionErrorPanelProps> = ({ tracks, windows, timeline, reference, onReferenceChange }) => {
+  const [pointDraft, setPointDraft] = useState({ lat: '', lon: '', alt: '' });
+  const [metric, setMetric] = useState<ErrorMetric>('horizontal');
+  const [error, setError] = useState<string | null>(null);
+
+  const deviceErrors = useMemo(() => {
+    if (!reference) return [];
+    return tracks.filter(t => t.data.length > 0).map(track => {
+      const times = epochPositions(track.data, track.timeOffset);
+      return { track, times, errors: computePositionErrors(track.data, times, reference) };
+    });
+  }, [tracks, reference]);
+
+  const stats = useMemo(
+    () => deviceErrors.map(({ track, times, errors }) => ({ title: track.title, ...splitErrorStats(errors, times, windows) })),
+    [deviceErrors, windows]
+  );
+
+  const series = useMemo<PositionErrorSeries[]>(
+    () => deviceErrors.map(({ track }, idx) => ({ key: `d${idx}`, label: track.title, color: track.color })),
+    [deviceErrors]
+  );
+
+  // Worst error per bucket inside the visible range, then merged by time. Other receivers' rows carry the
+  // last value forward so each line stays continuous; null marks epochs without a reference.
+  const chartData = useMemo(() => {
+    const metricOf = METRICS.find(m => m.key === metric)!.value;
+    const [from, to] = timeline.domain;
+    const rows: PositionErrorPoint[] = [];
+    const spans: [number, number][] = [];
+    deviceErrors.forEach(({ track, times, errors }, deviceIdx) => {
+      const key = `d${deviceIdx}`;
+      const visible: number[] = [];
+      for (let idx = 0; idx < times.length; idx++) if (times[idx] >= from && times[idx] <= to) visible.push(idx);
+      const blockSize = Math.max(1, Math.ceil(visible.length / CHART_POINTS));
+      for (let k = 0; k < visible.length; k += blockSize) {
+        let worst: number | null = null;
+        visible.slice(k, k + blockSize).forEach(idx => {
+          const v = errors[idx] ? metricOf(errors[idx]!) : undefined;
+          if (v !== undefined && (worst === null || Math.abs(v) > Math.abs(worst))) worst = v;
+        });
+        const d = epochTime(track.data, visible[k]);
+        rows.push({ axisMs: times[visible[k]], utcMs: d.utcMs, timestamp: d.timestamp, [key]: worst });
+      }
+      spans.push(visible.length > 0 ? [times[visible[0]], times[visible[visible.length - 1]]] : [Infinity, -Infinity]);
+    });
+    rows.sort((a, b) => a.axisMs - b.axisMs);
+    series.forEach((s, deviceIdx) => {
+      let last: number | null = null;
+      rows.forEach(row => {
+        if (s.key in row) last = row[s.key] as number | null;
+        else if (row.axisMs >= spans[deviceIdx][0] && row.axisMs <= spans[deviceIdx][1]) row[s.key] = last;
+      });
+    });
+    return rows;
+  }, [deviceErrors, series, metric, timeline.domain]);
+
+  const handleSetPoint = () => {
+    const lat = parseFloat(pointDraft.lat);
+    const lon = parseFloat(pointDraft.lon);
+    const alt = parseFloat(pointDraft.alt);
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      setError('Enter the surveyed position as decimal degrees');
+      return;
+    }
+    setError(null);
+    onReferenceChange({
+      kind: 'point',
+      label: `Point ${lat.toFixed(7)}, ${lon.toFixed(7)}${isNaN(alt) ? '' : `, ${alt.toFixed(2)} m`}`,
+      lat,
+      lon,
+      alt: isNaN(alt) ? undefined : alt
+    });
+  };
+
+  const handleLoadTrajectory = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const samples = parseReferenceTrajectory(await file.text());
+      if (samples.length < 2) throw new Error('fewer than two time-tagged positions');
+      setError(null);
+      onReferenceChange({ kind: 'trajectory', label: `${file.name} (${samples.length} samples)`, samples });
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const statCells = (s: PositionErrorStats) => (
+    <>
+      <td className="px-2 py-1">{s.epochs}</td>
+      <td className="px-2 py-1">{formatMeters(s.cep50)}</td>
+      <td className="px-2 py-1">{formatMeters(s.cep95)}</td>
+      <td className="px-2 py-1">{formatMeters(s.maxHorizontal)}</td>
+      <td className="px-2 py-1">{formatMeters(s.maxVertical)}</td>
+      <td className="px-2 py-1">{formatMeters(s.max3d)}</td>
+    </>
+  );
+
+  const buttonClass = 'bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1 px-3 rounded shadow-sm transition-all';
+  const inputClass = 'bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono';
+
+  return (
+    <section className="bg-slate-800/20 rounded-xl border border-slate-700/50 p-4">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h2 className="text-lg font-bold text-slate-200">Position Error vs Reference</h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <input value={pointDraft.lat} onChange={(e) => setPointDraft({ ...pointDraft, lat: e.target.value })} placeholder="Lat" className={`w-28 ${inputClass}`} />
+          <input value={pointDraft.lon} onChange={(e) => setPointDraft({ ...pointDraft, lon: e.target.value })} placeholder="Lon" className={`w-28 ${inputClass}`} />
+          <input value={pointDraft.alt} onChange={(e) => setPointDraft({ ...pointDraft, alt: e.target.value })} placeholder="Alt MSL (m)" className={`w-24 ${inputClass}`} />
+          <button onClick={handleSetPoint} className={buttonClass} title="Surveyed antenna position (static test)">Set point</button>
+          <div className="relative">
+            <input
+              type="file"
+              accept=".csv,.txt,.gpx,.nmea,.log"
+              onChange={handleLoadTrajectory}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+            />
+            <button className={buttonClass} title="CSV (time, lat, lon, alt), GPX or NMEA; interpolated by UTC time">Load reference track</button>
+          </div>
+          {reference && <button onClick={() => onReferenceChange(null)} className={buttonClass}>Clear</button>}
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      {!reference ? (
+        <div className="text-xs text-slate-500 italic">Enter the surveyed antenna position or load a reference trajectory to compute position errors.</div>
+      ) : (
+        <>
+          <div className="flex justify-between items-center mb-2 text-xs">
+            <span className="text-slate-400 font-mono">Reference: {reference.label}</span>
+            <div className="flex rounded border border-slate-600 overflow-hidden">
+              {METRICS.map(m => (
+                <button
+                  key={m.key}
+                  onClick={() => setMetric(m.key)}
+                  className={`px-2 py-0.5 ${metric === m.key ? 'bg-slate-200 text-slate-900 font-bold' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="h-56 mb-3">
+            <PositionErrorChart
+              data={chartData}
+              series={series}
+              unit={METRICS.find(m => m.key === metric)!.unit}
+              windows={windows}
+              timeline={timeline}
+            />
+          </div>
+
+          <table className="w-full text-xs text-left">
+            <thead className="text-slate-500 border-b border-slate-700">
+              <tr>
+                <th className="px-2 py-1">Device</th>
+                <th className="px-2 py-1">Period</th>
+                <th className="px-2 py-1">Epochs</th>
+                <th className="px-2 py-1">CEP50 (m)</th>
+                <th className="px-2 py-1">CEP95 (m)</th>
+                <th className="px-2 py-1">Max 2D (m)</th>
+                <th className="px-2 py-1">Max vertical (m)</th>
+                <th className="px-2 py-1">Max 3D (m)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 font-mono text-slate-300">
+              {stats.map(s => (
+                <React.Fragment key={s.title}>
+                  <tr>
+                    <td className="px-2 py-1 font-sans">{s.title}</td>
+                    <td className="px-2 py-1 font-sans text-slate-400">All</td>
+                    {statCells(s.all)}
+                  </tr>
+                  {windows.length > 0 && (
+                    <>
+                      <tr className="text-red-300">
+                        <td className="px-2 py-1"></td>
+                        <td className="px-2 py-1 font-sans">Inside attacks</td>
+                        {statCells(s.inside)}
+                      </tr>
+                      <tr>
+                        <td className="px-2 py-1"></td>
+                        <td className="px-2 py-1 font-sans text-slate-400">Outside attacks</td>
+                        {statCells(s.outside)}
+                      </tr>
+                    </>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { AttackWindow, ReferenceSource, TestRun } from '../types';
+import { buildHtmlReport, ReportDevice } from '../services/reportBuilder';
+import { downloadFile } from '../services/dataExport';
+import { ATTACK_TYPE_LABELS } from './CampaignManager';
+
+interface ReportDialogProps {
+  devices: ReportDevice[];
+  run: TestRun | null;
+  windows: AttackWindow[];
+  reference: ReferenceSource | null;
+  notes: string; // Kept by the app so they survive closing the dialog
+  onNotesChange: (notes: string) => void;
+  onClose: () => void;
+}
+
+const reportFileName = (title: string) =>
+  `${title.trim().replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'gnss_report'}.html`;
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({ devices, run, windows, reference, notes, onNotesChange, onClose }) => {
+  const [title, setTitle] = useState(run ? `${run.campaign ? `${run.campaign} · ` : ''}${run.name}` : 'GNSS spoofing test report');
+  const loaded = devices.filter(d => d.data.length > 0);
+
+  const buildReport = () => buildHtmlReport({
+    title: title.trim() || 'GNSS spoofing test report',
+    run,
+    attackTypeLabel: run ? ATTACK_TYPE_LABELS[run.attackType] : undefined,
+    devices,
+    windows,
+    reference,
+    notes,
+    generatedMs: Date.now()
+  });
+
+  const handleDownload = () => {
+    downloadFile(buildReport(), reportFileName(title), 'text/html;charset=utf-8;');
+    onClose();
+  };
+
+  // Same document in a new tab, straight into the print dialog (Save as PDF)
+  const handlePrint = () => {
+    const url = URL.createObjectURL(new Blob([buildReport()], { type: 'text/html' }));
+    const win = window.open(url, '_blank');
+    if (win) {
+      win.addEventListener('load', () => {
+        win.print();
+        URL.revokeObjectURL(url);
+      });
+    } else {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const buttonClass = 'border text-white py-1.5 px-4 rounded shadow-sm transition-all disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-slate-800 border border-slate-600 rounded-lg p-4 w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto custom-scrollbar flex flex-col gap-3 text-xs"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-slate-200 text-sm font-bold">Forensic report</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">Close</button>
+        </div>
+
+        <p className="text-slate-400">
+          One self-contained HTML file (embedded SVG charts, no external assets): run metadata, cross-device comparison and,
+          per receiver, file metadata, message statistics, events, indicator summary, charts and the track map.
+        </p>
+
+        <label className="flex flex-col gap-1 text-slate-400">
+          Title
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-slate-400">
+          Analyst notes (optional)
+          <textarea
+            value={notes}
+            onChange={(e) => onNotesChange(e.target.value)}
+            rows={8}
+            placeholder="Observations, conclusions, anomalies in the setup…"
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono"
+          />
+        </label>
+
+        <div className="flex justify-between items-center border-t border-slate-700 pt-3">
+          <span className={loaded.length === 0 ? 'text-red-400' : 'text-slate-400'}>
+            {loaded.length === 0
+              ? 'Load at least one log'
+              : `${loaded.map(d => d.title).join(', ')} · ${windows.length} attack window${windows.length === 1 ? '' : 's'}${reference ? ' · reference' : ''}`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              disabled={loaded.length === 0}
+              onClick={handlePrint}
+              className={`bg-slate-700 hover:bg-slate-600 border-slate-500 ${buttonClass}`}
+              title="Opens the report in a new tab with the print dialog"
+            >
+              Print / PDF
+            </button>
+            <button
+              disabled={loaded.length === 0}
+              onClick={handleDownload}
+              className={`bg-indigo-600 hover:bg-indigo-500 border-indigo-400 ${buttonClass}`}
+            >
+              Download HTML
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { GNSSDataPoint, SatelliteInfo } from '../types';
+import { SYSTEM_COLORS } from './Charts';
+
+// C/N0 color ramp for the strip chart: weak (dark blue) -> strong (yellow). 0 = not tracked.
+const cn0Color = (cn0: number) => {
+  if (cn0 <= 0) return null;
+  const t = Math.max(0, Math.min(1, (cn0 - 20) / 35)); // 20..55 dB-Hz
+  const hue = 240 - t * 180;
+  return `hsl(${hue}, 85%, ${35 + t * 25}%)`;
+};
+
+// --- Skyplot: polar plot of the satellites at the cursor epoch ---
+interface SkyplotProps {
+  satellites: SatelliteInfo[];
+  size?: number;
+}
+
+export const Skyplot: React.FC<SkyplotProps> = ({ satellites, size = 180 }) => {
+  const c = size / 2;
+  const r = c - 14;
+
+  // Zenith at center, horizon at the outer ring, north up
+  const project = (elevation: number, azimuth: number) => {
+    const rho = r * (90 - Math.max(0, elevation)) / 90;
+    const theta = (azimuth * Math.PI) / 180;
+    return { x: c + rho * Math.sin(theta), y: c - rho * Math.cos(theta) };
+  };
+
+  const placed = satellites.filter(s => !isNaN(s.elevation) && !isNaN(s.azimuth));
+  // Negative elevations or > 90 deg are physically impossible for a tracked satellite
+  const isImpossible = (s: SatelliteInfo) => s.elevation < 0 || s.elevation > 90;
+
+  return (
+    <svg width={size} height={size} className="flex-none">
+      {[0, 30, 60].map(el => (
+        <circle key={el} cx={c} cy={c} r={r * (90 - el) / 90} fill="none" stroke="#334155" strokeDasharray={el === 0 ? undefined : '3 3'} />
+      ))}
+      <line x1={c} y1={c - r} x2={c} y2={c + r} stroke="#334155" />
+      <line x1={c - r} y1={c} x2={c + r} y2={c} stroke="#334155" />
+      {[['N', c, 9], ['S', c, size - 2], ['E', size - 6, c + 3], ['W', 5, c + 3]].map(([label, x, y]) => (
+        <text key={label as string} x={x as number} y={y as number} fill="#64748b" fontSize={9} textAnchor="middle">{label}</text>
+      ))}
+      {placed.map(sat => {
+        const { x, y } = project(sat.elevation, sat.azimuth);
+        const color = SYSTEM_COLORS[sat.system];
+        return (
+          <g key={sat.prn}>
+            <title>{`${sat.prn} el ${sat.elevation.toFixed(0)}° az ${sat.azimuth.toFixed(0)}° C/N0 ${sat.snr || '-'}${sat.used ? ' (used)' : ''}`}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={5}
+              fill={sat.used ? color : 'none'}
+              fillOpacity={sat.snr > 0 ? 0.4 + Math.min(sat.snr, 50) / 100 : 0.2}
+              stroke={isImpossible(sat) ? '#ef4444' : color}
+              strokeWidth={isImpossible(sat) ? 2 : 1}
+            />
+            <text x={x} y={y - 7} fill="#cbd5e1" fontSize={7} textAnchor="middle">{sat.prn}</text>
+          </g>
+        );
+      })}
+      {placed.length === 0 && (
+        <text x={c} y={c + 3} fill="#64748b" fontSize={10} textAnchor="middle">No geometry</text>
+      )}
+    </svg>
+  );
+};
+
+// --- Strip chart: one row per PRN, C/N0 as color over time ---
+interface SatelliteStripChartProps {
+  data: GNSSDataPoint[]; // Evenly spaced epochs of the visible range
+  cursorTime: number | null; // timeSeconds of the cursor epoch
+  onSelectTime: (timeSeconds: number) => void;
+}
+
+const ROW_HEIGHT = 6;
+const LABEL_WIDTH = 28;
+
+export const SatelliteStripChart: React.FC<SatelliteStripChartProps> = ({ data, cursorTime, onSelectTime }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Stable PRN order: by constellation, then number
+  const prns = useMemo(() => {
+    const ids = new Set<string>();
+    data.forEach(d => d.satellites?.forEach(s => ids.add(s.prn)));
+    return Array.from(ids).sort();
+  }, [data]);
+
+  const t0 = data.length > 0 ? data[0].timeSeconds : 0;
+  const t1 = data.length > 0 ? data[data.length - 1].timeSeconds : 1;
+  const span = Math.max(t1 - t0, 1e-6);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.clientWidth;
+    const height = prns.length * ROW_HEIGHT;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.clearRect(0, 0, width, height);
+
+    const plotWidth = width - LABEL_WIDTH;
+    const rowOf = new Map(prns.map((p, idx) => [p, idx]));
+
+    ctx.font = '6px monospace';
+    ctx.fillStyle = '#94a3b8';
+    prns.forEach((p, idx) => ctx.fillText(p, 0, idx * ROW_HEIGHT + ROW_HEIGHT - 1));
+
+    data.forEach((d, idx) => {
+      if (!d.satellites) return;
+      const x = LABEL_WIDTH + ((d.timeSeconds - t0) / span) * plotWidth;
+      const next = data[idx + 1];
+      const x2 = next ? LABEL_WIDTH + ((next.timeSeconds - t0) / span) * plotWidth : x + 1;
+      const w = Math.max(1, x2 - x);
+      d.satellites.forEach(sat => {
+        const color = cn0Color(sat.snr);
+        if (!color) return;
+        ctx.fillStyle = color;
+        ctx.fillRect(x, rowOf.get(sat.prn)! * ROW_HEIGHT, w, ROW_HEIGHT - 1);
+      });
+    });
+
+    if (cursorTime !== null) {
+      const x = LABEL_WIDTH + ((cursorTime - t0) / span) * plotWidth;
+      ctx.strokeStyle = '#f8fafc';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+  }, [data, prns, cursorTime, t0, span]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const frac = (e.clientX - rect.left - LABEL_WIDTH) / (rect.width - LABEL_WIDTH);
+    if (frac < 0 || frac > 1) return;
+    onSelectTime(t0 + frac * span);
+  };
+
+  if (prns.length === 0) {
+    return <div className="text-[10px] text-slate-500 italic p-2">No per-satellite data in this log</div>;
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className="w-full cursor-crosshair"
+      style={{ height: prns.length * ROW_HEIGHT }}
+      title="Per-PRN C/N0 (click to move the time cursor)"
+    />
+  );
+};
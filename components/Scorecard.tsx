@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { AttackWindow, DetectionScore, DetectionSeries, EpochTable } from '../types';
+import { parseTestPlan, parseTimeInput, scoreDetection } from '../services/scorecard';
+import { formatTimelineTime } from '../services/utcTime';
+import { epochPositions } from '../services/epochTable';
+import { downloadFile } from '../services/dataExport';
+
+export interface ScorecardDevice {
+  title: string;
+  data: EpochTable;
+  timeOffset: number;
+  series: DetectionSeries[];
+}
+
+interface ScorecardProps {
+  devices: ScorecardDevice[];
+  windows: AttackWindow[];
+  onWindowsChange: (windows: AttackWindow[]) => void;
+  zoomRange: [number, number] | null; // Current shared zoom, offered as a quick way to add a window
+}
+
+const formatSeconds = (value?: number) => (value === undefined ? '—' : `${value.toFixed(1)} s`);
+
+export const Scorecard: React.FC<ScorecardProps> = ({ devices, windows, onWindowsChange, zoomRange }) => {
+  const [draft, setDraft] = useState({ label: '', start: '', end: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const scores = useMemo(() => {
+    if (windows.length === 0) return [];
+    const rows: DetectionScore[] = [];
+    devices.forEach(device => {
+      if (device.data.length === 0) return;
+      const positions = epochPositions(device.data, device.timeOffset);
+      device.series.forEach(series => rows.push(scoreDetection(device.title, series, positions, windows)));
+    });
+    return rows;
+  }, [devices, windows]);
+
+  const addWindow = (window: AttackWindow) => {
+    onWindowsChange([...windows, window].sort((a, b) => a.startMs - b.startMs));
+  };
+
+  const handleAdd = () => {
+    const startMs = parseTimeInput(draft.start);
+    const endMs = parseTimeInput(draft.end);
+    if (startMs === undefined || endMs === undefined || endMs <= startMs) {
+      setError('Use YYYY-MM-DD HH:MM:SS (UTC) or HH:MM:SS, with stop after start');
+      return;
+    }
+    setError(null);
+    addWindow({ label: draft.label || `Attack ${windows.length + 1}`, startMs, endMs });
+    setDraft({ label: '', start: '', end: '' });
+  };
+
+  const handleLoadPlan = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const loaded = parseTestPlan(await file.text());
+      if (loaded.length === 0) throw new Error('no valid start/stop rows');
+      setError(null);
+      onWindowsChange(loaded);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+    event.target.value = '';
+  };
+
+  const handleExport = () => {
+    const headers = ['Device', 'Indicator', 'Windows', 'Detected', 'Missed', 'TimeToIndication_s', 'TimeToConfirmed_s', 'TimeToRecover_s', 'NotRecovered', 'FalseAlarms', 'FalseAlarm_s'];
+    const fmt = (v?: number) => (v === undefined ? '' : v.toFixed(2));
+    const csvContent = [
+      headers.join(','),
+      ...scores.map(s => [
+        s.device,
+        s.source,
+        s.windows,
+        s.detected,
+        s.windows - s.detected,
+        fmt(s.timeToIndication),
+        fmt(s.timeToConfirmed),
+        fmt(s.timeToRecover),
+        s.notRecovered,
+        s.falseAlarms,
+        s.falseAlarmSeconds.toFixed(1)
+      ].join(','))
+    ].join('\n');
+
+    downloadFile(csvContent, 'detection_scorecard.csv', 'text/csv;charset=utf-8;');
+  };
+
+  return (
+    <section className="bg-slate-800/20 rounded-xl border border-slate-700/50 p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-bold text-slate-200">Detection Scorecard</h2>
+        <div className="flex gap-2">
+          {zoomRange && (
+            <button
+              onClick={() => addWindow({ label: `Attack ${windows.length + 1}`, startMs: zoomRange[0], endMs: zoomRange[1] })}
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1.5 px-3 rounded shadow-sm transition-all"
+              title="Use the current zoom range as an attack window"
+            >
+              Add zoom range
+            </button>
+          )}
+          <div className="relative">
+            <input
+              type="file"
+              accept=".json,.csv,.txt"
+              onChange={handleLoadPlan}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+            />
+            <button className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1.5 px-3 rounded shadow-sm transition-all">
+              Load test plan
+            </button>
+          </div>
+          {scores.length > 0 && (
+            <button
+              onClick={handleExport}
+              className="bg-indigo-600 hover:bg-indigo-500 border border-indigo-400 text-xs text-white py-1.5 px-3 rounded shadow-sm transition-all"
+            >
+              Export
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Ground-truth attack windows */}
+      <div className="flex flex-wrap gap-2 items-center mb-3 text-xs">
+        {windows.map((w, idx) => (
+          <span key={idx} className="bg-red-900/30 border border-red-800/60 text-red-300 rounded px-2 py-1 font-mono flex items-center gap-2">
+            {w.label}: {formatTimelineTime(w.startMs)} → {formatTimelineTime(w.endMs)}
+            <button onClick={() => onWindowsChange(windows.filter((_, k) => k !== idx))} className="text-red-400 hover:text-white" title="Remove">×</button>
+          </span>
+        ))}
+        <input
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder="Label"
+          className="w-24 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200"
+        />
+        <input
+          value={draft.start}
+          onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+          placeholder="Start (UTC)"
+          className="w-40 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono"
+        />
+        <input
+          value={draft.end}
+          onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+          placeholder="Stop (UTC)"
+          className="w-40 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono"
+        />
+        <button onClick={handleAdd} className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 py-0.5 px-2 rounded">
+          Add
+        </button>
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+
+      {windows.length === 0 ? (
+        <div className="text-xs text-slate-500 italic">Enter the attack start/stop times or load a test plan to score the receivers.</div>
+      ) : (
+        <table className="w-full text-xs text-left">
+          <thead className="text-slate-500 border-b border-slate-700">
+            <tr>
+              <th className="px-2 py-1">Device</th>
+              <th className="px-2 py-1">Indicator</th>
+              <th className="px-2 py-1">Detected</th>
+              <th className="px-2 py-1">Time to indication</th>
+              <th className="px-2 py-1">Time to confirmed</th>
+              <th className="px-2 py-1">Time to recover</th>
+              <th className="px-2 py-1">False alarms</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 font-mono text-slate-300">
+            {scores.map((s, idx) => (
+              <tr key={idx}>
+                <td className="px-2 py-1 font-sans">{s.device}</td>
+                <td className="px-2 py-1 font-sans text-slate-400">{s.source}</td>
+                <td className={`px-2 py-1 ${s.windows === 0 ? 'text-slate-600' : (s.detected < s.windows ? 'text-red-400' : 'text-emerald-400')}`}>
+                  {s.windows === 0 ? 'no data' : `${s.detected}/${s.windows}`}
+                </td>
+                <td className="px-2 py-1">{formatSeconds(s.timeToIndication)}</td>
+                <td className="px-2 py-1">{formatSeconds(s.timeToConfirmed)}</td>
+                <td className="px-2 py-1">
+                  {formatSeconds(s.timeToRecover)}
+                  {s.notRecovered > 0 && <span className="text-amber-400"> ({s.notRecovered} not recovered)</span>}
+                </td>
+                <td className={`px-2 py-1 ${s.falseAlarms > 0 ? 'text-amber-400' : ''}`}>
+                  {s.falseAlarms} ({s.falseAlarmSeconds.toFixed(0)} s)
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { GNSSDataPoint, SpectrumBlock } from '../types';
+
+const BIN_COUNT = 256;
+
+// Amplitude color ramp: noise floor (dark) -> strong carrier (white-hot)
+const ampColor = (t: number): [number, number, number] => {
+  const v = Math.max(0, Math.min(1, t));
+  if (v < 0.33) return [0, 0, Math.round(80 + v * 3 * 175)];
+  if (v < 0.66) return [Math.round((v - 0.33) * 3 * 255), 0, 255 - Math.round((v - 0.33) * 3 * 255)];
+  return [255, Math.round((v - 0.66) * 3 * 255), Math.round((v - 0.66) * 3 * 255)];
+};
+
+// Frequency (MHz) of bin k for a MON-SPAN block
+const binFrequency = (block: SpectrumBlock, k: number) =>
+  block.centerMHz + block.spanMHz * (k - BIN_COUNT / 2) / BIN_COUNT;
+
+// --- Waterfall: time on the x axis (aligned with the other charts), frequency on the y axis ---
+interface SpectrumWaterfallProps {
+  data: GNSSDataPoint[]; // Full-resolution epochs (only those with spectra are drawn)
+}
+
+const WATERFALL_HEIGHT = 128;
+
+export const SpectrumWaterfall: React.FC<SpectrumWaterfallProps> = ({ data }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [rfBlock, setRfBlock] = useState(0);
+  const [selected, setSelected] = useState<GNSSDataPoint | null>(null);
+
+  const spectrumEpochs = useMemo(() => data.filter(d => d.spectra && d.spectra.length > 0), [data]);
+  const rfBlocks = useMemo(() => {
+    const ids = new Set<number>();
+    spectrumEpochs.forEach(d => d.spectra!.forEach(s => ids.add(s.rfBlock)));
+    return Array.from(ids).sort();
+  }, [spectrumEpochs]);
+
+  const blockOf = (d: GNSSDataPoint) => d.spectra!.find(s => s.rfBlock === rfBlock);
+  const reference = spectrumEpochs.map(blockOf).find(Boolean);
+
+  const t0 = spectrumEpochs.length > 0 ? spectrumEpochs[0].timeSeconds : 0;
+  const t1 = spectrumEpochs.length > 0 ? spectrumEpochs[spectrumEpochs.length - 1].timeSeconds : 1;
+  const span = Math.max(t1 - t0, 1e-6);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || spectrumEpochs.length === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = Math.max(1, canvas.clientWidth);
+    canvas.width = width;
+    canvas.height = WATERFALL_HEIGHT;
+
+    // Max-hold per pixel column so short carriers survive when many epochs share a column
+    const columns: (Uint8Array | null)[] = new Array(width).fill(null);
+    let minBin = 255;
+    let maxBin = 0;
+    spectrumEpochs.forEach(d => {
+      const block = blockOf(d);
+      if (!block) return;
+      const x = Math.min(width - 1, Math.floor(((d.timeSeconds - t0) / span) * (width - 1)));
+      let col = columns[x];
+      if (!col) {
+        col = new Uint8Array(BIN_COUNT);
+        columns[x] = col;
+      }
+      for (let k = 0; k < BIN_COUNT; k++) {
+        const v = block.bins[k];
+        if (v > col[k]) col[k] = v;
+        if (v < minBin) minBin = v;
+        if (v > maxBin) maxBin = v;
+      }
+    });
+
+    const image = ctx.createImageData(width, WATERFALL_HEIGHT);
+    const range = Math.max(maxBin - minBin, 1);
+    let last: Uint8Array | null = null;
+    for (let x = 0; x < width; x++) {
+      // Hold the previous spectrum across columns without data (lower output rate than width)
+      const col = columns[x] || last;
+      if (!col) continue;
+      last = col;
+      for (let y = 0; y < WATERFALL_HEIGHT; y++) {
+        // Highest frequency at the top
+        const k = Math.floor(((WATERFALL_HEIGHT - 1 - y) / WATERFALL_HEIGHT) * BIN_COUNT);
+        const [r, g, b] = ampColor((col[k] - minBin) / range);
+        const idx = (y * width + x) * 4;
+        image.data[idx] = r;
+        image.data[idx + 1] = g;
+        image.data[idx + 2] = b;
+        image.data[idx + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [spectrumEpochs, rfBlock, t0, span]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const t = t0 + ((e.clientX - rect.left) / rect.width) * span;
+    // Nearest epoch that carries a spectrum for the selected block
+    let best: GNSSDataPoint | null = null;
+    spectrumEpochs.forEach(d => {
+      if (!blockOf(d)) return;
+      if (!best || Math.abs(d.timeSeconds - t) < Math.abs(best.timeSeconds - t)) best = d;
+    });
+    setSelected(best);
+  };
+
+  if (spectrumEpochs.length === 0) {
+    return <div className="text-[10px] text-slate-500 italic p-2">No UBX-MON-SPAN data in this log</div>;
+  }
+
+  const selectedBlock = selected ? blockOf(selected) : undefined;
+  const selectedSeries = selectedBlock
+    ? Array.from(selectedBlock.bins, (v, k) => ({ freq: parseFloat(binFrequency(selectedBlock, k).toFixed(3)), dB: v / 4 }))
+    : [];
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center justify-between mb-1 text-[10px] text-slate-400">
+        <span className="font-mono">
+          {reference ? `${binFrequency(reference, 0).toFixed(1)}–${binFrequency(reference, BIN_COUNT - 1).toFixed(1)} MHz · PGA ${reference.pgaGainDb} dB` : ''}
+        </span>
+        {rfBlocks.length > 1 && (
+          <div className="flex gap-1">
+            {rfBlocks.map(b => (
+              <button
+                key={b}
+                onClick={() => setRfBlock(b)}
+                className={`px-1.5 py-0.5 rounded border ${rfBlock === b ? 'bg-slate-200 border-slate-200 text-slate-900 font-bold' : 'border-slate-600'}`}
+              >
+                RF{b}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        className="w-full cursor-crosshair rounded"
+        style={{ height: WATERFALL_HEIGHT }}
+        title="Spectrum waterfall (click a time to open that epoch's spectrum)"
+      />
+
+      {/* Spectrum popup for the clicked epoch */}
+      {selected && selectedBlock && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center" onClick={() => setSelected(null)}>
+          <div className="bg-slate-800 border border-slate-600 rounded-lg p-4 w-[640px] max-w-[90vw] h-80 flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-2 flex-none">
+              <h3 className="text-slate-300 text-xs font-bold uppercase">
+                Spectrum RF{selectedBlock.rfBlock} @ {selected.timestamp}
+              </h3>
+              <button onClick={() => setSelected(null)} className="text-slate-400 hover:text-white text-xs">Close</button>
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={selectedSeries}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="freq" stroke="#94a3b8" fontSize={10} type="number" domain={['dataMin', 'dataMax']} tickFormatter={(v: number) => v.toFixed(0)} />
+                  <YAxis stroke="#94a3b8" fontSize={10} label={{ value: 'dB', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 10 }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                    labelFormatter={(v: number) => `${v} MHz`}
+                  />
+                  <Line type="linear" dataKey="dB" stroke="#22d3ee" strokeWidth={1} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,523 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DetectionSeries, EpochTable, ReferenceSource } from '../types';
+import { TimelineProps } from './Charts';
+import { epochPositions, hasPosition } from '../services/epochTable';
+import { formatDistance, geoJsonLines, localProjection, niceDistance, parseBounds } from '../services/trajectoryMap';
+
+export interface MapTrack {
+  title: string;
+  color: string; // Casing color identifying the receiver
+  data: EpochTable;
+  timeOffset: number;
+  detections: DetectionSeries[];
+}
+
+interface TrajectoryMapProps {
+  tracks: MapTrack[];
+  timeline: TimelineProps;
+  reference: ReferenceSource | null; // Surveyed point or reference track, drawn under the receivers
+}
+
+type ColorMode = 'spoofing' | 'fix';
+
+interface MapView {
+  east: number; // View center (m, local plane)
+  north: number;
+  metersPerPx: number;
+}
+
+interface RasterBasemap {
+  image: HTMLImageElement;
+  bounds: { south: number; west: number; north: number; east: number };
+}
+
+const MAP_HEIGHT = 480;
+const CLICK_RADIUS_PX = 12;
+
+const SPOOFING_COLORS = ['#34d399', '#fbbf24', '#ef4444']; // None, indicated, confirmed
+const SPOOFING_LABELS = ['No indication', 'Indicated', 'Confirmed'];
+const NO_STATE_COLOR = '#64748b';
+
+// Same palette as the fix status chart (GGA quality)
+const FIX_CLASSES: { quality: number; label: string; color: string }[] = [
+  { quality: 0, label: 'Invalid', color: '#ef4444' },
+  { quality: 1, label: 'SPS', color: '#f59e0b' },
+  { quality: 2, label: 'DGPS', color: '#10b981' },
+  { quality: 4, label: 'RTK Fix', color: '#8b5cf6' },
+  { quality: 5, label: 'RTK Flt', color: '#3b82f6' },
+  { quality: 6, label: 'DR', color: '#94a3b8' }
+];
+const fixColor = (quality?: number) => FIX_CLASSES.find(c => c.quality === (quality ?? 0))?.color ?? NO_STATE_COLOR;
+
+interface PreparedTrack {
+  track: MapTrack;
+  east: Float64Array; // Local-plane position of each fix
+  north: Float64Array;
+  colors: string[];
+  times: Float64Array; // Shared-timeline position (ms), ascending
+}
+
+const isMappable = (data: EpochTable, idx: number) => {
+  const lat = data.floats.lat[idx];
+  const lon = data.floats.lon[idx];
+  return hasPosition(data, idx) && isFinite(lat) && isFinite(lon) && !(lat === 0 && lon === 0);
+};
+
+// Index of the time closest to t in an ascending array
+const nearestIndex = (times: Float64Array, t: number) => {
+  let lo = 0;
+  let hi = times.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && t - times[lo - 1] < times[lo] - t ? lo - 1 : lo;
+};
+
+export const TrajectoryMap: React.FC<TrajectoryMapProps> = ({ tracks, timeline, reference }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>('spoofing');
+  const [view, setView] = useState<MapView | null>(null); // null: fit all tracks
+  const [width, setWidth] = useState(0);
+  const [raster, setRaster] = useState<RasterBasemap | null>(null);
+  const [vectorBasemap, setVectorBasemap] = useState<[number, number][][] | null>(null);
+  const [boundsText, setBoundsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const viewRef = useRef<MapView | null>(null); // View actually drawn (resolves the fit)
+  const dragRef = useRef<{ x: number; y: number; view: MapView; moved: boolean } | null>(null);
+
+  // Local plane centered on the middle of everything that was logged
+  const projection = useMemo(() => {
+    let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+    tracks.forEach(({ data }) => {
+      for (let idx = 0; idx < data.length; idx++) {
+        if (!isMappable(data, idx)) continue;
+        minLat = Math.min(minLat, data.floats.lat[idx]);
+        maxLat = Math.max(maxLat, data.floats.lat[idx]);
+        minLon = Math.min(minLon, data.floats.lon[idx]);
+        maxLon = Math.max(maxLon, data.floats.lon[idx]);
+      }
+    });
+    return minLat <= maxLat ? localProjection((minLat + maxLat) / 2, (minLon + maxLon) / 2) : null;
+  }, [tracks]);
+
+  const prepared = useMemo<PreparedTrack[]>(() => {
+    if (!projection) return [];
+    return tracks.map(track => {
+      const { data } = track;
+      const positions = epochPositions(data, track.timeOffset);
+      const indices: number[] = [];
+      for (let idx = 0; idx < data.length; idx++) if (isMappable(data, idx)) indices.push(idx);
+
+      // Spoofing state: worst level over the receiver's indicators at that epoch
+      const levelAt = (idx: number) => track.detections.reduce((acc, s) => Math.max(acc, s.levels[idx] ?? 0), 0);
+
+      const east = new Float64Array(indices.length);
+      const north = new Float64Array(indices.length);
+      const times = new Float64Array(indices.length);
+      const colors = indices.map((idx, k) => {
+        [east[k], north[k]] = projection.toEN(data.floats.lat[idx], data.floats.lon[idx]);
+        times[k] = positions[idx];
+        if (colorMode === 'fix') return fixColor(data.states.fixQuality[idx]);
+        return track.detections.length > 0 ? SPOOFING_COLORS[Math.min(2, levelAt(idx))] : NO_STATE_COLOR;
+      });
+      return { track, east, north, colors, times };
+    });
+  }, [tracks, projection, colorMode]);
+
+  // Fit: bounding box of all fixes with a margin
+  const fitView = useMemo<MapView>(() => {
+    let minE = Infinity, maxE = -Infinity, minN = Infinity, maxN = -Infinity;
+    prepared.forEach(p => {
+      for (let k = 0; k < p.east.length; k++) {
+        minE = Math.min(minE, p.east[k]);
+        maxE = Math.max(maxE, p.east[k]);
+        minN = Math.min(minN, p.north[k]);
+        maxN = Math.max(maxN, p.north[k]);
+      }
+    });
+    if (!(minE <= maxE) || width === 0) return { east: 0, north: 0, metersPerPx: 1 };
+    const spanE = Math.max(maxE - minE, 10);
+    const spanN = Math.max(maxN - minN, 10);
+    return {
+      east: (minE + maxE) / 2,
+      north: (minN + maxN) / 2,
+      metersPerPx: Math.max(spanE / width, spanN / MAP_HEIGHT) * 1.1
+    };
+  }, [prepared, width]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const update = () => setWidth(canvas.clientWidth);
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, []);
+
+  // New logs start from the fitted view (offset or indicator changes keep the current one)
+  useEffect(() => setView(null), [projection?.lat0, projection?.lon0]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(MAP_HEIGHT * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const v = view ?? fitView;
+    viewRef.current = v;
+    const toPx = (east: number, north: number): [number, number] =>
+      [width / 2 + (east - v.east) / v.metersPerPx, MAP_HEIGHT / 2 - (north - v.north) / v.metersPerPx];
+
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, width, MAP_HEIGHT);
+    if (!projection) return;
+
+    // Basemaps (user supplied, drawn under everything else)
+    if (raster) {
+      const [x0, y0] = toPx(...projection.toEN(raster.bounds.north, raster.bounds.west));
+      const [x1, y1] = toPx(...projection.toEN(raster.bounds.south, raster.bounds.east));
+      ctx.globalAlpha = 0.7;
+      ctx.drawImage(raster.image, x0, y0, x1 - x0, y1 - y0);
+      ctx.globalAlpha = 1;
+    }
+    if (vectorBasemap) {
+      ctx.strokeStyle = '#475569';
+      ctx.fillStyle = '#475569';
+      ctx.lineWidth = 1;
+      vectorBasemap.forEach(line => {
+        const pts = line.map(([lon, lat]) => toPx(...projection.toEN(lat, lon)));
+        if (pts.length === 1) {
+          ctx.beginPath();
+          ctx.arc(pts[0][0], pts[0][1], 2, 0, 2 * Math.PI);
+          ctx.fill();
+          return;
+        }
+        ctx.beginPath();
+        pts.forEach(([x, y], k) => (k === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.stroke();
+      });
+    }
+
+    // Metric grid on the local plane
+    const gridStep = niceDistance(v.metersPerPx * 120);
+    const halfW = (width / 2) * v.metersPerPx;
+    const halfH = (MAP_HEIGHT / 2) * v.metersPerPx;
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let e = Math.ceil((v.east - halfW) / gridStep) * gridStep; e <= v.east + halfW; e += gridStep) {
+      const [x] = toPx(e, 0);
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, MAP_HEIGHT);
+    }
+    for (let n = Math.ceil((v.north - halfH) / gridStep) * gridStep; n <= v.north + halfH; n += gridStep) {
+      const [, y] = toPx(0, n);
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+
+    // Ground truth
+    if (reference) {
+      ctx.strokeStyle = '#f8fafc';
+      ctx.lineWidth = 1.5;
+      if (reference.kind === 'point') {
+        const [x, y] = toPx(...projection.toEN(reference.lat, reference.lon));
+        ctx.beginPath();
+        ctx.moveTo(x - 8, y);
+        ctx.lineTo(x + 8, y);
+        ctx.moveTo(x, y - 8);
+        ctx.lineTo(x, y + 8);
+        ctx.stroke();
+      } else {
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        reference.samples.forEach((sample, k) => {
+          const [x, y] = toPx(...projection.toEN(sample.lat, sample.lon));
+          if (k === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    }
+
+    // Tracks: receiver-colored casing, then the state-colored core.
+    // Points closer than a pixel to the last drawn one are skipped unless the color changes.
+    const drawTrack = (p: PreparedTrack, lineWidth: number, colorOf: (k: number) => string) => {
+      ctx.lineWidth = lineWidth;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      let current = '';
+      let last: [number, number] | null = null;
+      for (let k = 0; k < p.east.length; k++) {
+        const pt = toPx(p.east[k], p.north[k]);
+        const color = colorOf(k);
+        if (color !== current) {
+          if (last) ctx.stroke();
+          ctx.strokeStyle = color;
+          ctx.beginPath();
+          if (last) ctx.moveTo(last[0], last[1]);
+          else ctx.moveTo(pt[0], pt[1]);
+          current = color;
+        } else if (last && k < p.east.length - 1 && Math.abs(pt[0] - last[0]) < 1 && Math.abs(pt[1] - last[1]) < 1) {
+          continue;
+        }
+        ctx.lineTo(pt[0], pt[1]);
+        last = pt;
+      }
+      if (last) ctx.stroke();
+    };
+    prepared.forEach(p => {
+      ctx.globalAlpha = 0.35;
+      drawTrack(p, 6, () => p.track.color);
+      ctx.globalAlpha = 1;
+      drawTrack(p, 2, k => p.colors[k]);
+    });
+
+    // Shared time cursor: one marker per receiver
+    if (timeline.cursorMs !== null) {
+      prepared.forEach(p => {
+        if (p.times.length === 0) return;
+        const k = nearestIndex(p.times, timeline.cursorMs!);
+        const [x, y] = toPx(p.east[k], p.north[k]);
+        ctx.beginPath();
+        ctx.arc(x, y, 6, 0, 2 * Math.PI);
+        ctx.fillStyle = p.track.color;
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#f8fafc';
+        ctx.stroke();
+      });
+    }
+
+    // Scale bar
+    const scaleMeters = niceDistance(v.metersPerPx * 120);
+    const scalePx = scaleMeters / v.metersPerPx;
+    const sx = width - scalePx - 16;
+    const sy = MAP_HEIGHT - 16;
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(sx, sy - 5);
+    ctx.lineTo(sx, sy);
+    ctx.lineTo(sx + scalePx, sy);
+    ctx.lineTo(sx + scalePx, sy - 5);
+    ctx.stroke();
+    ctx.fillStyle = '#e2e8f0';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(formatDistance(scaleMeters), sx + scalePx / 2, sy - 6);
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(`Grid ${formatDistance(gridStep)} · origin ${projection.lat0.toFixed(6)}, ${projection.lon0.toFixed(6)}`, 8, MAP_HEIGHT - 10);
+  }, [prepared, view, fitView, width, projection, raster, vectorBasemap, reference, timeline.cursorMs]);
+
+  // Wheel zoom around the mouse position (non-passive so the page does not scroll)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      const v = viewRef.current;
+      if (!v) return;
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const dx = e.clientX - rect.left - rect.width / 2;
+      const dy = e.clientY - rect.top - rect.height / 2;
+      const factor = Math.exp(e.deltaY * 0.001);
+      const metersPerPx = v.metersPerPx * factor;
+      setView({
+        east: v.east + dx * (v.metersPerPx - metersPerPx),
+        north: v.north - dy * (v.metersPerPx - metersPerPx),
+        metersPerPx
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!viewRef.current) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, view: viewRef.current, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return;
+    drag.moved = true;
+    setView({
+      east: drag.view.east - dx * drag.view.metersPerPx,
+      north: drag.view.north + dy * drag.view.metersPerPx,
+      metersPerPx: drag.view.metersPerPx
+    });
+  };
+
+  // A click (no drag) on a track moves the shared cursor to that fix
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    const v = viewRef.current;
+    if (!drag || drag.moved || !v) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const east = v.east + (e.clientX - rect.left - rect.width / 2) * v.metersPerPx;
+    const north = v.north - (e.clientY - rect.top - rect.height / 2) * v.metersPerPx;
+    let bestDistance = CLICK_RADIUS_PX * v.metersPerPx;
+    let bestTime: number | null = null;
+    for (const p of prepared) {
+      for (let k = 0; k < p.east.length; k++) {
+        const distance = Math.hypot(p.east[k] - east, p.north[k] - north);
+        if (distance <= bestDistance) {
+          bestDistance = distance;
+          bestTime = p.times[k];
+        }
+      }
+    }
+    if (bestTime !== null) timeline.onCursor(bestTime);
+  };
+
+  const handleRasterFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const bounds = parseBounds(boundsText);
+    if (!bounds) {
+      setError('Enter the image bounds first: south, west, north, east (decimal degrees)');
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      setError(null);
+      setRaster({ image, bounds });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      setError(`Could not load ${file.name} as an image`);
+    };
+    image.src = url;
+  };
+
+  const handleGeoJsonFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const lines = geoJsonLines(JSON.parse(await file.text()));
+      if (lines.length === 0) throw new Error('no geometry found');
+      setError(null);
+      setVectorBasemap(lines);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const hasTracks = prepared.some(p => p.east.length > 0);
+  const hasStates = tracks.some(t => t.detections.length > 0);
+  const buttonClass = 'bg-slate-800 hover:bg-slate-700 border border-slate-600 text-xs text-slate-200 py-1 px-3 rounded shadow-sm transition-all';
+
+  return (
+    <section className="bg-slate-800/20 rounded-xl border border-slate-700/50 p-4">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h2 className="text-lg font-bold text-slate-200">Trajectory Map</h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <div className="flex rounded border border-slate-600 overflow-hidden">
+            {(['spoofing', 'fix'] as ColorMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setColorMode(mode)}
+                className={`px-2 py-1 ${colorMode === mode ? 'bg-slate-200 text-slate-900 font-bold' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+              >
+                {mode === 'spoofing' ? 'Spoofing state' : 'Fix quality'}
+              </button>
+            ))}
+          </div>
+          <input
+            value={boundsText}
+            onChange={(e) => setBoundsText(e.target.value)}
+            placeholder="S, W, N, E"
+            className="w-40 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200 font-mono"
+            title="Bounds of the basemap image in decimal degrees"
+          />
+          <div className="relative">
+            <input type="file" accept="image/*" onChange={handleRasterFile} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20" />
+            <button className={buttonClass}>Basemap image</button>
+          </div>
+          <div className="relative">
+            <input type="file" accept=".geojson,.json" onChange={handleGeoJsonFile} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20" />
+            <button className={buttonClass}>Basemap GeoJSON</button>
+          </div>
+          {(raster || vectorBasemap) && (
+            <button onClick={() => { setRaster(null); setVectorBasemap(null); }} className={buttonClass}>Clear basemap</button>
+          )}
+          <button onClick={() => setView(null)} className={buttonClass} title="Fit all tracks">Fit</button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { dragRef.current = null; }}
+          className="w-full rounded border border-slate-700 cursor-grab active:cursor-grabbing"
+          style={{ height: MAP_HEIGHT }}
+          title="Drag to pan, scroll to zoom, click a track to move the time cursor"
+        />
+        {!hasTracks && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500 italic pointer-events-none">
+            No positions in the loaded logs
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mt-2 text-[10px] text-slate-400">
+        {tracks.filter(t => t.data.length > 0).map(t => (
+          <span key={t.title} className="flex items-center gap-1">
+            <span className="inline-block w-4 h-1.5 rounded" style={{ backgroundColor: t.color, opacity: 0.6 }} />
+            {t.title}
+          </span>
+        ))}
+        {reference && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 border-t border-dashed border-slate-100" />
+            Reference
+          </span>
+        )}
+        <span className="text-slate-600">|</span>
+        {colorMode === 'spoofing' ? (
+          <>
+            {SPOOFING_LABELS.map((label, level) => (
+              <span key={label} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: SPOOFING_COLORS[level] }} />
+                {label}
+              </span>
+            ))}
+            {!hasStates && <span className="italic">(no indicators computed yet)</span>}
+          </>
+        ) : (
+          FIX_CLASSES.map(c => (
+            <span key={c.quality} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: c.color }} />
+              {c.label}
+            </span>
+          ))
+        )}
+      </div>
+    </section>
+  );
+};
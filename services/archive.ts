@@ -0,0 +1,169 @@
+// Compressed log input. Rotated logs arrive gzipped and field teams send zip archives of several
+// UBX/SBF parts: both are recognised by their magic bytes, the zip directory is read on the main
+// thread (so the user can pick members) and the parser worker decompresses the data as a stream.
+
+export type LogCompression = 'gzip' | 'zip';
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0: stored, 8: deflate (anything else cannot be read)
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  modifiedMs: number; // DOS date-time of the member, taken as UTC (zip stores the archiver's local time)
+}
+
+// What the worker reads instead of the raw file: one gzip stream, or zip members joined in the order given
+export type LogSource = { compression: 'gzip' } | { compression: 'zip'; entries: ZipEntry[] };
+
+export const detectCompression = async (file: Blob): Promise<LogCompression | null> => {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (magic[0] === 0x1F && magic[1] === 0x8B) return 'gzip';
+  if (magic[0] === 0x50 && magic[1] === 0x4B && magic[2] === 0x03 && magic[3] === 0x04) return 'zip';
+  return null;
+};
+
+export const canDecompress = (entry: ZipEntry) => !entry.encrypted && (entry.method === 0 || entry.method === 8);
+
+// Members joined in name order (rotated parts are usually numbered) or by modification time
+export const sortZipEntries = (entries: ZipEntry[], order: 'name' | 'time') =>
+  [...entries].sort((a, b) =>
+    order === 'time' && a.modifiedMs !== b.modifiedMs
+      ? a.modifiedMs - b.modifiedMs
+      : a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+
+const EOCD_SIGNATURE = 0x06054B50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064B50;
+const ZIP64_EOCD_SIGNATURE = 0x06064B50;
+const CENTRAL_SIGNATURE = 0x02014B50;
+const LOCAL_SIGNATURE = 0x04034B50;
+// End of central directory record plus the longest archive comment
+const EOCD_SEARCH_BYTES = 22 + 0xFFFF;
+
+const readUint64 = (view: DataView, at: number) => view.getUint32(at, true) + view.getUint32(at + 4, true) * 2 ** 32;
+
+const readBytes = async (file: Blob, start: number, end: number) => new DataView(await file.slice(start, end).arrayBuffer());
+
+const dosTimeMs = (time: number, date: number) =>
+  Date.UTC(1980 + (date >> 9), ((date >> 5) & 0x0F) - 1, date & 0x1F, time >> 11, (time >> 5) & 0x3F, (time & 0x1F) * 2);
+
+// Members of a zip archive from its central directory (ZIP64 included); folders are left out
+export const listZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, file.size - EOCD_SEARCH_BYTES);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let k = tail.byteLength - 22; k >= 0; k--) {
+    if (tail.getUint32(k, true) === EOCD_SIGNATURE) {
+      eocd = k;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a readable zip archive (no central directory)');
+
+  let count = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+  if (count === 0xFFFF || directorySize === 0xFFFFFFFF || directoryOffset === 0xFFFFFFFF) {
+    const locatorAt = tailStart + eocd - 20;
+    const locator = locatorAt >= 0 ? await readBytes(file, locatorAt, locatorAt + 20) : null;
+    if (!locator || locator.getUint32(0, true) !== ZIP64_LOCATOR_SIGNATURE) throw new Error('Broken ZIP64 archive');
+    const recordAt = readUint64(locator, 8);
+    const record = await readBytes(file, recordAt, recordAt + 56);
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Broken ZIP64 archive');
+    count = readUint64(record, 32);
+    directorySize = readUint64(record, 40);
+    directoryOffset = readUint64(record, 48);
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let at = 0;
+  for (let k = 0; k < count && at + 46 <= directory.byteLength; k++) {
+    if (directory.getUint32(at, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt zip central directory');
+    const nameLength = directory.getUint16(at + 28, true);
+    const extraLength = directory.getUint16(at + 30, true);
+    const commentLength = directory.getUint16(at + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, at + 46, nameLength));
+    let uncompressedSize = directory.getUint32(at + 24, true);
+    let compressedSize = directory.getUint32(at + 20, true);
+    let localHeaderOffset = directory.getUint32(at + 42, true);
+
+    // ZIP64 extra field: 64-bit values for exactly the fields saturated above, in this order
+    let extra = at + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const size = directory.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (uncompressedSize === 0xFFFFFFFF) { uncompressedSize = readUint64(directory, field); field += 8; }
+        if (compressedSize === 0xFFFFFFFF) { compressedSize = readUint64(directory, field); field += 8; }
+        if (localHeaderOffset === 0xFFFFFFFF) localHeaderOffset = readUint64(directory, field);
+      }
+      extra += 4 + size;
+    }
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        method: directory.getUint16(at + 10, true),
+        encrypted: (directory.getUint16(at + 8, true) & 0x01) !== 0,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        modifiedMs: dosTimeMs(directory.getUint16(at + 12, true), directory.getUint16(at + 14, true))
+      });
+    }
+    at = extraEnd + commentLength;
+  }
+  return entries;
+};
+
+// Passes a stream through unchanged, reporting the size of every chunk read from the file
+const counted = (stream: ReadableStream<Uint8Array>, onRead: (bytes: number) => void) =>
+  stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onRead(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  }));
+
+// Compressed data of one member starts after its local header, whose name and extra field
+// lengths may differ from the central directory's
+const entryStream = async (file: Blob, entry: ZipEntry, onRead: (bytes: number) => void) => {
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt zip member ${entry.name}`);
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const raw = counted(file.slice(dataStart, dataStart + entry.compressedSize).stream(), onRead);
+  return entry.method === 8 ? raw.pipeThrough(new DecompressionStream('deflate-raw')) : raw;
+};
+
+// Decompressed bytes of the source, chunk by chunk. onRead reports compressed bytes consumed,
+// which is what progress and ETA are measured against.
+export async function* decompressedChunks(file: Blob, source: LogSource, onRead: (bytes: number) => void): AsyncGenerator<Uint8Array, void> {
+  const streams = source.compression === 'gzip'
+    ? [async () => counted(file.stream(), onRead).pipeThrough(new DecompressionStream('gzip'))]
+    : source.entries.map(entry => () => {
+      if (!canDecompress(entry)) throw new Error(`Cannot decompress zip member ${entry.name}`);
+      return entryStream(file, entry, onRead);
+    });
+  for (const open of streams) {
+    const reader = (await open()).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+// Compressed bytes the worker will read for the source (the progress total)
+export const compressedSize = (file: Blob, source: LogSource) =>
+  source.compression === 'gzip' ? file.size : source.entries.reduce((sum, entry) => sum + entry.compressedSize, 0);
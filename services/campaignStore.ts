@@ -0,0 +1,110 @@
+import { DeviceType, RunLogFile, TestRun } from '../types';
+
+// Test campaigns persist in the browser's IndexedDB: run metadata in 'runs', the raw receiver
+// files in 'logs' (keyed by run id + device, plus a part number for further files of the same
+// capture) so a run can be reopened and re-parsed without re-uploading.
+
+const DB_NAME = 'gnss-campaigns';
+const DB_VERSION = 1;
+const RUNS = 'runs';
+const LOGS = 'logs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS)) db.createObjectStore(RUNS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(LOGS)) db.createObjectStore(LOGS);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const logKey = (runId: string, device: DeviceType, part = 0) => (part === 0 ? `${runId}:${device}` : `${runId}:${device}:${part}`);
+
+// Stored parts of a device's log (the first file plus any extra ones)
+const partCount = (run: TestRun, device: DeviceType) => {
+  const log = run.logs[device];
+  return log ? 1 + (log.extraFiles?.length ?? 0) : 0;
+};
+
+export const createRunId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Newest run first
+export const listRuns = async (): Promise<TestRun[]> => {
+  const db = await openDb();
+  const runs = await requestResult(db.transaction(RUNS).objectStore(RUNS).getAll() as IDBRequest<TestRun[]>);
+  return runs.sort((a, b) => b.date.localeCompare(a.date) || b.updatedMs - a.updatedMs);
+};
+
+export const saveRun = async (run: TestRun) => {
+  const db = await openDb();
+  const tx = db.transaction(RUNS, 'readwrite');
+  tx.objectStore(RUNS).put(run);
+  await transactionDone(tx);
+};
+
+// Stores (or replaces) the device's raw files and links them to the run in one transaction
+export const saveRunLog = async (
+  run: TestRun,
+  device: DeviceType,
+  files: { file: Blob; fileName: string; entries: string[] | null }[]
+) => {
+  const db = await openDb();
+  const tx = db.transaction([RUNS, LOGS], 'readwrite');
+  const [first, ...extra] = files.map((f): RunLogFile => ({ fileName: f.fileName, size: f.file.size, ...(f.entries ? { entries: f.entries } : {}) }));
+  const updated: TestRun = {
+    ...run,
+    logs: {
+      ...run.logs,
+      [device]: { ...first, timeOffset: run.logs[device]?.timeOffset ?? 0, ...(extra.length > 0 ? { extraFiles: extra } : {}) }
+    },
+    updatedMs: Date.now()
+  };
+  files.forEach((f, part) => tx.objectStore(LOGS).put(f.file, logKey(run.id, device, part)));
+  for (let part = files.length; part < partCount(run, device); part++) tx.objectStore(LOGS).delete(logKey(run.id, device, part));
+  tx.objectStore(RUNS).put(updated);
+  await transactionDone(tx);
+  return updated;
+};
+
+export const loadRunLog = async (runId: string, device: DeviceType, part = 0): Promise<Blob | undefined> => {
+  const db = await openDb();
+  return requestResult(db.transaction(LOGS).objectStore(LOGS).get(logKey(runId, device, part)) as IDBRequest<Blob | undefined>);
+};
+
+export const deleteRun = async (run: TestRun) => {
+  const db = await openDb();
+  const tx = db.transaction([RUNS, LOGS], 'readwrite');
+  tx.objectStore(RUNS).delete(run.id);
+  (Object.keys(run.logs) as DeviceType[]).forEach(device => {
+    for (let part = 0; part < partCount(run, device); part++) tx.objectStore(LOGS).delete(logKey(run.id, device, part));
+  });
+  await transactionDone(tx);
+};
@@ -0,0 +1,136 @@
+import { Cn0CorrelationEpoch, EpochTable } from '../types';
+
+// A spoofer transmits every satellite from one antenna, so their C/N0 values rise and fall together.
+// In a real sky each satellite varies on its own (elevation, multipath, body masking).
+
+export interface Cn0CorrelationConfig {
+  windowSeconds: number; // Sliding window for the pairwise correlation
+  minSamples: number; // Common samples a pair needs inside the window
+  minSatellites: number; // Satellites needed for spread / distortion at an epoch
+  baselineSeconds: number; // Start of the log used as the power baseline
+  correlationThreshold: number;
+  spreadThreshold: number; // dB
+  distortionThreshold: number; // dB
+}
+
+export const DEFAULT_CN0_CORRELATION_CONFIG: Cn0CorrelationConfig = {
+  windowSeconds: 30,
+  minSamples: 10,
+  minSatellites: 4,
+  baselineSeconds: 60,
+  correlationThreshold: 0.7,
+  spreadThreshold: 3,
+  distortionThreshold: 3
+};
+
+export const CN0_ALERT_LABELS = ['None', 'Correlated', 'Correlated + uniform', 'Single source'];
+
+interface PairSums {
+  n: number;
+  sx: number;
+  sy: number;
+  sxx: number;
+  syy: number;
+  sxy: number;
+}
+
+// Tracked satellites with a C/N0 at this epoch, in stable PRN order
+const epochCn0 = (data: EpochTable, idx: number) => {
+  const sats = data.satellites;
+  const result: { prn: string; cn0: number }[] = [];
+  for (let row = sats.offsets[idx]; row < sats.offsets[idx + 1]; row++) {
+    if (sats.snr[row] > 0) result.push({ prn: sats.ids[sats.id[row]], cn0: sats.snr[row] });
+  }
+  return result.sort((a, b) => (a.prn < b.prn ? -1 : a.prn > b.prn ? 1 : 0));
+};
+
+const stdDev = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+};
+
+// Returns one Cn0CorrelationEpoch per input epoch (same index).
+// Pair sums are updated incrementally as epochs enter and leave the window.
+export const analyzeCn0Correlation = (
+  data: EpochTable,
+  config: Cn0CorrelationConfig = DEFAULT_CN0_CORRELATION_CONFIG
+): Cn0CorrelationEpoch[] => {
+  const perEpoch = Array.from({ length: data.length }, (_, idx) => epochCn0(data, idx));
+  const time = data.timeSeconds;
+  const pairs = new Map<string, PairSums>();
+
+  const applyEpoch = (idx: number, sign: 1 | -1) => {
+    const sats = perEpoch[idx];
+    for (let a = 0; a < sats.length; a++) {
+      for (let b = a + 1; b < sats.length; b++) {
+        const key = `${sats[a].prn}|${sats[b].prn}`;
+        let p = pairs.get(key);
+        if (!p) {
+          p = { n: 0, sx: 0, sy: 0, sxx: 0, syy: 0, sxy: 0 };
+          pairs.set(key, p);
+        }
+        const x = sats[a].cn0;
+        const y = sats[b].cn0;
+        p.n += sign;
+        p.sx += sign * x;
+        p.sy += sign * y;
+        p.sxx += sign * x * x;
+        p.syy += sign * y * y;
+        p.sxy += sign * x * y;
+        if (p.n === 0) pairs.delete(key);
+      }
+    }
+  };
+
+  // Power baseline: mean C/N0 over the first baselineSeconds of usable epochs
+  let baseline: number | undefined;
+  const firstUsable = perEpoch.findIndex(s => s.length >= config.minSatellites);
+  if (firstUsable >= 0) {
+    const t0 = time[firstUsable];
+    const values: number[] = [];
+    perEpoch.forEach((sats, idx) => {
+      if (sats.length < config.minSatellites || time[idx] - t0 > config.baselineSeconds) return;
+      values.push(sats.reduce((acc, s) => acc + s.cn0, 0) / sats.length);
+    });
+    baseline = values.reduce((a, b) => a + b, 0) / values.length;
+  }
+
+  let tail = 0;
+  return perEpoch.map((sats, idx) => {
+    applyEpoch(idx, 1);
+    while (tail < idx && time[idx] - time[tail] > config.windowSeconds) {
+      applyEpoch(tail, -1);
+      tail++;
+    }
+
+    let sum = 0;
+    let count = 0;
+    pairs.forEach(p => {
+      if (p.n < config.minSamples) return;
+      const cov = p.n * p.sxy - p.sx * p.sy;
+      const varX = p.n * p.sxx - p.sx * p.sx;
+      const varY = p.n * p.syy - p.sy * p.sy;
+      // Constant C/N0 (common with integer NMEA SNR) carries no correlation information
+      if (varX <= 1e-9 || varY <= 1e-9) return;
+      sum += cov / Math.sqrt(varX * varY);
+      count++;
+    });
+
+    const result: Cn0CorrelationEpoch = { pairs: count, alertLevel: 0 };
+    if (count > 0) result.correlation = sum / count;
+    if (sats.length >= config.minSatellites) {
+      const values = sats.map(s => s.cn0);
+      result.spread = stdDev(values);
+      if (baseline !== undefined) result.powerDistortion = values.reduce((a, b) => a + b, 0) / values.length - baseline;
+    }
+
+    if (result.correlation !== undefined && result.correlation >= config.correlationThreshold) {
+      result.alertLevel = 1;
+      if (result.spread !== undefined && result.spread <= config.spreadThreshold) {
+        result.alertLevel = 2;
+        if (result.powerDistortion !== undefined && result.powerDistortion >= config.distortionThreshold) result.alertLevel = 3;
+      }
+    }
+    return result;
+  });
+};
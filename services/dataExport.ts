@@ -0,0 +1,202 @@
+import { EpochField, EpochTable, GNSSDataPoint, LogAnalysisSummary, ParseIntegrity, SecurityEvent } from '../types';
+import { DAY_MS, formatTimelineTime, formatUtc } from './utcTime';
+import { epochAt, epochPositions, epochTimestamp, epochValue } from './epochTable';
+
+// Tabular (CSV) and full-fidelity (JSON) exports for offline analysis, e.g. in Python notebooks.
+
+export interface ExportColumn {
+  key: string;
+  label: string; // CSV header
+  group: string;
+  value: (data: EpochTable, idx: number) => string | number | boolean | undefined;
+}
+
+const field = (key: EpochField, group: string, label: string = key): ExportColumn =>
+  ({ key, label, group, value: (data, idx) => epochValue(data, key, idx) });
+
+// Every scalar field of GNSSDataPoint. Nested detail (satellites, RF blocks, spectra) is in the JSON bundle.
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'timestamp', label: 'Timestamp', group: 'Time', value: (data, idx) => epochTimestamp(data, idx) },
+  { key: 'timeSeconds', label: 'TimeSec', group: 'Time', value: (data, idx) => data.timeSeconds[idx] },
+  { key: 'utc', label: 'UTC', group: 'Time', value: (data, idx) => {
+    const utcMs = epochValue(data, 'utcMs', idx);
+    return utcMs !== undefined ? new Date(utcMs).toISOString() : undefined;
+  } },
+  field('iTOW', 'Time'),
+  { key: 'utcDate', label: 'utcDate', group: 'Time', value: (data, idx) => {
+    const date = epochValue(data, 'utcDate', idx);
+    return date !== undefined ? formatUtc(date).slice(0, 10) : undefined;
+  } },
+  field('lat', 'Position', 'Lat'),
+  field('lon', 'Position', 'Lon'),
+  field('alt', 'Position', 'Alt'),
+  field('heightEllipsoid', 'Position'),
+  field('fixQuality', 'Fix', 'FixQual'),
+  field('fixType', 'Fix'),
+  { key: 'gnssFixOK', label: 'gnssFixOK', group: 'Fix', value: (data, idx) => {
+    const ok = epochValue(data, 'gnssFixOK', idx);
+    return ok !== undefined ? ok === 1 : undefined;
+  } },
+  field('satellitesUsed', 'Fix', 'Sats'),
+  field('numSV', 'Fix'),
+  field('gpsTrackedCount', 'Fix'),
+  field('pDOP', 'Fix'),
+  field('hAcc', 'Fix'),
+  field('vAcc', 'Fix'),
+  field('velN', 'Velocity'),
+  field('velE', 'Velocity'),
+  field('velD', 'Velocity'),
+  field('groundSpeed', 'Velocity'),
+  field('heading', 'Velocity'),
+  field('sAcc', 'Velocity'),
+  field('avgCn0', 'Signal'),
+  field('gpsL1Cn0', 'Signal', 'L1_CN0'),
+  field('gpsTop3AvgCn0', 'Signal'),
+  field('maxCn0', 'Signal'),
+  field('spoofingState', 'Security', 'SpoofState'),
+  field('secSigState', 'Security', 'SecSigState'),
+  field('osnmaState', 'Security'),
+  field('authenticatedSignals', 'Security'),
+  field('jammingState', 'RF'),
+  field('cwJamInd', 'RF'),
+  field('agcPercent', 'RF'),
+  field('agcGainDb', 'RF'),
+  field('noisePerMS', 'RF')
+];
+
+// The columns of the original CSV export plus the fields it used to drop
+export const DEFAULT_EXPORT_COLUMNS = [
+  'timestamp', 'timeSeconds', 'utc', 'lat', 'lon', 'alt', 'fixQuality', 'fixType', 'gnssFixOK',
+  'satellitesUsed', 'gpsTrackedCount', 'gpsL1Cn0', 'gpsTop3AvgCn0', 'spoofingState', 'secSigState'
+];
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Empty only when the value is missing: 0 and false are data
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null || (typeof value === 'number' && isNaN(value))) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const columnsOf = (keys: string[]) => EXPORT_COLUMNS.filter(c => keys.includes(c.key));
+
+// Indices of the epochs whose shared-timeline position lies inside [from, to] (ms); null range keeps everything
+export const filterByRange = (data: EpochTable, timeOffset: number, range: [number, number] | null) => {
+  const indices: number[] = [];
+  const positions = epochPositions(data, timeOffset);
+  positions.forEach((t, idx) => {
+    if (!range || (t >= range[0] && t <= range[1])) indices.push(idx);
+  });
+  return indices;
+};
+
+export const buildCsv = (data: EpochTable, indices: number[], columnKeys: string[]) => {
+  const columns = columnsOf(columnKeys);
+  return [
+    columns.map(c => c.label).join(','),
+    ...indices.map(idx => columns.map(c => csvCell(c.value(data, idx))).join(','))
+  ].join('\n');
+};
+
+export interface CombinedExportDevice {
+  title: string;
+  data: EpochTable;
+  timeOffset: number;
+}
+
+// One row per time step on the shared (UTC) timeline, one column group per receiver.
+// Epochs are snapped to stepMs; when a receiver has several epochs in one step the last one is used.
+export const buildCombinedCsv = (
+  devices: CombinedExportDevice[],
+  columnKeys: string[],
+  range: [number, number] | null,
+  stepMs: number
+) => {
+  const columns = columnsOf(columnKeys);
+  // Epoch index per receiver, -1 where a receiver has no epoch in the step
+  const rows = new Map<number, number[]>();
+  const used = devices.filter(dev => dev.data.length > 0);
+  used.forEach((dev, deviceIdx) => {
+    epochPositions(dev.data, dev.timeOffset).forEach((t, idx) => {
+      if (range && (t < range[0] || t > range[1])) return;
+      const key = Math.round(t / stepMs) * stepMs;
+      let row = rows.get(key);
+      if (!row) {
+        row = new Array(used.length).fill(-1);
+        rows.set(key, row);
+      }
+      row[deviceIdx] = idx;
+    });
+  });
+
+  const header = ['TimelineMs', 'UTC', ...used.flatMap(dev => columns.map(c => `${dev.title}.${c.label}`))];
+  const lines = Array.from(rows.keys()).sort((a, b) => a - b).map(t => {
+    const row = rows.get(t)!;
+    // Undated logs sit on day 0 of the timeline: their UTC column is a time of day
+    const utc = t >= DAY_MS ? new Date(t).toISOString() : formatTimelineTime(t);
+    return [t, utc, ...row.flatMap((idx, deviceIdx) => columns.map(c => csvCell(idx >= 0 ? c.value(used[deviceIdx].data, idx) : undefined)))].join(',');
+  });
+  return [header.map(csvCell).join(','), ...lines].join('\n');
+};
+
+export interface JsonBundleInput {
+  title: string;
+  deviceType: string;
+  fileName: string | null;
+  timeOffset: number;
+  range: [number, number] | null;
+  data: EpochTable;
+  indices: number[]; // Epochs to include, from filterByRange
+  messageCounts: Record<string, number>;
+  integrity: ParseIntegrity | null;
+  securityEvents: SecurityEvent[];
+  events: unknown[]; // Computed event table (spoofing, kinematics, C/N0 correlation, receiver events)
+  analysis: LogAnalysisSummary;
+  includeDetail: boolean; // Satellites, RF blocks, interference bands and spectra per epoch
+}
+
+const DETAIL_FIELDS: (keyof GNSSDataPoint)[] = ['satellites', 'rfBlocks', 'interferenceBands', 'spectra', 'signalStats', 'constellationStats'];
+
+export const buildJsonBundle = (input: JsonBundleInput) => {
+  const data = input.indices.map(idx => {
+    const point = epochAt(input.data, idx);
+    if (!input.includeDetail) DETAIL_FIELDS.forEach(key => delete point[key]);
+    return point;
+  });
+  const first = data[0];
+  const last = data[data.length - 1];
+  const bundle = {
+    format: 'gnss-forensics-bundle',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    file: {
+      name: input.fileName,
+      device: input.title,
+      deviceType: input.deviceType,
+      timeOffsetSeconds: input.timeOffset,
+      epochs: data.length,
+      firstUtc: first?.utcMs !== undefined ? new Date(first.utcMs).toISOString() : first?.timestamp ?? null,
+      lastUtc: last?.utcMs !== undefined ? new Date(last.utcMs).toISOString() : last?.timestamp ?? null
+    },
+    range: input.range ? { startMs: input.range[0], endMs: input.range[1] } : null,
+    messageCounts: input.messageCounts,
+    integrity: input.integrity,
+    analysis: input.analysis,
+    events: input.events,
+    securityEvents: input.securityEvents,
+    data
+  };
+  // Typed arrays (spectrum bins) serialize as plain number arrays
+  return JSON.stringify(bundle, (_, value) => (ArrayBuffer.isView(value) ? Array.from(value as Uint8Array) : value));
+};
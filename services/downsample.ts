@@ -0,0 +1,125 @@
+// Display decimation for the time-series charts. Every selected index is a real epoch, so a zoomed-out
+// chart shows actual samples (spikes included) and zooming in only adds the epochs in between.
+
+// Largest-Triangle-Three-Buckets over epochs [start, end) of one series (x: timeline position, y: value).
+// Epochs without a value (NaN) are skipped; the first and last valued epochs are always kept.
+export const lttbIndices = (x: ArrayLike<number>, y: ArrayLike<number>, start: number, end: number, threshold: number): number[] => {
+  let first = start;
+  while (first < end && isNaN(y[first])) first++;
+  let last = end - 1;
+  while (last > first && isNaN(y[last])) last--;
+  if (first >= end) return [];
+
+  const selected = [first];
+  if (last - first + 1 <= threshold) {
+    for (let idx = first + 1; idx <= last; idx++) if (!isNaN(y[idx])) selected.push(idx);
+    return selected;
+  }
+  if (threshold <= 2) {
+    selected.push(last);
+    return selected;
+  }
+
+  const span = last - first - 1;
+  const bucketSize = span / (threshold - 2);
+  const bucketStart = (k: number) => first + 1 + Math.floor(k * bucketSize);
+  let a = first;
+  for (let k = 0; k < threshold - 2; k++) {
+    const from = bucketStart(k);
+    const to = Math.min(bucketStart(k + 1), last);
+
+    // Third corner: mean of the next bucket (the last epoch for the final bucket)
+    let avgX = 0;
+    let avgY = 0;
+    let count = 0;
+    const nextTo = k + 1 < threshold - 2 ? Math.min(bucketStart(k + 2), last) : last + 1;
+    for (let idx = to; idx < nextTo; idx++) {
+      if (isNaN(y[idx])) continue;
+      avgX += x[idx];
+      avgY += y[idx];
+      count++;
+    }
+    if (count === 0) {
+      avgX = x[last];
+      avgY = y[last];
+    } else {
+      avgX /= count;
+      avgY /= count;
+    }
+
+    let best = -1;
+    let bestArea = -1;
+    for (let idx = from; idx < to; idx++) {
+      if (isNaN(y[idx])) continue;
+      const area = Math.abs((x[a] - avgX) * (y[idx] - y[a]) - (x[a] - x[idx]) * (avgY - y[a]));
+      if (area > bestArea) {
+        bestArea = area;
+        best = idx;
+      }
+    }
+    if (best >= 0) {
+      selected.push(best);
+      a = best;
+    }
+  }
+  selected.push(last);
+  return selected;
+};
+
+// Epochs where a step series (state, fix quality) changes value, plus the epoch before each change,
+// so every state keeps its true extent. A series that changes all the time (a flag flipping every
+// epoch) would bring back nearly every epoch, so the range is cut into buckets and each bucket keeps
+// only its first change to every value it takes and its last change: no state drops out of a
+// zoomed-out chart, and zooming in (buckets of one epoch) brings back every change. NaN marks
+// epochs without a value.
+export const transitionIndices = (value: (idx: number) => number, start: number, end: number, buckets: number): number[] => {
+  if (end <= start) return [];
+  const selected = [start];
+  const keep = (idx: number) => {
+    if (selected[selected.length - 1] < idx - 1) selected.push(idx - 1);
+    if (selected[selected.length - 1] < idx) selected.push(idx);
+  };
+  const bucketSize = Math.max(1, (end - start) / buckets);
+  let bucket = 0;
+  let bucketEnd = start;
+  let seen = new Set<number>(); // Values changed to in the current bucket
+  let pending = -1; // Last change of the bucket, if not kept already
+  let previous = value(start);
+  for (let idx = start + 1; idx < end; idx++) {
+    if (idx >= bucketEnd) {
+      if (pending >= 0) keep(pending);
+      pending = -1;
+      seen = new Set();
+      while (bucketEnd <= idx) bucketEnd = start + Math.floor(++bucket * bucketSize);
+    }
+    const v = value(idx);
+    if (v === previous || (isNaN(v) && isNaN(previous))) continue;
+    previous = v;
+    if (seen.has(v)) {
+      pending = idx;
+    } else {
+      seen.add(v);
+      keep(idx);
+      pending = -1;
+    }
+  }
+  if (pending >= 0) keep(pending);
+  if (selected[selected.length - 1] !== end - 1) selected.push(end - 1);
+  return selected;
+};
+
+// Evenly spaced epochs of [start, end), at most `count` (rows for charts drawn per time column)
+export const evenIndices = (start: number, end: number, count: number): number[] => {
+  if (end - start <= count) return Array.from({ length: Math.max(0, end - start) }, (_, k) => start + k);
+  return Array.from({ length: count }, (_, k) => start + Math.floor((k * (end - start)) / count));
+};
+
+// Sorted union of index lists
+export const mergeIndices = (lists: number[][]): number[] => {
+  const all = Uint32Array.from(lists.flat()).sort();
+  const merged: number[] = [];
+  all.forEach(idx => {
+    if (merged.length === 0 || merged[merged.length - 1] !== idx) merged.push(idx);
+  });
+  return merged;
+};
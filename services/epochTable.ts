@@ -0,0 +1,539 @@
+import {
+  EpochField,
+  EpochFloatField,
+  EpochStateField,
+  EpochTable,
+  GNSSDataPoint,
+  GnssSystem,
+  GroupStatColumns,
+  InterferenceBand,
+  RfBlockStatus,
+  SatelliteInfo,
+  SignalGroupStats,
+  SpectrumBlock
+} from '../types';
+import { GNSS_SYSTEMS } from './gnssSignals';
+import { formatUtc } from './utcTime';
+
+// Columnar epoch storage (see EpochTable in types.ts): built by the parser worker, read through the
+// accessors below. epochAt/toDataPoints rebuild GNSSDataPoint objects for code that only looks at a few epochs.
+
+export const EPOCH_FLOAT_FIELDS: EpochFloatField[] = [
+  'utcMs', 'lat', 'lon', 'alt', 'satellitesUsed', 'gpsTrackedCount',
+  'avgCn0', 'gpsL1Cn0', 'gpsTop3AvgCn0', 'maxCn0', 'authenticatedSignals',
+  'cwJamInd', 'agcPercent', 'agcGainDb', 'noisePerMS',
+  'iTOW', 'utcDate', 'heightEllipsoid', 'velN', 'velE', 'velD', 'groundSpeed', 'heading',
+  'hAcc', 'vAcc', 'sAcc', 'numSV', 'pDOP'
+];
+
+export const EPOCH_STATE_FIELDS: EpochStateField[] = ['fixQuality', 'spoofingState', 'secSigState', 'osnmaState', 'jammingState', 'fixType', 'gnssFixOK'];
+
+const EPOCH_FIELDS: EpochField[] = [...EPOCH_FLOAT_FIELDS, ...EPOCH_STATE_FIELDS];
+const STATE_FIELD_SET = new Set<EpochField>(EPOCH_STATE_FIELDS);
+const isStateField = (field: EpochField): field is EpochStateField => STATE_FIELD_SET.has(field);
+
+const bitmapBytes = (length: number) => (length + 7) >> 3;
+
+// HH:MM:SS of a UTC second-of-day (same format as the parser's epoch timestamps)
+export const formatClock = (sod: number) => {
+  const hours = Math.floor(sod / 3600);
+  const mins = Math.floor((sod % 3600) / 60);
+  const secs = Math.floor(sod % 60);
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const parseClock = (timestamp: string) => timestamp.split(':').reduce((acc, v) => acc * 60 + parseInt(v), 0);
+
+const nanColumn = (length: number) => new Float64Array(length).fill(NaN);
+
+const newGroupColumns = (length: number): GroupStatColumns => ({
+  avgCn0: nanColumn(length),
+  tracked: nanColumn(length),
+  used: nanColumn(length)
+});
+
+export const emptyEpochTable = (length = 0): EpochTable => {
+  const floats = {} as Record<EpochFloatField, Float64Array>;
+  EPOCH_FLOAT_FIELDS.forEach(field => { floats[field] = nanColumn(length); });
+  const states = {} as Record<EpochStateField, Int8Array>;
+  EPOCH_STATE_FIELDS.forEach(field => { states[field] = new Int8Array(length); });
+  const presence = {} as Record<EpochField, Uint8Array>;
+  EPOCH_FIELDS.forEach(field => { presence[field] = new Uint8Array(bitmapBytes(length)); });
+  return {
+    length,
+    timeSeconds: new Float64Array(length),
+    clockSeconds: new Int32Array(length),
+    floats,
+    states,
+    presence,
+    signals: {},
+    constellations: {},
+    satellites: {
+      offsets: new Uint32Array(length + 1),
+      ids: [],
+      id: new Uint16Array(0),
+      system: new Int8Array(0),
+      elevation: new Float64Array(0),
+      azimuth: new Float64Array(0),
+      snr: new Float64Array(0),
+      used: new Uint8Array(0)
+    },
+    rfBlocks: new Map(),
+    interferenceBands: new Map(),
+    spectra: new Map()
+  };
+};
+
+// --- Accessors ---
+
+export const hasValue = (table: EpochTable, field: EpochField, idx: number) =>
+  (table.presence[field][idx >> 3] & (1 << (idx & 7))) !== 0;
+
+const markPresent = (table: EpochTable, field: EpochField, idx: number) => {
+  table.presence[field][idx >> 3] |= 1 << (idx & 7);
+};
+
+export const epochValue = (table: EpochTable, field: EpochField, idx: number): number | undefined => {
+  if (!hasValue(table, field, idx)) return undefined;
+  return isStateField(field) ? table.states[field][idx] : table.floats[field][idx];
+};
+
+// Writes a value and marks it present (used when merging pieces and dating epochs after parsing)
+export const setEpochValue = (table: EpochTable, field: EpochField, idx: number, value: number) => {
+  if (isStateField(field)) table.states[field][idx] = value;
+  else table.floats[field][idx] = value;
+  markPresent(table, field, idx);
+};
+
+export const epochTimestamp = (table: EpochTable, idx: number) => formatClock(table.clockSeconds[idx]);
+
+// The time fields of an epoch, for formatEpochTime and timeline accessors
+export const epochTime = (table: EpochTable, idx: number) => ({
+  timestamp: epochTimestamp(table, idx),
+  timeSeconds: table.timeSeconds[idx],
+  utcMs: epochValue(table, 'utcMs', idx)
+});
+
+export const hasPosition = (table: EpochTable, idx: number) => hasValue(table, 'lat', idx) && hasValue(table, 'lon', idx);
+
+export const epochSatellites = (table: EpochTable, idx: number): SatelliteInfo[] | undefined => {
+  const sats = table.satellites;
+  const start = sats.offsets[idx];
+  const end = sats.offsets[idx + 1];
+  if (end === start) return undefined;
+  const result: SatelliteInfo[] = [];
+  for (let row = start; row < end; row++) {
+    const sat: SatelliteInfo = {
+      prn: sats.ids[sats.id[row]],
+      elevation: sats.elevation[row],
+      azimuth: sats.azimuth[row],
+      snr: sats.snr[row],
+      system: GNSS_SYSTEMS[sats.system[row]] ?? 'Unknown'
+    };
+    if (sats.used[row]) sat.used = true;
+    result.push(sat);
+  }
+  return result;
+};
+
+// C/N0 of every satellite tracked at an epoch, without building SatelliteInfo objects
+export const epochSatelliteSnrs = (table: EpochTable, idx: number) =>
+  Array.from(table.satellites.snr.subarray(table.satellites.offsets[idx], table.satellites.offsets[idx + 1]));
+
+const groupStatsAt = (columns: GroupStatColumns, idx: number): SignalGroupStats | undefined => {
+  if (isNaN(columns.tracked[idx])) return undefined;
+  const stats: SignalGroupStats = { avgCn0: columns.avgCn0[idx], tracked: columns.tracked[idx] };
+  if (!isNaN(columns.used[idx])) stats.used = columns.used[idx];
+  return stats;
+};
+
+export const epochSignalStats = (table: EpochTable, idx: number) => {
+  const stats: Record<string, SignalGroupStats> = {};
+  Object.entries(table.signals).forEach(([key, columns]) => {
+    const group = groupStatsAt(columns, idx);
+    if (group) stats[key] = group;
+  });
+  return stats;
+};
+
+export const epochConstellationStats = (table: EpochTable, idx: number) => {
+  const stats: Partial<Record<GnssSystem, SignalGroupStats>> = {};
+  (Object.entries(table.constellations) as [GnssSystem, GroupStatColumns][]).forEach(([system, columns]) => {
+    const group = groupStatsAt(columns, idx);
+    if (group) stats[system] = group;
+  });
+  return stats;
+};
+
+// Position of every epoch on the shared multi-device timeline (ms), same rule as timelineAccessor
+export const epochPositions = (table: EpochTable, offsetSeconds = 0) => {
+  const startSod = table.length > 0 ? table.clockSeconds[0] : 0;
+  const utc = table.floats.utcMs;
+  return Float64Array.from(table.timeSeconds, (t, idx) =>
+    (hasValue(table, 'utcMs', idx) ? utc[idx] : (startSod + t) * 1000) + offsetSeconds * 1000);
+};
+
+// Binary search for the epoch closest to a position (positions are monotonic within a log)
+export const findNearestIndex = (positions: ArrayLike<number>, t: number) => {
+  let lo = 0;
+  let hi = positions.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (positions[mid] < t) lo = mid + 1; else hi = mid;
+  }
+  if (lo > 0 && Math.abs(positions[lo - 1] - t) < Math.abs(positions[lo] - t)) lo--;
+  return lo;
+};
+
+// --- GNSSDataPoint adapter ---
+
+export const epochAt = (table: EpochTable, idx: number): GNSSDataPoint => {
+  const point: GNSSDataPoint = { timestamp: epochTimestamp(table, idx), timeSeconds: table.timeSeconds[idx] };
+  const record = point as unknown as Record<string, unknown>;
+  EPOCH_FLOAT_FIELDS.forEach(field => {
+    if (!hasValue(table, field, idx)) return;
+    record[field] = field === 'utcDate' ? formatUtc(table.floats.utcDate[idx]).slice(0, 10) : table.floats[field][idx];
+  });
+  EPOCH_STATE_FIELDS.forEach(field => {
+    if (!hasValue(table, field, idx)) return;
+    record[field] = field === 'gnssFixOK' ? table.states.gnssFixOK[idx] === 1 : table.states[field][idx];
+  });
+  point.signalStats = epochSignalStats(table, idx);
+  point.constellationStats = epochConstellationStats(table, idx);
+  point.satellites = epochSatellites(table, idx);
+  if (table.rfBlocks.has(idx)) point.rfBlocks = table.rfBlocks.get(idx);
+  if (table.interferenceBands.has(idx)) point.interferenceBands = table.interferenceBands.get(idx);
+  if (table.spectra.has(idx)) point.spectra = table.spectra.get(idx);
+  return point;
+};
+
+export const toDataPoints = (table: EpochTable, start = 0, end = table.length) => {
+  const points: GNSSDataPoint[] = [];
+  for (let idx = start; idx < end; idx++) points.push(epochAt(table, idx));
+  return points;
+};
+
+// --- Building and combining ---
+
+// Typed-array buffers of a table, for postMessage's transfer list
+export const epochTableBuffers = (table: EpochTable): ArrayBuffer[] => {
+  const arrays: ArrayBufferView[] = [
+    table.timeSeconds, table.clockSeconds,
+    ...Object.values(table.floats), ...Object.values(table.states), ...Object.values(table.presence),
+    ...Object.values(table.signals).flatMap(c => [c.avgCn0, c.tracked, c.used]),
+    ...Object.values(table.constellations).flatMap(c => (c ? [c.avgCn0, c.tracked, c.used] : [])),
+    table.satellites.offsets, table.satellites.id, table.satellites.system,
+    table.satellites.elevation, table.satellites.azimuth, table.satellites.snr, table.satellites.used
+  ];
+  return arrays.map(a => a.buffer as ArrayBuffer);
+};
+
+// Copies `length` presence bits of one bitmap into another at a bit offset
+const copyBits = (source: Uint8Array, target: Uint8Array, targetStart: number, length: number) => {
+  if ((targetStart & 7) === 0) {
+    target.set(source.subarray(0, bitmapBytes(length)), targetStart >> 3);
+    return;
+  }
+  for (let idx = 0; idx < length; idx++) {
+    if (source[idx >> 3] & (1 << (idx & 7))) {
+      const bit = targetStart + idx;
+      target[bit >> 3] |= 1 << (bit & 7);
+    }
+  }
+};
+
+// Tables joined end to end (epoch batches of a worker, pieces of a split file)
+export const concatEpochTables = (tables: EpochTable[]): EpochTable => {
+  if (tables.length === 1) return tables[0];
+  const total = tables.reduce((acc, t) => acc + t.length, 0);
+  const result = emptyEpochTable(total);
+  const satRows = tables.reduce((acc, t) => acc + t.satellites.id.length, 0);
+  const sats = result.satellites;
+  sats.id = new Uint16Array(satRows);
+  sats.system = new Int8Array(satRows);
+  sats.elevation = new Float64Array(satRows);
+  sats.azimuth = new Float64Array(satRows);
+  sats.snr = new Float64Array(satRows);
+  sats.used = new Uint8Array(satRows);
+  const idIndex = new Map<string, number>();
+
+  let offset = 0;
+  let rowOffset = 0;
+  tables.forEach(table => {
+    result.timeSeconds.set(table.timeSeconds, offset);
+    result.clockSeconds.set(table.clockSeconds, offset);
+    EPOCH_FLOAT_FIELDS.forEach(field => result.floats[field].set(table.floats[field], offset));
+    EPOCH_STATE_FIELDS.forEach(field => result.states[field].set(table.states[field], offset));
+    EPOCH_FIELDS.forEach(field => copyBits(table.presence[field], result.presence[field], offset, table.length));
+
+    Object.entries(table.signals).forEach(([key, columns]) => {
+      const target = result.signals[key] ?? (result.signals[key] = newGroupColumns(total));
+      target.avgCn0.set(columns.avgCn0, offset);
+      target.tracked.set(columns.tracked, offset);
+      target.used.set(columns.used, offset);
+    });
+    (Object.entries(table.constellations) as [GnssSystem, GroupStatColumns][]).forEach(([system, columns]) => {
+      const target = result.constellations[system] ?? (result.constellations[system] = newGroupColumns(total));
+      target.avgCn0.set(columns.avgCn0, offset);
+      target.tracked.set(columns.tracked, offset);
+      target.used.set(columns.used, offset);
+    });
+
+    // Satellite IDs are re-indexed into one dictionary
+    const remap = table.satellites.ids.map(id => {
+      let index = idIndex.get(id);
+      if (index === undefined) {
+        index = sats.ids.length;
+        idIndex.set(id, index);
+        sats.ids.push(id);
+      }
+      return index;
+    });
+    const rows = table.satellites.id.length;
+    for (let row = 0; row < rows; row++) sats.id[rowOffset + row] = remap[table.satellites.id[row]];
+    sats.system.set(table.satellites.system, rowOffset);
+    sats.elevation.set(table.satellites.elevation, rowOffset);
+    sats.azimuth.set(table.satellites.azimuth, rowOffset);
+    sats.snr.set(table.satellites.snr, rowOffset);
+    sats.used.set(table.satellites.used, rowOffset);
+    for (let idx = 0; idx < table.length; idx++) sats.offsets[offset + idx] = rowOffset + table.satellites.offsets[idx];
+
+    table.rfBlocks.forEach((value, idx) => result.rfBlocks.set(offset + idx, value));
+    table.interferenceBands.forEach((value, idx) => result.interferenceBands.set(offset + idx, value));
+    table.spectra.forEach((value, idx) => result.spectra.set(offset + idx, value));
+
+    offset += table.length;
+    rowOffset += rows;
+  });
+  sats.offsets[total] = rowOffset;
+  return result;
+};
+
+// The given epochs of a table, in the given order (merging logs: time order, duplicates left out)
+export const selectEpochs = (table: EpochTable, indices: ArrayLike<number>): EpochTable => {
+  const length = indices.length;
+  const result = emptyEpochTable(length);
+  const source = table.satellites;
+  let satRows = 0;
+  for (let k = 0; k < length; k++) satRows += source.offsets[indices[k] + 1] - source.offsets[indices[k]];
+  const sats = result.satellites;
+  sats.ids = [...source.ids];
+  sats.id = new Uint16Array(satRows);
+  sats.system = new Int8Array(satRows);
+  sats.elevation = new Float64Array(satRows);
+  sats.azimuth = new Float64Array(satRows);
+  sats.snr = new Float64Array(satRows);
+  sats.used = new Uint8Array(satRows);
+
+  const signals = Object.entries(table.signals).map(([key, columns]) => [columns, result.signals[key] = newGroupColumns(length)]);
+  const constellations = (Object.entries(table.constellations) as [GnssSystem, GroupStatColumns][])
+    .map(([system, columns]) => [columns, result.constellations[system] = newGroupColumns(length)]);
+  const groups = [...signals, ...constellations];
+
+  let row = 0;
+  for (let k = 0; k < length; k++) {
+    const idx = indices[k];
+    result.timeSeconds[k] = table.timeSeconds[idx];
+    result.clockSeconds[k] = table.clockSeconds[idx];
+    EPOCH_FLOAT_FIELDS.forEach(field => { result.floats[field][k] = table.floats[field][idx]; });
+    EPOCH_STATE_FIELDS.forEach(field => { result.states[field][k] = table.states[field][idx]; });
+    EPOCH_FIELDS.forEach(field => { if (hasValue(table, field, idx)) markPresent(result, field, k); });
+    groups.forEach(([from, to]) => {
+      to.avgCn0[k] = from.avgCn0[idx];
+      to.tracked[k] = from.tracked[idx];
+      to.used[k] = from.used[idx];
+    });
+
+    sats.offsets[k] = row;
+    for (let r = source.offsets[idx]; r < source.offsets[idx + 1]; r++, row++) {
+      sats.id[row] = source.id[r];
+      sats.system[row] = source.system[r];
+      sats.elevation[row] = source.elevation[r];
+      sats.azimuth[row] = source.azimuth[r];
+      sats.snr[row] = source.snr[r];
+      sats.used[row] = source.used[r];
+    }
+
+    const rf = table.rfBlocks.get(idx);
+    if (rf) result.rfBlocks.set(k, rf);
+    const bands = table.interferenceBands.get(idx);
+    if (bands) result.interferenceBands.set(k, bands);
+    const spectra = table.spectra.get(idx);
+    if (spectra) result.spectra.set(k, spectra);
+  }
+  sats.offsets[length] = row;
+  return result;
+};
+
+const grow = <T extends Float64Array | Int32Array | Int8Array | Uint8Array | Uint16Array | Uint32Array>(
+  array: T,
+  size: number,
+  create: (size: number) => T
+): T => {
+  const next = create(size);
+  next.set(array);
+  return next;
+};
+
+// Appends epochs one at a time (the parser worker) and hands them over as tables in batches
+export class EpochTableBuilder {
+  private table = emptyEpochTable(0);
+  private capacity = 0;
+  private satCapacity = 0;
+  private satIds = new Map<string, number>();
+  length = 0;
+
+  private ensureCapacity() {
+    if (this.length < this.capacity) return;
+    const size = Math.max(1024, this.capacity * 2);
+    const t = this.table;
+    t.timeSeconds = grow(t.timeSeconds, size, n => new Float64Array(n));
+    t.clockSeconds = grow(t.clockSeconds, size, n => new Int32Array(n));
+    EPOCH_FLOAT_FIELDS.forEach(field => { t.floats[field] = grow(t.floats[field], size, nanColumn); });
+    EPOCH_STATE_FIELDS.forEach(field => { t.states[field] = grow(t.states[field], size, n => new Int8Array(n)); });
+    EPOCH_FIELDS.forEach(field => { t.presence[field] = grow(t.presence[field], bitmapBytes(size), n => new Uint8Array(n)); });
+    const growGroup = (columns: GroupStatColumns) => {
+      columns.avgCn0 = grow(columns.avgCn0, size, nanColumn);
+      columns.tracked = grow(columns.tracked, size, nanColumn);
+      columns.used = grow(columns.used, size, nanColumn);
+    };
+    Object.values(t.signals).forEach(growGroup);
+    Object.values(t.constellations).forEach(columns => columns && growGroup(columns));
+    t.satellites.offsets = grow(t.satellites.offsets, size + 1, n => new Uint32Array(n));
+    this.capacity = size;
+  }
+
+  private ensureSatCapacity(rows: number) {
+    if (rows <= this.satCapacity) return;
+    const size = Math.max(rows, 4096, this.satCapacity * 2);
+    const sats = this.table.satellites;
+    sats.id = grow(sats.id, size, n => new Uint16Array(n));
+    sats.system = grow(sats.system, size, n => new Int8Array(n));
+    sats.elevation = grow(sats.elevation, size, n => new Float64Array(n));
+    sats.azimuth = grow(sats.azimuth, size, n => new Float64Array(n));
+    sats.snr = grow(sats.snr, size, n => new Float64Array(n));
+    sats.used = grow(sats.used, size, n => new Uint8Array(n));
+    this.satCapacity = size;
+  }
+
+  private setGroup(group: GroupStatColumns, stats: SignalGroupStats) {
+    group.avgCn0[this.length] = stats.avgCn0;
+    group.tracked[this.length] = stats.tracked;
+    if (stats.used !== undefined) group.used[this.length] = stats.used;
+  }
+
+  push(point: GNSSDataPoint) {
+    this.ensureCapacity();
+    const t = this.table;
+    const idx = this.length;
+    t.timeSeconds[idx] = point.timeSeconds;
+    t.clockSeconds[idx] = point.timestamp ? parseClock(point.timestamp) : 0;
+    const record = point as unknown as Record<string, unknown>;
+
+    EPOCH_FLOAT_FIELDS.forEach(field => {
+      const value = record[field];
+      if (value === undefined) return;
+      t.floats[field][idx] = field === 'utcDate' ? Date.parse(`${value}T00:00:00Z`) : value as number;
+      markPresent(t, field, idx);
+    });
+    // NaN states (unparsable NMEA fields, or state a later piece of a split file cannot know) stay absent
+    EPOCH_STATE_FIELDS.forEach(field => {
+      const value = record[field];
+      if (value === undefined || (typeof value === 'number' && isNaN(value))) return;
+      t.states[field][idx] = typeof value === 'boolean' ? (value ? 1 : 0) : value as number;
+      markPresent(t, field, idx);
+    });
+
+    if (point.signalStats) {
+      Object.entries(point.signalStats).forEach(([key, stats]) => {
+        const group = t.signals[key] ?? (t.signals[key] = newGroupColumns(this.capacity));
+        this.setGroup(group, stats);
+      });
+    }
+    if (point.constellationStats) {
+      (Object.entries(point.constellationStats) as [GnssSystem, SignalGroupStats][]).forEach(([system, stats]) => {
+        const group = t.constellations[system] ?? (t.constellations[system] = newGroupColumns(this.capacity));
+        this.setGroup(group, stats);
+      });
+    }
+
+    const sats = point.satellites ?? [];
+    const firstRow = t.satellites.offsets[idx];
+    this.ensureSatCapacity(firstRow + sats.length);
+    sats.forEach((sat, k) => {
+      const row = firstRow + k;
+      let id = this.satIds.get(sat.prn);
+      if (id === undefined) {
+        id = t.satellites.ids.length;
+        this.satIds.set(sat.prn, id);
+        t.satellites.ids.push(sat.prn);
+      }
+      t.satellites.id[row] = id;
+      t.satellites.system[row] = GNSS_SYSTEMS.indexOf(sat.system);
+      t.satellites.elevation[row] = sat.elevation;
+      t.satellites.azimuth[row] = sat.azimuth;
+      t.satellites.snr[row] = sat.snr;
+      t.satellites.used[row] = sat.used ? 1 : 0;
+    });
+    t.satellites.offsets[idx + 1] = firstRow + sats.length;
+
+    if (point.rfBlocks) t.rfBlocks.set(idx, point.rfBlocks);
+    if (point.interferenceBands) t.interferenceBands.set(idx, point.interferenceBands);
+    if (point.spectra) t.spectra.set(idx, point.spectra);
+    this.length++;
+  }
+
+  // The epochs pushed since the last call, as a compact table; the builder starts over
+  take(): EpochTable {
+    const t = this.table;
+    const n = this.length;
+    const rows = t.satellites.offsets[n];
+    const trimGroup = (columns: GroupStatColumns): GroupStatColumns => ({
+      avgCn0: columns.avgCn0.slice(0, n),
+      tracked: columns.tracked.slice(0, n),
+      used: columns.used.slice(0, n)
+    });
+    const floats = {} as Record<EpochFloatField, Float64Array>;
+    EPOCH_FLOAT_FIELDS.forEach(field => { floats[field] = t.floats[field].slice(0, n); });
+    const states = {} as Record<EpochStateField, Int8Array>;
+    EPOCH_STATE_FIELDS.forEach(field => { states[field] = t.states[field].slice(0, n); });
+    const presence = {} as Record<EpochField, Uint8Array>;
+    EPOCH_FIELDS.forEach(field => { presence[field] = t.presence[field].slice(0, bitmapBytes(n)); });
+    const signals: Record<string, GroupStatColumns> = {};
+    Object.entries(t.signals).forEach(([key, columns]) => { signals[key] = trimGroup(columns); });
+    const constellations: Partial<Record<GnssSystem, GroupStatColumns>> = {};
+    (Object.entries(t.constellations) as [GnssSystem, GroupStatColumns][]).forEach(([system, columns]) => {
+      constellations[system] = trimGroup(columns);
+    });
+
+    const result: EpochTable = {
+      length: n,
+      timeSeconds: t.timeSeconds.slice(0, n),
+      clockSeconds: t.clockSeconds.slice(0, n),
+      floats,
+      states,
+      presence,
+      signals,
+      constellations,
+      satellites: {
+        offsets: t.satellites.offsets.slice(0, n + 1),
+        ids: t.satellites.ids,
+        id: t.satellites.id.slice(0, rows),
+        system: t.satellites.system.slice(0, rows),
+        elevation: t.satellites.elevation.slice(0, rows),
+        azimuth: t.satellites.azimuth.slice(0, rows),
+        snr: t.satellites.snr.slice(0, rows),
+        used: t.satellites.used.slice(0, rows)
+      },
+      rfBlocks: t.rfBlocks,
+      interferenceBands: t.interferenceBands,
+      spectra: t.spectra
+    };
+    this.table = emptyEpochTable(0);
+    this.capacity = 0;
+    this.satCapacity = 0;
+    this.satIds = new Map();
+    this.length = 0;
+    return result;
+  }
+}
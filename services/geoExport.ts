@@ -0,0 +1,228 @@
+import { AnalysisEvent, EpochTable } from '../types';
+import { epochTimestamp, epochValue, hasPosition, hasValue } from './epochTable';
+
+// GIS exports (GPX, KML, GeoJSON) of one receiver's full-resolution track, annotated with its
+// spoofing state (worst indicator level per epoch) and the detected events.
+
+export interface GeoExportInput {
+  name: string; // Device / log name
+  data: EpochTable;
+  levels: Uint8Array; // Spoofing state per epoch: 0 none, 1 indicated, 2 confirmed
+  events: AnalysisEvent[];
+}
+
+export const SPOOFING_STATE_LABELS = ['clean', 'indicated', 'confirmed'];
+
+const hasFix = (data: EpochTable, idx: number) =>
+  hasPosition(data, idx) && (!hasValue(data, 'fixQuality', idx) || data.states.fixQuality[idx] > 0) &&
+  !(data.floats.lat[idx] === 0 && data.floats.lon[idx] === 0);
+
+const isoTime = (data: EpochTable, idx: number) => {
+  const utcMs = epochValue(data, 'utcMs', idx);
+  return utcMs !== undefined ? new Date(utcMs).toISOString() : undefined;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface TrackSegment {
+  level: number;
+  indices: number[]; // Epochs with a fix; starts at the previous segment's last point when continuous
+}
+
+// Runs of constant spoofing state. A lost fix ends the line; a state change starts a new,
+// connected segment so the track has no visual gaps.
+const stateSegments = (data: EpochTable, levels: Uint8Array) => {
+  const segments: TrackSegment[] = [];
+  let current: TrackSegment | null = null;
+  for (let idx = 0; idx < data.length; idx++) {
+    if (!hasFix(data, idx)) {
+      current = null;
+      continue;
+    }
+    const level = levels[idx] ?? 0;
+    if (!current || current.level !== level) {
+      const previous: number | undefined = current ? current.indices[current.indices.length - 1] : undefined;
+      current = { level, indices: previous !== undefined ? [previous] : [] };
+      segments.push(current);
+    }
+    current.indices.push(idx);
+  }
+  return segments.filter(s => s.indices.length >= 2);
+};
+
+// Each event placed at the fix closest in time (events are reported between epochs).
+// timeSeconds is monotonic within a log, so a binary search over the fixes is enough.
+const locatedEvents = (input: GeoExportInput) => {
+  const { data } = input;
+  const fixes: number[] = [];
+  for (let idx = 0; idx < data.length; idx++) if (hasFix(data, idx)) fixes.push(idx);
+  const time = (k: number) => data.timeSeconds[fixes[k]];
+  const located: { evt: AnalysisEvent; at: number }[] = [];
+  if (fixes.length === 0) return located;
+  input.events.forEach(evt => {
+    let lo = 0;
+    let hi = fixes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (time(mid) < evt.timeSeconds) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0 && evt.timeSeconds - time(lo - 1) < time(lo) - evt.timeSeconds) lo--;
+    located.push({ evt, at: fixes[lo] });
+  });
+  return located;
+};
+
+// --- GPX 1.1: one track (segments split at fix loss), events as waypoints ---
+export const buildGpx = (input: GeoExportInput) => {
+  const { data } = input;
+  const { lat, lon, alt } = data.floats;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="GNSS Forensics Workbench" xmlns="http://www.topografix.com/GPX/1/1">'
+  ];
+  locatedEvents(input).forEach(({ evt, at }) => {
+    const time = isoTime(data, at);
+    lines.push(`  <wpt lat="${lat[at].toFixed(8)}" lon="${lon[at].toFixed(8)}">`);
+    if (hasValue(data, 'alt', at)) lines.push(`    <ele>${alt[at].toFixed(2)}</ele>`);
+    if (time) lines.push(`    <time>${time}</time>`);
+    lines.push(`    <name>${escapeXml(evt.label)}</name>`);
+    lines.push(`    <desc>${escapeXml(`${evt.source}: ${evt.start} - ${evt.end}`)}</desc>`);
+    lines.push(`    <type>${evt.severity}</type>`);
+    lines.push('  </wpt>');
+  });
+  lines.push('  <trk>', `    <name>${escapeXml(input.name)}</name>`);
+  let open = false;
+  for (let idx = 0; idx < data.length; idx++) {
+    if (!hasFix(data, idx)) {
+      if (open) lines.push('    </trkseg>');
+      open = false;
+      continue;
+    }
+    if (!open) lines.push('    <trkseg>');
+    open = true;
+    const time = isoTime(data, idx);
+    lines.push(
+      `      <trkpt lat="${lat[idx].toFixed(8)}" lon="${lon[idx].toFixed(8)}">` +
+      (hasValue(data, 'alt', idx) ? `<ele>${alt[idx].toFixed(2)}</ele>` : '') +
+      (time ? `<time>${time}</time>` : '') +
+      `<desc>${epochTimestamp(data, idx)} spoofing ${SPOOFING_STATE_LABELS[input.levels[idx] ?? 0]}</desc>` +
+      '</trkpt>'
+    );
+  }
+  if (open) lines.push('    </trkseg>');
+  lines.push('  </trk>', '</gpx>');
+  return lines.join('\n');
+};
+
+// --- KML 2.2: state-styled track segments and event placemarks (Google Earth) ---
+// KML colors are aabbggrr
+const KML_LINE_COLORS = ['ff99d334', 'ff24bffb', 'ff4444ef'];
+const KML_ICON_COLORS: Record<AnalysisEvent['severity'], string> = { alert: 'ff4444ef', warn: 'ff1673f9', info: 'ffb8a394' };
+
+const kmlCoordinate = (data: EpochTable, idx: number) =>
+  `${data.floats.lon[idx].toFixed(8)},${data.floats.lat[idx].toFixed(8)},${(epochValue(data, 'alt', idx) ?? 0).toFixed(2)}`;
+
+const kmlTimeSpan = (data: EpochTable, from: number, to: number) => {
+  const begin = isoTime(data, from);
+  const end = isoTime(data, to);
+  return begin && end ? `<TimeSpan><begin>${begin}</begin><end>${end}</end></TimeSpan>` : '';
+};
+
+export const buildKml = (input: GeoExportInput) => {
+  const { data } = input;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${escapeXml(input.name)}</name>`
+  ];
+  SPOOFING_STATE_LABELS.forEach((label, level) => {
+    lines.push(`  <Style id="track-${label}"><LineStyle><color>${KML_LINE_COLORS[level]}</color><width>3</width></LineStyle></Style>`);
+  });
+  (Object.keys(KML_ICON_COLORS) as AnalysisEvent['severity'][]).forEach(severity => {
+    lines.push(`  <Style id="event-${severity}"><IconStyle><color>${KML_ICON_COLORS[severity]}</color></IconStyle></Style>`);
+  });
+
+  lines.push('  <Folder>', '    <name>Track</name>');
+  stateSegments(data, input.levels).forEach(segment => {
+    const first = segment.indices[0];
+    const last = segment.indices[segment.indices.length - 1];
+    const label = SPOOFING_STATE_LABELS[segment.level];
+    lines.push(
+      '    <Placemark>',
+      `      <name>${escapeXml(`Spoofing ${label}`)}</name>`,
+      `      <description>${escapeXml(`${epochTimestamp(data, first)} - ${epochTimestamp(data, last)}`)}</description>`,
+      `      ${kmlTimeSpan(data, first, last)}`,
+      `      <styleUrl>#track-${label}</styleUrl>`,
+      '      <LineString><tessellate>1</tessellate><altitudeMode>clampToGround</altitudeMode><coordinates>',
+      segment.indices.map(idx => kmlCoordinate(data, idx)).join(' '),
+      '      </coordinates></LineString>',
+      '    </Placemark>'
+    );
+  });
+  lines.push('  </Folder>');
+
+  lines.push('  <Folder>', '    <name>Events</name>');
+  locatedEvents(input).forEach(({ evt, at }) => {
+    const time = isoTime(data, at);
+    lines.push(
+      '    <Placemark>',
+      `      <name>${escapeXml(evt.label)}</name>`,
+      `      <description>${escapeXml(`${evt.source}\n${evt.start} - ${evt.end}`)}</description>`,
+      time ? `      <TimeStamp><when>${time}</when></TimeStamp>` : '',
+      `      <styleUrl>#event-${evt.severity}</styleUrl>`,
+      `      <Point><coordinates>${kmlCoordinate(data, at)}</coordinates></Point>`,
+      '    </Placemark>'
+    );
+  });
+  lines.push('  </Folder>', '</Document>', '</kml>');
+  return lines.filter(line => line.trim() !== '').join('\n');
+};
+
+// --- GeoJSON (RFC 7946): LineString per state segment, Point per event ---
+const geoJsonCoordinate = (data: EpochTable, idx: number) => {
+  const { lat, lon, alt } = data.floats;
+  return hasValue(data, 'alt', idx)
+    ? [+lon[idx].toFixed(8), +lat[idx].toFixed(8), +alt[idx].toFixed(2)]
+    : [+lon[idx].toFixed(8), +lat[idx].toFixed(8)];
+};
+
+export const buildGeoJson = (input: GeoExportInput) => {
+  const { data } = input;
+  const segments = stateSegments(data, input.levels).map(segment => {
+    const first = segment.indices[0];
+    const last = segment.indices[segment.indices.length - 1];
+    return {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: segment.indices.map(idx => geoJsonCoordinate(data, idx)) },
+      properties: {
+        device: input.name,
+        kind: 'track',
+        spoofingLevel: segment.level,
+        spoofingState: SPOOFING_STATE_LABELS[segment.level],
+        start: epochTimestamp(data, first),
+        end: epochTimestamp(data, last),
+        startUtc: isoTime(data, first) ?? null,
+        endUtc: isoTime(data, last) ?? null,
+        epochs: segment.indices.length
+      }
+    };
+  });
+  const events = locatedEvents(input).map(({ evt, at }) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: geoJsonCoordinate(data, at) },
+    properties: {
+      device: input.name,
+      kind: 'event',
+      label: evt.label,
+      source: evt.source,
+      severity: evt.severity,
+      start: evt.start,
+      end: evt.end,
+      utc: isoTime(data, at) ?? null
+    }
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', features: [...segments, ...events] });
+};
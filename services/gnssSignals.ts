@@ -0,0 +1,218 @@
+import { GnssSystem, SignalBand } from '../types';
+
+// Mapping tables from the three log protocols to a common (constellation, band) model.
+// Bands are grouped by carrier: L1 = L1/E1/B1/G1, L2 = L2/G2, L5 = L5/E5a/B2a.
+// Everything else (E5b, B2I, B3I, E6, L6, G3) ends up in 'Other'.
+
+export const GNSS_SYSTEMS: GnssSystem[] = ['GPS', 'GLONASS', 'Galileo', 'BeiDou', 'QZSS', 'SBAS'];
+export const SIGNAL_BANDS: SignalBand[] = ['L1', 'L2', 'L5', 'Other'];
+
+export const signalKey = (system: GnssSystem, band: SignalBand) => `${system}:${band}`;
+
+// --- NMEA ---
+
+// Talker ID of GSV/GSA sentences (GN is resolved per PRN)
+export const nmeaTalkerToSystem = (talker: string): GnssSystem | null => {
+  switch (talker) {
+    case 'GP': return 'GPS';
+    case 'GL': return 'GLONASS';
+    case 'GA': return 'Galileo';
+    case 'GB':
+    case 'BD': return 'BeiDou';
+    case 'GQ':
+    case 'QZ': return 'QZSS';
+    default: return null;
+  }
+};
+
+// NMEA 4.11 GSA system ID field
+export const nmeaSystemIdToSystem = (id: number): GnssSystem | null => {
+  switch (id) {
+    case 1: return 'GPS';
+    case 2: return 'GLONASS';
+    case 3: return 'Galileo';
+    case 4: return 'BeiDou';
+    case 5: return 'QZSS';
+    default: return null;
+  }
+};
+
+// Legacy (NMEA 4.0 and u-blox extended) PRN numbering used with the GN talker
+export const nmeaPrnToSystem = (prn: number): GnssSystem => {
+  if (prn >= 1 && prn <= 32) return 'GPS';
+  if (prn >= 33 && prn <= 64) return 'SBAS';
+  if (prn >= 65 && prn <= 96) return 'GLONASS';
+  if (prn >= 193 && prn <= 200) return 'QZSS';
+  if (prn >= 201 && prn <= 237) return 'BeiDou';
+  if (prn >= 301 && prn <= 336) return 'Galileo';
+  if (prn >= 401 && prn <= 437) return 'BeiDou';
+  return 'Unknown';
+};
+
+// NMEA PRNs in extended ranges map back to the constellation's own satellite number,
+// so GSV, NAV-SIG/NAV-SAT and SBF observations of one satellite share an ID
+export const normalizeNmeaPrn = (system: GnssSystem, prn: number): number => {
+  switch (system) {
+    case 'SBAS': return prn <= 64 ? prn + 87 : prn;
+    case 'GLONASS': return prn >= 65 && prn <= 96 ? prn - 64 : prn;
+    case 'QZSS': return prn >= 193 ? prn - 192 : prn;
+    case 'BeiDou': return prn >= 401 ? prn - 400 : (prn >= 201 ? prn - 200 : prn);
+    case 'Galileo': return prn >= 301 ? prn - 300 : prn;
+    default: return prn;
+  }
+};
+
+const SYSTEM_PREFIX: Record<GnssSystem, string> = {
+  GPS: 'G',
+  GLONASS: 'R',
+  Galileo: 'E',
+  BeiDou: 'C',
+  QZSS: 'J',
+  SBAS: 'S',
+  Unknown: '?'
+};
+
+// RINEX-style satellite ID, e.g. G05, E12, R03
+export const satelliteId = (system: GnssSystem, prn: number) =>
+  `${SYSTEM_PREFIX[system]}${prn.toString().padStart(2, '0')}`;
+
+// NMEA 4.11 GSV signal ID (hex digit after the satellite blocks). Missing = L1 legacy output.
+export const nmeaSignalToBand = (system: GnssSystem, signalId: number): SignalBand => {
+  switch (system) {
+    case 'GPS':
+    case 'QZSS':
+      if (signalId <= 3 || (system === 'QZSS' && signalId === 4)) return 'L1'; // QZSS 4 = L1S
+      if (signalId <= 6) return 'L2';
+      if (signalId <= 8) return 'L5';
+      return 'Other';
+    case 'GLONASS':
+      return signalId <= 2 ? 'L1' : 'L2';
+    case 'Galileo':
+      if (signalId === 1) return 'L5';
+      if (signalId === 0 || signalId === 6 || signalId === 7) return 'L1';
+      return 'Other';
+    case 'BeiDou':
+      if (signalId <= 4) return 'L1';
+      if (signalId === 5) return 'L5';
+      return 'Other';
+    default:
+      return 'L1';
+  }
+};
+
+// --- UBX ---
+
+export const ubxGnssIdToSystem = (gnssId: number): GnssSystem => {
+  switch (gnssId) {
+    case 0: return 'GPS';
+    case 1: return 'SBAS';
+    case 2: return 'Galileo';
+    case 3: return 'BeiDou';
+    case 5: return 'QZSS';
+    case 6: return 'GLONASS';
+    default: return 'Unknown';
+  }
+};
+
+// UBX-NAV-SIG sigId per gnssId (u-blox interface description, "Signal identifiers")
+export const ubxSignalToBand = (gnssId: number, sigId: number): SignalBand => {
+  switch (gnssId) {
+    case 0: // GPS: 0 L1C/A, 3 L2CL, 4 L2CM, 6 L5I, 7 L5Q
+      if (sigId === 0) return 'L1';
+      if (sigId === 3 || sigId === 4) return 'L2';
+      if (sigId === 6 || sigId === 7) return 'L5';
+      return 'Other';
+    case 1: // SBAS: 0 L1C/A
+      return sigId === 0 ? 'L1' : 'Other';
+    case 2: // Galileo: 0/1 E1, 3/4 E5a, 5/6 E5b, 8-10 E6
+      if (sigId <= 1) return 'L1';
+      if (sigId === 3 || sigId === 4) return 'L5';
+      return 'Other';
+    case 3: // BeiDou: 0/1 B1I, 2/3 B2I, 4 B3I, 5/6 B1C, 7/8 B2a
+      if (sigId <= 1 || sigId === 5 || sigId === 6) return 'L1';
+      if (sigId === 7 || sigId === 8) return 'L5';
+      return 'Other';
+    case 5: // QZSS: 0/1 L1, 4/5 L2C, 8/9 L5, 12/13 L1C
+      if (sigId <= 1 || sigId === 12 || sigId === 13) return 'L1';
+      if (sigId === 4 || sigId === 5) return 'L2';
+      if (sigId === 8 || sigId === 9) return 'L5';
+      return 'Other';
+    case 6: // GLONASS: 0 L1OF, 2 L2OF
+      return sigId === 0 ? 'L1' : (sigId === 2 ? 'L2' : 'Other');
+    default:
+      return 'Other';
+  }
+};
+
+// UBX-MON-RF blockId: 0 = L1 path, 1 = L2/L5 path (dual-band receivers)
+export const ubxRfBlockLabel = (blockId: number) => {
+  switch (blockId) {
+    case 0: return 'L1';
+    case 1: return 'L2/L5';
+    default: return `RF${blockId}`;
+  }
+};
+
+// --- SBF ---
+
+// SBF ReceiverStatus AGCState FrontendID code (bits 0-4)
+export const sbfFrontendLabel = (code: number) => {
+  switch (code) {
+    case 0: return 'GPS L1/E1';
+    case 1: return 'GLO L1';
+    case 2: return 'E6';
+    case 3: return 'GPS L2';
+    case 4: return 'GLO L2';
+    case 5: return 'L5/E5a';
+    case 6: return 'E5b/B2I';
+    case 7: return 'E5(a+b)';
+    case 8: return 'GNSS L1';
+    case 9: return 'GNSS L2';
+    case 10: return 'MSS/L-band';
+    case 11: return 'B1';
+    case 12: return 'B3';
+    case 13: return 'S-band';
+    case 14: return 'B3/E6';
+    default: return `FE${code}`;
+  }
+};
+
+// SBF signal type (MeasEpoch Type field bits 0-4, extended via ObsInfo when 31)
+export const sbfSignalType = (sigType: number): { system: GnssSystem; band: SignalBand } => {
+  switch (sigType) {
+    case 0: case 1: case 5: return { system: 'GPS', band: 'L1' };
+    case 2: case 3: return { system: 'GPS', band: 'L2' };
+    case 4: return { system: 'GPS', band: 'L5' };
+    case 6: case 32: case 33: return { system: 'QZSS', band: 'L1' };
+    case 7: return { system: 'QZSS', band: 'L2' };
+    case 26: return { system: 'QZSS', band: 'L5' };
+    case 27: return { system: 'QZSS', band: 'Other' };
+    case 8: case 9: return { system: 'GLONASS', band: 'L1' };
+    case 10: case 11: return { system: 'GLONASS', band: 'L2' };
+    case 12: return { system: 'GLONASS', band: 'Other' };
+    case 17: return { system: 'Galileo', band: 'L1' };
+    case 20: return { system: 'Galileo', band: 'L5' };
+    case 19: case 21: case 22: return { system: 'Galileo', band: 'Other' };
+    case 13: case 28: return { system: 'BeiDou', band: 'L1' };
+    case 14: return { system: 'BeiDou', band: 'L5' };
+    case 29: case 30: case 34: return { system: 'BeiDou', band: 'Other' };
+    case 24: return { system: 'SBAS', band: 'L1' };
+    case 25: return { system: 'SBAS', band: 'L5' };
+    default: return { system: 'Unknown', band: 'Other' };
+  }
+};
+
+// SBF SVID numbering (Septentrio reference guide, "Satellite ID")
+export const sbfSvidToSystem = (svid: number): { system: GnssSystem; prn: number } => {
+  if (svid >= 1 && svid <= 37) return { system: 'GPS', prn: svid };
+  if (svid >= 38 && svid <= 61) return { system: 'GLONASS', prn: svid - 37 };
+  if (svid === 62) return { system: 'GLONASS', prn: 0 };
+  if (svid >= 63 && svid <= 68) return { system: 'GLONASS', prn: svid - 38 };
+  if (svid >= 71 && svid <= 106) return { system: 'Galileo', prn: svid - 70 };
+  if (svid >= 120 && svid <= 140) return { system: 'SBAS', prn: svid };
+  if (svid >= 141 && svid <= 180) return { system: 'BeiDou', prn: svid - 140 };
+  if (svid >= 181 && svid <= 187) return { system: 'QZSS', prn: svid - 180 };
+  if (svid >= 198 && svid <= 215) return { system: 'SBAS', prn: svid - 57 };
+  if (svid >= 223 && svid <= 245) return { system: 'BeiDou', prn: svid - 182 };
+  return { system: 'Unknown', prn: svid };
+};
@@ -0,0 +1,169 @@
+import {
+  EpochTable,
+  KinematicEpoch,
+  KinematicEvent,
+  KinematicFlag,
+  PlatformLimits,
+  PlatformProfile
+} from '../types';
+import { formatEpochTime } from './utcTime';
+import { epochTime, epochValue, hasPosition, hasValue } from './epochTable';
+
+// Physical limits per platform. Anything beyond them between two fixes is not real motion.
+export const PLATFORM_PROFILES: Record<PlatformProfile, PlatformLimits> = {
+  static: { label: 'Static', maxSpeed: 1, maxAccel: 1, maxVerticalRate: 1, maxTurnRate: 360, teleportDistance: 20, driftRadius: 15, speedMismatch: 1 },
+  pedestrian: { label: 'Pedestrian', maxSpeed: 4, maxAccel: 3, maxVerticalRate: 2, maxTurnRate: 180, teleportDistance: 30, speedMismatch: 1.5 },
+  car: { label: 'Car', maxSpeed: 70, maxAccel: 8, maxVerticalRate: 5, maxTurnRate: 60, teleportDistance: 100, speedMismatch: 3 },
+  drone: { label: 'Drone', maxSpeed: 30, maxAccel: 10, maxVerticalRate: 10, maxTurnRate: 180, teleportDistance: 60, speedMismatch: 3 }
+};
+
+const FLAG_INFO: { flag: KinematicFlag; label: string; unit: string; value: (k: KinematicEpoch) => number }[] = [
+  { flag: KinematicFlag.TELEPORT, label: 'Position jump', unit: 'm', value: k => k.stepDistance ?? 0 },
+  { flag: KinematicFlag.SPEED, label: 'Impossible speed', unit: 'm/s', value: k => k.derivedSpeed ?? 0 },
+  { flag: KinematicFlag.ACCEL, label: 'Impossible acceleration', unit: 'm/s²', value: k => Math.abs(k.acceleration ?? 0) },
+  { flag: KinematicFlag.VERTICAL, label: 'Altitude jump', unit: 'm/s', value: k => Math.abs(k.verticalRate ?? 0) },
+  { flag: KinematicFlag.TURN, label: 'Impossible turn', unit: '°/s', value: k => k.turnRate ?? 0 },
+  { flag: KinematicFlag.DRIFT, label: 'Pull-off drift', unit: 'm', value: k => k.anchorDistance ?? 0 },
+  { flag: KinematicFlag.VELOCITY_MISMATCH, label: 'Reported vs derived speed', unit: 'm/s', value: k => Math.abs(k.speedError ?? 0) }
+];
+
+export const kinematicFlagLabel = (flag: KinematicFlag) =>
+  FLAG_INFO.find(f => f.flag === flag)?.label ?? 'Kinematic anomaly';
+
+// Derivatives are taken over at least this baseline so 10 Hz position noise does not look like motion
+const MIN_BASELINE_S = 1;
+// Epochs averaged for the static anchor position
+const ANCHOR_EPOCHS = 30;
+// Below this speed the direction of motion is noise
+const MIN_HEADING_SPEED = 1;
+
+const EARTH_RADIUS = 6378137;
+const DEG = Math.PI / 180;
+
+// Local flat-earth displacement (m) - accurate enough over the short baselines used here
+const enuDelta = (lat1: number, lon1: number, lat2: number, lon2: number) => ({
+  dN: (lat2 - lat1) * DEG * EARTH_RADIUS,
+  dE: (lon2 - lon1) * DEG * EARTH_RADIUS * Math.cos(((lat1 + lat2) / 2) * DEG)
+});
+
+const angleDiff = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const isValidFix = (data: EpochTable, idx: number) =>
+  hasPosition(data, idx) && (!hasValue(data, 'fixQuality', idx) || data.states.fixQuality[idx] > 0);
+
+// Compute implied motion between fixes and flag what the platform cannot physically do.
+// Returns one KinematicEpoch per input epoch (same index) plus merged events.
+export const analyzeKinematics = (data: EpochTable, profile: PlatformProfile) => {
+  const limits = PLATFORM_PROFILES[profile];
+  const epochs: KinematicEpoch[] = Array.from({ length: data.length }, () => ({ flags: 0 }));
+  const { lat, lon, alt } = data.floats;
+  const time = data.timeSeconds;
+  const valid: number[] = [];
+  const headings: (number | undefined)[] = [];
+
+  let anchor: { lat: number; lon: number } | null = null;
+  let anchorSum = { lat: 0, lon: 0, n: 0 };
+  let base = 0; // Position in `valid` of the epoch one baseline back
+
+  for (let idx = 0; idx < data.length; idx++) {
+    if (!isValidFix(data, idx)) continue;
+    const k = epochs[idx];
+    const p = valid.length;
+    valid.push(idx);
+    headings.push(undefined);
+
+    // Static anchor: mean of the first fixes, then distance from it
+    if (limits.driftRadius !== undefined) {
+      if (anchorSum.n < ANCHOR_EPOCHS) {
+        anchorSum = { lat: anchorSum.lat + lat[idx], lon: anchorSum.lon + lon[idx], n: anchorSum.n + 1 };
+        if (anchorSum.n === ANCHOR_EPOCHS) anchor = { lat: anchorSum.lat / anchorSum.n, lon: anchorSum.lon / anchorSum.n };
+      } else if (anchor) {
+        const { dN, dE } = enuDelta(anchor.lat, anchor.lon, lat[idx], lon[idx]);
+        k.anchorDistance = Math.hypot(dN, dE);
+        if (k.anchorDistance > limits.driftRadius) k.flags |= KinematicFlag.DRIFT;
+      }
+    }
+
+    if (p === 0) continue;
+
+    // Single step: a jump that no motion within the limits can explain
+    const prevStep = valid[p - 1];
+    const stepDt = time[idx] - time[prevStep];
+    const step = enuDelta(lat[prevStep], lon[prevStep], lat[idx], lon[idx]);
+    k.stepDistance = Math.hypot(step.dN, step.dE);
+    if (k.stepDistance > limits.teleportDistance && (stepDt <= 0 || k.stepDistance / stepDt > limits.maxSpeed)) {
+      k.flags |= KinematicFlag.TELEPORT;
+    }
+
+    // Baseline derivatives
+    while (base + 1 < p && time[idx] - time[valid[base + 1]] >= MIN_BASELINE_S) base++;
+    const prevIdx = valid[base];
+    const dt = time[idx] - time[prevIdx];
+    if (dt < MIN_BASELINE_S) continue;
+
+    const { dN, dE } = enuDelta(lat[prevIdx], lon[prevIdx], lat[idx], lon[idx]);
+    k.derivedSpeed = Math.hypot(dN, dE) / dt;
+    if (k.derivedSpeed > limits.maxSpeed && !(k.flags & KinematicFlag.TELEPORT)) k.flags |= KinematicFlag.SPEED;
+
+    const prevSpeed = epochs[prevIdx].derivedSpeed;
+    if (prevSpeed !== undefined) {
+      k.acceleration = (k.derivedSpeed - prevSpeed) / dt;
+      // A jump already explains the speed change on both sides of it
+      const nearJump = ((k.flags | epochs[prevIdx].flags) & KinematicFlag.TELEPORT) !== 0;
+      if (Math.abs(k.acceleration) > limits.maxAccel && !nearJump) k.flags |= KinematicFlag.ACCEL;
+    }
+
+    if (hasValue(data, 'alt', idx) && hasValue(data, 'alt', prevIdx)) {
+      k.verticalRate = (alt[idx] - alt[prevIdx]) / dt;
+      if (Math.abs(k.verticalRate) > limits.maxVerticalRate) k.flags |= KinematicFlag.VERTICAL;
+    }
+
+    if (k.derivedSpeed > MIN_HEADING_SPEED) {
+      headings[p] = (Math.atan2(dE, dN) / DEG + 360) % 360;
+      const prevHeading = headings[base];
+      if (prevHeading !== undefined) {
+        k.turnRate = angleDiff(headings[p]!, prevHeading) / dt;
+        if (k.turnRate > limits.maxTurnRate) k.flags |= KinematicFlag.TURN;
+      }
+    }
+
+    // Reported speed (NAV-PVT / RMC / VTG) is Doppler-based; a spoofed position drift rarely matches it
+    const groundSpeed = epochValue(data, 'groundSpeed', idx);
+    if (groundSpeed !== undefined) {
+      k.speedError = groundSpeed - k.derivedSpeed;
+      if (Math.abs(k.speedError) > limits.speedMismatch && !(k.flags & KinematicFlag.TELEPORT)) {
+        k.flags |= KinematicFlag.VELOCITY_MISMATCH;
+      }
+    }
+  }
+
+  // Merge consecutive flagged fixes into events, per flag
+  const events: KinematicEvent[] = [];
+  FLAG_INFO.forEach(info => {
+    let current: KinematicEvent | null = null;
+    valid.forEach(idx => {
+      const k = epochs[idx];
+      const d = epochTime(data, idx);
+      if (k.flags & info.flag) {
+        const value = info.value(k);
+        if (!current) {
+          current = { flag: info.flag, label: info.label, start: formatEpochTime(d), end: formatEpochTime(d), startTime: d.timeSeconds, endTime: d.timeSeconds, peak: value, unit: info.unit };
+        } else {
+          current.end = formatEpochTime(d);
+          current.endTime = d.timeSeconds;
+          current.peak = Math.max(current.peak, value);
+        }
+      } else if (current) {
+        events.push(current);
+        current = null;
+      }
+    });
+    if (current) events.push(current);
+  });
+  events.sort((a, b) => a.startTime - b.startTime);
+
+  return { epochs, events };
+};
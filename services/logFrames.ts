@@ -0,0 +1,54 @@
+// Frame checks shared by the parser worker and the splitter that cuts large logs into pieces
+
+// NMEA: XOR of all characters between '$' and '*'
+export const nmeaChecksumOk = (line: string) => {
+  const star = line.lastIndexOf('*');
+  if (star < 0 || star + 3 > line.length) return false;
+  let sum = 0;
+  for (let k = 1; k < star; k++) sum ^= line.charCodeAt(k);
+  return sum === parseInt(line.slice(star + 1, star + 3), 16);
+};
+
+// UBX: 8-bit Fletcher over class, id, length and payload
+export const ubxChecksumOk = (bytes: Uint8Array, start: number, len: number) => {
+  let ckA = 0;
+  let ckB = 0;
+  const end = start + 6 + len;
+  for (let k = start + 2; k < end; k++) {
+    ckA = (ckA + bytes[k]) & 0xFF;
+    ckB = (ckB + ckA) & 0xFF;
+  }
+  return ckA === bytes[end] && ckB === bytes[end + 1];
+};
+
+// SBF: CRC-16-CCITT (poly 0x1021, init 0) over everything after the CRC field
+export const sbfCrcOk = (bytes: Uint8Array, start: number, length: number) => {
+  let crc = 0;
+  for (let k = start + 4; k < start + length; k++) {
+    crc ^= bytes[k] << 8;
+    for (let b = 0; b < 8; b++) {
+      crc = (crc & 0x8000) ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc === (bytes[start + 2] | (bytes[start + 3] << 8));
+};
+
+// First index in bytes where a complete, valid frame starts: a UBX or SBF frame whose checksum
+// passes, or an NMEA sentence at the start of a line. -1 when the window has none.
+export const findResyncPoint = (bytes: Uint8Array) => {
+  for (let i = 0; i + 1 < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte === 0xB5 && bytes[i + 1] === 0x62 && i + 6 <= bytes.length) {
+      const len = bytes[i + 4] | (bytes[i + 5] << 8);
+      if (i + 8 + len <= bytes.length && ubxChecksumOk(bytes, i, len)) return i;
+    } else if (byte === 0x24 && bytes[i + 1] === 0x40 && i + 8 <= bytes.length) {
+      const length = bytes[i + 6] | (bytes[i + 7] << 8);
+      if (length >= 8 && length % 4 === 0 && i + length <= bytes.length && sbfCrcOk(bytes, i, length)) return i;
+    } else if (byte === 0x24 && i > 0 && bytes[i - 1] === 0x0A) {
+      let end = i + 1;
+      while (end < Math.min(i + 500, bytes.length) && bytes[end] !== 0x0A && bytes[end] !== 0x0D) end++;
+      if (end < bytes.length && nmeaChecksumOk(new TextDecoder().decode(bytes.subarray(i, end)))) return i;
+    }
+  }
+  return -1;
+};
@@ -0,0 +1,223 @@
+import { EpochTable, LogFileSpan, ParseIntegrity, ParseResult, SecurityEvent } from '../types';
+import { concatEpochTables, epochPositions, findNearestIndex, hasValue, selectEpochs, setEpochValue } from './epochTable';
+import { DAY_MS, timelineAccessor } from './utcTime';
+
+// A receiver capture split over several files (hourly rotation, logger restarts) becomes one log:
+// epochs ordered by time, epochs logged twice by overlapping files kept once, counts and
+// integrity summed, and the files listed with their time ranges so gaps between them can be shown.
+
+export interface MergedLog extends ParseResult {
+  files: LogFileSpan[];
+}
+
+// Epochs of two files closer than half the median epoch interval are the same epoch (a second logger
+// on the same receiver stamps it a fraction of a second apart, NMEA and UBX time it differently);
+// a log without intervals to measure only matches identical stamps
+const MIN_DUPLICATE_MS = 1;
+// A pause between files longer than this is a gap in the capture (a couple of missed 1 Hz epochs is not)
+const GAP_MS = 2000;
+// Same limits as the parser applies to a single file
+const MAX_REPORTED_FAILURES = 50;
+const RAW_TEXT_LIMIT = 50000;
+
+const sameEvent = (a: SecurityEvent, b: SecurityEvent) =>
+  a.source === b.source && a.eventType === b.eventType && a.detector === b.detector && a.constellation === b.constellation;
+
+// Failures and archive errors say which file they are in once there is more than one
+const tagIntegrity = (integrity: ParseIntegrity, fileName: string): ParseIntegrity => ({
+  ...integrity,
+  failures: integrity.failures.map(f => ({ fileName, ...f })),
+  archiveError: integrity.archiveError && !integrity.archiveError.startsWith(`${fileName}: `)
+    ? `${fileName}: ${integrity.archiveError}`
+    : integrity.archiveError
+});
+
+const mergeIntegrity = (a: ParseIntegrity, b: ParseIntegrity): ParseIntegrity => ({
+  frames: {
+    NMEA: { good: a.frames.NMEA.good + b.frames.NMEA.good, bad: a.frames.NMEA.bad + b.frames.NMEA.bad },
+    UBX: { good: a.frames.UBX.good + b.frames.UBX.good, bad: a.frames.UBX.bad + b.frames.UBX.bad },
+    SBF: { good: a.frames.SBF.good + b.frames.SBF.good, bad: a.frames.SBF.bad + b.frames.SBF.bad }
+  },
+  failures: [...a.failures, ...b.failures].slice(0, MAX_REPORTED_FAILURES),
+  bytesSkipped: a.bytesSkipped + b.bytesSkipped,
+  totalBytes: a.totalBytes + b.totalBytes,
+  archiveError: a.archiveError ?? b.archiveError
+});
+
+// Half the median interval between consecutive epochs of each file (positions of both, the new file from `split`)
+const duplicateToleranceMs = (positions: Float64Array, split: number) => {
+  const intervals: number[] = [];
+  for (let idx = 1; idx < positions.length; idx++) {
+    const interval = positions[idx] - positions[idx - 1];
+    if (idx !== split && interval > 0) intervals.push(interval);
+  }
+  if (intervals.length === 0) return MIN_DUPLICATE_MS;
+  const sorted = Float64Array.from(intervals).sort();
+  return Math.max(MIN_DUPLICATE_MS, sorted[Math.floor(sorted.length / 2)] / 2);
+};
+
+const isDated = (table: EpochTable) => {
+  for (let idx = 0; idx < table.length; idx++) if (hasValue(table, 'utcMs', idx)) return true;
+  return false;
+};
+
+// Earliest and latest position: a log recorded under a time attack can step back in time
+const timeRange = (positions: Float64Array): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  positions.forEach(position => {
+    if (position < min) min = position;
+    if (position > max) max = position;
+  });
+  return [min, max];
+};
+
+// An undated log sits at its time of day on day 0 of the timeline. Next to a dated one it is moved
+// onto the dated log's day (whole days, so its time of day stays) that puts it closest to the dated
+// epochs; when the dated log covers several days and the time of day falls in more than one of them,
+// the files cannot be placed.
+const anchorDayMs = (dated: Float64Array, undated: Float64Array, fileName: string) => {
+  const [datedStart, datedEnd] = timeRange(dated);
+  const [undatedStart, undatedEnd] = timeRange(undated);
+  const distance = (dayMs: number) =>
+    Math.max(0, datedStart - (dayMs + undatedEnd), dayMs + undatedStart - datedEnd);
+  const candidates: number[] = [];
+  for (let day = Math.floor(datedStart / DAY_MS) - 1; day <= Math.floor(datedEnd / DAY_MS) + 1; day++) candidates.push(day * DAY_MS);
+  if (candidates.filter(dayMs => distance(dayMs) === 0).length > 1) {
+    throw new Error(`${fileName}: a log without date cannot be placed next to one spanning several days (its time of day occurs on more than one of them)`);
+  }
+  return candidates.reduce((best, dayMs) => (distance(dayMs) < distance(best) ? dayMs : best));
+};
+
+// The first file of a device's log, as parsed
+export const singleFileLog = (fileName: string, result: ParseResult): MergedLog => {
+  const [start, end] = timeRange(epochPositions(result.data));
+  return {
+    ...result,
+    files: [{
+      fileName,
+      startMs: result.data.length > 0 ? start : null,
+      endMs: result.data.length > 0 ? end : null,
+      epochs: result.data.length,
+      duplicates: 0,
+      interleaved: 0
+    }]
+  };
+};
+
+// Adds one more file to a device's log. Epochs the loaded data already has are dropped from the new
+// file, and the two epoch sequences are merged in timeline order (loaded data first where they tie),
+// each keeping its own order: time only steps back where a file's own time does (a time spoofing
+// attack), never between files. New epochs that land inside the loaded time range without being
+// duplicates are counted on the file. Each table's time base (timeSeconds, and the start second of
+// an undated log) is carried over so every epoch keeps its position on the shared timeline; an undated
+// side is dated from the other one first. Throws when that placement is ambiguous.
+export const appendLogFile = (log: MergedLog, fileName: string, result: ParseResult): MergedLog => {
+  const added = singleFileLog(fileName, result);
+  const tables: EpochTable[] = [log.data, result.data];
+  const split = log.data.length;
+  const logPositions = epochPositions(log.data);
+  const addedPositions = epochPositions(result.data);
+
+  // Day moved onto of the side without a date (index 0: loaded log, 1: new file), if only one has one
+  let undatedSide = -1;
+  let dayMs = 0;
+  if (split > 0 && result.data.length > 0 && isDated(log.data) !== isDated(result.data)) {
+    undatedSide = isDated(log.data) ? 1 : 0;
+    dayMs = undatedSide === 1
+      ? anchorDayMs(logPositions, addedPositions, fileName)
+      : anchorDayMs(addedPositions, logPositions, log.files[0].fileName);
+  }
+  const sideShift = (side: number) => (side === undatedSide ? dayMs : 0);
+
+  const positions = new Float64Array(split + result.data.length);
+  positions.set(logPositions.map(position => position + sideShift(0)));
+  positions.set(addedPositions.map(position => position + sideShift(1)), split);
+
+  const tolerance = duplicateToleranceMs(positions, split);
+  const loaded = positions.slice(0, split).sort();
+  const isDuplicate = (position: number) =>
+    loaded.length > 0 && Math.abs(loaded[findNearestIndex(loaded, position)] - position) < tolerance;
+
+  const kept: number[] = [];
+  let a = 0;
+  let b = split;
+  while (b < positions.length && isDuplicate(positions[b])) b++;
+  while (a < split || b < positions.length) {
+    if (b >= positions.length || (a < split && positions[a] <= positions[b])) {
+      kept.push(a++);
+    } else {
+      kept.push(b++);
+      while (b < positions.length && isDuplicate(positions[b])) b++;
+    }
+  }
+  const duplicates = positions.length - kept.length;
+  const [loadedStart, loadedEnd] = split > 0 ? [loaded[0], loaded[split - 1]] : [Infinity, -Infinity];
+  const interleaved = kept.filter(idx => idx >= split && positions[idx] > loadedStart && positions[idx] < loadedEnd).length;
+  const joined = concatEpochTables(tables);
+  if (undatedSide >= 0) {
+    const [from, to] = undatedSide === 0 ? [0, split] : [split, joined.length];
+    for (let idx = from; idx < to; idx++) setEpochValue(joined, 'utcMs', idx, positions[idx]);
+  }
+  const data = kept.length === joined.length && kept.every((idx, k) => idx === k) ? joined : selectEpochs(joined, kept);
+
+  // New time base: seconds from the first epoch, which keeps its own timeSeconds. An undated first
+  // epoch places the log by its second-of-day, so its timeSeconds is chosen to keep that position.
+  const origin = kept.length > 0 ? positions[kept[0]] : 0;
+  const originSeconds = data.length === 0
+    ? 0
+    : (hasValue(data, 'utcMs', 0) ? data.timeSeconds[0] : origin / 1000 - data.clockSeconds[0]);
+  const rebase = (position: number) => originSeconds + (position - origin) / 1000;
+  kept.forEach((idx, k) => { data.timeSeconds[k] = rebase(positions[idx]); });
+
+  const logPosition = timelineAccessor(log.data);
+  const addedPosition = timelineAccessor(result.data);
+  const events = [
+    ...log.securityEvents.map(evt => ({ evt, at: logPosition(evt) + sideShift(0), side: 0 })),
+    ...result.securityEvents.map(evt => ({ evt, at: addedPosition(evt) + sideShift(1), side: 1 }))
+  ].sort((a, b) => a.at - b.at);
+  const securityEvents: SecurityEvent[] = [];
+  events.forEach(({ evt, at, side }, k) => {
+    // Overlapping files both report the events of their common stretch
+    for (let j = k - 1; j >= 0 && at - events[j].at < tolerance; j--) {
+      if (events[j].side !== side && sameEvent(events[j].evt, evt)) return;
+    }
+    securityEvents.push(side === undatedSide ? { ...evt, timeSeconds: rebase(at), utcMs: at } : { ...evt, timeSeconds: rebase(at) });
+  });
+
+  const messageCounts = { ...log.messageCounts };
+  Object.entries(result.messageCounts).forEach(([type, count]) => {
+    messageCounts[type] = (messageCounts[type] || 0) + count;
+  });
+
+  const previousIntegrity = log.files.length === 1 ? tagIntegrity(log.integrity, log.files[0].fileName) : log.integrity;
+  return {
+    data,
+    rawText: (log.rawText + result.rawText).slice(0, RAW_TEXT_LIMIT),
+    messageCounts,
+    integrity: mergeIntegrity(previousIntegrity, tagIntegrity(result.integrity, fileName)),
+    securityEvents,
+    files: [...log.files, { ...added.files[0], duplicates, interleaved }].map((file, k) => {
+      const shift = sideShift(k < log.files.length ? 0 : 1);
+      return shift === 0 || file.startMs === null || file.endMs === null
+        ? file
+        : { ...file, startMs: file.startMs + shift, endMs: file.endMs + shift };
+    })
+  };
+};
+
+// Files in time order (files without epochs last)
+export const sortedFiles = (files: LogFileSpan[]) =>
+  [...files].sort((a, b) => (a.startMs === null || b.startMs === null ? (a.startMs === null ? 1 : 0) - (b.startMs === null ? 1 : 0) : a.startMs - b.startMs));
+
+// Stretches between files that no file covers, as [start, end] timeline positions without clock offset
+export const fileGaps = (files: LogFileSpan[]): [number, number][] => {
+  const gaps: [number, number][] = [];
+  let coveredUntil: number | null = null;
+  sortedFiles(files).forEach(file => {
+    if (file.startMs === null || file.endMs === null) return;
+    if (coveredUntil !== null && file.startMs - coveredUntil > GAP_MS) gaps.push([coveredUntil, file.startMs]);
+    coveredUntil = coveredUntil === null ? file.endMs : Math.max(coveredUntil, file.endMs);
+  });
+  return gaps;
+};
@@ -1,33 +1,387 @@
-import { ParseResult } from '../types';
-
-export const parseGNSSLog = async (file: File): Promise<ParseResult> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      // Create a worker instance
-      // Using new URL(..., import.meta.url) is the standard ESM way to load workers
-      const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), {
-        type: 'module'
-      });
+import { EpochStateField, EpochTable, ParseIntegrity, ParseProgress, ParseResult, SecurityEvent } from '../types';
+import { canDecompress, detectCompression, listZipEntries, LogSource, sortZipEntries } from './archive';
+import { concatEpochTables, emptyEpochTable, hasValue, setEpochValue } from './epochTable';
+import { findResyncPoint } from './logFrames';
+import { DAY_MS } from './utcTime';
+
+export interface ParseOptions {
+  // Every so often a progress message also brings the log parsed so far (the epochs from the start
+  // of the file up to where parsing has got), so it can be shown before the parse is done
+  onProgress?: (progress: ParseProgress, partial?: ParseResult) => void;
+  signal?: AbortSignal; // Aborting terminates the workers; the promise rejects with an AbortError
+  entries?: string[]; // Zip members to parse, joined in this order (default: every readable member by name)
+}
+
+export const isParseAborted = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Files are only split when every piece gets at least this much (smaller pieces are not worth a worker)
+const MIN_PIECE_BYTES = 32 * 1024 * 1024;
+// How far past a nominal split point the next valid frame is searched for
+const RESYNC_WINDOW_BYTES = 64 * 1024;
+// Same limits as a single worker applies
+const MAX_REPORTED_FAILURES = 50;
+const RAW_TEXT_LIMIT = 50000;
+// Each partial result is copied, merged and charted in full, so one is only sent once the epochs
+// have grown by this factor since the last (the total work then stays proportional to the log),
+// and at most once per interval
+const PARTIAL_GROWTH = 1.5;
+const PARTIAL_INTERVAL_MS = 1000;
+
+// Epoch state carried from one piece to the next (NaN/undefined: not seen in the piece)
+interface EpochState {
+  secSigState: number;
+  gpsL1Cn0: number;
+  fixType: number;
+  gnssFixOK?: boolean;
+}
+
+interface ParsedPiece extends ParseResult {
+  firstDayMs: number | null; // UTC midnight of the piece's day 0
+  startTime: number | null; // Piece-local continuous second of its first epoch (warm-up included)
+  finalState: EpochState;
+  resolvedGpsL1Cn0: number | null; // NAV-SIG value of the epoch that ended an unknown C/N0
+}
+
+// mergePieces rebases and fills in epochs in place, so partial results are merged from copies
+const copyTables = (tables: EpochTable[]) => concatEpochTables([...tables, emptyEpochTable()]);
+
+const copyPiece = (piece: ParsedPiece): ParsedPiece => ({
+  ...piece,
+  data: copyTables([piece.data]),
+  securityEvents: piece.securityEvents.map(evt => ({ ...evt }))
+});
+
+// push(...batch) would overflow the call stack on large batches
+const append = <T>(target: T[], batch: T[]) => {
+  for (const item of batch) target.push(item);
+};
+
+// Piece boundaries: nominal even splits moved forward to the next frame that validates, so both
+// neighbours agree on where one piece's frames end and the next one's begin
+const splitFile = async (file: File, pieces: number) => {
+  const points = [0];
+  for (let k = 1; k < pieces; k++) {
+    const nominal = Math.floor(file.size * k / pieces);
+    const window = new Uint8Array(await file.slice(nominal, nominal + RESYNC_WINDOW_BYTES).arrayBuffer());
+    const offset = findResyncPoint(window);
+    // No frame in the window (a long stretch of garbage): it stays with the previous piece
+    if (offset >= 0 && nominal + offset > points[points.length - 1]) points.push(nominal + offset);
+  }
+  points.push(file.size);
+  return points;
+};
+
+// The worker streams its range itself (no full-file ArrayBuffer on either side) and hands over
+// epoch tables in batches with each progress message (transferred, not copied), so its own memory stays bounded.
+// onProgress also gets the piece parsed so far, built (as a copy) only when asked for.
+const parsePiece = (
+  file: File,
+  start: number,
+  end: number,
+  onProgress: (progress: ParseProgress, parsedSoFar: () => ParsedPiece) => void,
+  signal: AbortSignal,
+  source: LogSource | null = null
+): Promise<ParsedPiece> => new Promise((resolve, reject) => {
+  // Using new URL(..., import.meta.url) is the standard ESM way to load workers
+  const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), {
+    type: 'module'
+  });
+  const batches: EpochTable[] = [];
+  const securityEvents: SecurityEvent[] = [];
+
+  const handleAbort = () => {
+    worker.terminate();
+    reject(new DOMException('Parse cancelled', 'AbortError'));
+  };
+  signal.addEventListener('abort', handleAbort, { once: true });
+  const cleanup = () => {
+    signal.removeEventListener('abort', handleAbort);
+    worker.terminate();
+  };
+
+  worker.onmessage = (e) => {
+    const message = e.data;
+    if (message.type === 'error') {
+      cleanup();
+      reject(new Error(message.message));
+      return;
+    }
+    batches.push(message.data);
+    append(securityEvents, message.securityEvents);
+    if (message.type === 'progress') {
+      onProgress(message.progress, () => ({
+        data: copyTables(batches),
+        rawText: '',
+        messageCounts: message.messageCounts,
+        integrity: message.integrity,
+        securityEvents: securityEvents.map(evt => ({ ...evt })),
+        firstDayMs: message.firstDayMs,
+        startTime: message.startTime,
+        finalState: { secSigState: NaN, gpsL1Cn0: NaN, fixType: NaN },
+        resolvedGpsL1Cn0: null
+      }));
+      return;
+    }
+    cleanup();
+    resolve({
+      data: concatEpochTables(batches),
+      rawText: message.rawText,
+      messageCounts: message.messageCounts,
+      integrity: message.integrity,
+      securityEvents,
+      firstDayMs: message.firstDayMs,
+      startTime: message.startTime,
+      finalState: message.finalState,
+      resolvedGpsL1Cn0: message.resolvedGpsL1Cn0
+    });
+  };
+
+  worker.onerror = (err) => {
+    console.error("Worker error:", err);
+    cleanup();
+    reject(err);
+  };
+
+  // A File is structured-cloned by reference: the worker reads its range in slices
+  worker.postMessage(source ? { file, source } : { file, start, end });
+});
+
+// Days to add to a continuous second so it follows `previous` on the same scale: a second-of-day
+// more than half a day below the previous one is past midnight, more than half a day above is late
+const unwrapDay = (previous: number, next: number) => {
+  const previousSod = ((previous % 86400) + 86400) % 86400;
+  const nextSod = ((next % 86400) + 86400) % 86400;
+  let day = Math.floor(previous / 86400);
+  if (nextSod > previousSod + 43200) day--;
+  else if (nextSod < previousSod - 43200) day++;
+  return day - Math.floor(next / 86400);
+};
+
+// Join the pieces' epoch streams in file order. Each piece counts time from its own first epoch
+// and days from its own first UTC second-of-day, so both are moved onto the first piece's scale;
+// state a piece could not see (NaN/undefined) is taken from the pieces before it.
+const mergePieces = (pieces: ParsedPiece[], totalBytes: number): ParseResult => {
+  const securityEvents: SecurityEvent[] = [];
+  const messageCounts: Record<string, number> = {};
+  const integrity: ParseIntegrity = {
+    frames: {
+      NMEA: { good: 0, bad: 0 },
+      UBX: { good: 0, bad: 0 },
+      SBF: { good: 0, bad: 0 }
+    },
+    failures: [],
+    bytesSkipped: 0,
+    totalBytes
+  };
+  let rawText = "";
+
+  let state: EpochState = { secSigState: 0, gpsL1Cn0: 0, fixType: 0, gnssFixOK: false };
+  let scaleStart: number | null = null; // Continuous second of the log's first epoch
+  let lastContinuous: number | null = null; // Continuous second of the last epoch merged so far
+  let firstDayMs: number | null = null;
+  const lastSiglogTimes = new Map<string, number>(); // SIGLOG history replayed in a warm-up
 
-      worker.onmessage = (e) => {
-        resolve(e.data);
-        worker.terminate(); // Cleanup after task
-      };
-
-      worker.onerror = (err) => {
-        console.error("Worker error:", err);
-        reject(err);
-        worker.terminate();
-      };
-
-      // Read file as ArrayBuffer to transfer to worker
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Post message with Zero-Copy transfer
-      worker.postMessage({ buffer: arrayBuffer }, [arrayBuffer]);
-      
-    } catch (err) {
-      reject(err);
+  pieces.forEach(piece => {
+    let rebase = 0;
+    if (piece.startTime !== null) {
+      // Whole days that bring the piece's day 0 onto the log's scale, placing its first own epoch
+      // the way the worker unwraps a second-of-day against the previous one
+      const first = piece.startTime + (piece.data.length > 0 ? piece.data.timeSeconds[0] : 0);
+      const shift = lastContinuous === null ? 0 : unwrapDay(lastContinuous, first) * 86400;
+      if (scaleStart === null) scaleStart = piece.startTime;
+      rebase = piece.startTime + shift - scaleStart;
+      if (firstDayMs === null && piece.firstDayMs !== null) firstDayMs = piece.firstDayMs - shift * 1000;
+      if (lastContinuous === null) lastContinuous = piece.startTime + shift;
     }
+
+    // C/N0 is reported one epoch late: the epoch where it became known shows the inherited value, if any
+    const table = piece.data;
+    let resolvingEpoch = -1;
+    if (piece.resolvedGpsL1Cn0 !== null) {
+      for (let idx = 0; idx < table.length; idx++) {
+        if (!hasValue(table, 'gpsL1Cn0', idx)) resolvingEpoch = idx;
+      }
+    }
+
+    const inherited: [EpochStateField, number][] = [
+      ['secSigState', state.secSigState],
+      ['fixType', state.fixType],
+      ['gnssFixOK', state.gnssFixOK ? 1 : 0]
+    ];
+    for (let idx = 0; idx < table.length; idx++) {
+      if (rebase !== 0) table.timeSeconds[idx] += rebase;
+      inherited.forEach(([field, value]) => {
+        if (!hasValue(table, field, idx)) setEpochValue(table, field, idx, value);
+      });
+      if (!hasValue(table, 'gpsL1Cn0', idx)) {
+        setEpochValue(table, 'gpsL1Cn0', idx, state.gpsL1Cn0 || (idx === resolvingEpoch ? piece.resolvedGpsL1Cn0! : state.gpsL1Cn0));
+      }
+    }
+    if (table.length > 0) lastContinuous = scaleStart! + table.timeSeconds[table.length - 1];
+
+    piece.securityEvents.forEach(evt => {
+      if (rebase !== 0) evt.timeSeconds += rebase;
+      if (evt.source === 'UBX-SEC-SIGLOG') {
+        const key = `${evt.detector}|${evt.eventType}`;
+        const last = lastSiglogTimes.get(key);
+        if (last !== undefined && Math.abs(last - evt.timeSeconds) < 1.5) return;
+        lastSiglogTimes.set(key, evt.timeSeconds);
+      }
+      securityEvents.push(evt);
+    });
+
+    const final = piece.finalState;
+    if (piece.integrity.archiveError) integrity.archiveError = piece.integrity.archiveError;
+
+    state = {
+      secSigState: isNaN(final.secSigState) ? state.secSigState : final.secSigState,
+      gpsL1Cn0: isNaN(final.gpsL1Cn0) ? state.gpsL1Cn0 : final.gpsL1Cn0,
+      fixType: isNaN(final.fixType) ? state.fixType : final.fixType,
+      gnssFixOK: final.gnssFixOK ?? state.gnssFixOK
+    };
+
+    Object.entries(piece.messageCounts).forEach(([type, count]) => {
+      messageCounts[type] = (messageCounts[type] || 0) + count;
+    });
+    (Object.keys(integrity.frames) as (keyof ParseIntegrity['frames'])[]).forEach(protocol => {
+      integrity.frames[protocol].good += piece.integrity.frames[protocol].good;
+      integrity.frames[protocol].bad += piece.integrity.frames[protocol].bad;
+    });
+    append(integrity.failures, piece.integrity.failures.slice(0, MAX_REPORTED_FAILURES - integrity.failures.length));
+    integrity.bytesSkipped += piece.integrity.bytesSkipped;
+    piece.rawText.split('\n').forEach(line => {
+      if (line && rawText.length < RAW_TEXT_LIMIT) rawText += line + "\n";
+    });
   });
-};
\ No newline at end of file
+
+  // Epochs from before the log's date was known (RMC/ZDA late in the log, NAV-PVT validDate,
+  // or a later piece) are dated now
+  const data = concatEpochTables(pieces.map(piece => piece.data));
+  if (firstDayMs !== null && scaleStart !== null) {
+    const anchor = firstDayMs;
+    const start = scaleStart;
+    for (let idx = 0; idx < data.length; idx++) {
+      if (!hasValue(data, 'utcMs', idx)) setEpochValue(data, 'utcMs', idx, Math.round(anchor + (start + data.timeSeconds[idx]) * 1000));
+    }
+    securityEvents.forEach(evt => {
+      if (evt.utcMs === undefined) evt.utcMs = Math.round(anchor + (start + evt.timeSeconds) * 1000);
+    });
+  }
+
+  return { data, rawText, messageCounts, integrity, securityEvents };
+};
+
+// gzip and zip input is read by magic bytes; its decompressed bytes cannot be split, so one worker
+// streams the whole source (the zip members chosen, one after another)
+const readLogSource = async (file: File, entries?: string[]): Promise<LogSource | null> => {
+  const compression = await detectCompression(file);
+  if (compression !== 'zip') return compression ? { compression } : null;
+  const members = await listZipEntries(file);
+  const selected = entries
+    ? entries.map(name => members.find(entry => entry.name === name)).filter((entry): entry is NonNullable<typeof entry> => entry !== undefined)
+    : sortZipEntries(members.filter(canDecompress), 'name');
+  if (selected.length === 0) throw new Error('No readable log in the zip archive');
+  return { compression, entries: selected };
+};
+
+// Large logs are split at frame boundaries and parsed by a pool of workers, one piece each;
+// every piece re-parses a short stretch before its start so its epochs match a sequential parse.
+export const parseGNSSLog = async (file: File, options: ParseOptions = {}): Promise<ParseResult> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) throw new DOMException('Parse cancelled', 'AbortError');
+
+  // The partial log is the leading pieces merged: the finished ones, up to and including the first
+  // one still running (later pieces cannot be placed before the ones ahead of them are done)
+  let lastPartial = performance.now();
+  let lastPartialEpochs = 0;
+  const partialResult = (leading: () => ParsedPiece[], leadingEpochs: number, bytesRead: number) => {
+    const now = performance.now();
+    if (now - lastPartial < PARTIAL_INTERVAL_MS || leadingEpochs < lastPartialEpochs * PARTIAL_GROWTH || leadingEpochs === 0) return undefined;
+    lastPartial = now;
+    lastPartialEpochs = leadingEpochs;
+    return mergePieces(leading(), bytesRead);
+  };
+
+  const source = await readLogSource(file, options.entries);
+  if (source) {
+    if (signal?.aborted) throw new DOMException('Parse cancelled', 'AbortError');
+    const piece = await parsePiece(file, 0, file.size, (p, parsedSoFar) => {
+      onProgress?.(p, onProgress && partialResult(() => [parsedSoFar()], p.epochs, p.bytesRead));
+    }, signal ?? new AbortController().signal, source);
+    return mergePieces([piece], piece.integrity.totalBytes);
+  }
+
+  // One controller for all workers: a cancel or a failed piece stops the others
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    const poolSize = Math.max(1, navigator.hardwareConcurrency || 4);
+    const pieceCount = Math.max(1, Math.min(poolSize, Math.floor(file.size / MIN_PIECE_BYTES)));
+    const points = pieceCount > 1 ? await splitFile(file, pieceCount) : [0, file.size];
+    if (controller.signal.aborted) throw new DOMException('Parse cancelled', 'AbortError');
+
+    // Overall progress: bytes and epochs add up, the slowest piece sets the ETA and the earliest
+    // unfinished one the last timestamp
+    const progress = points.slice(1).map((end, k): ParseProgress => ({ bytesRead: 0, totalBytes: end - points[k], epochs: 0 }));
+    const finished = progress.map(() => false);
+    const parsed: (ParsedPiece | null)[] = progress.map(() => null);
+    const parsedSoFar: ((() => ParsedPiece) | null)[] = progress.map(() => null);
+    const leadingPieces = () => {
+      const leading: ParsedPiece[] = [];
+      for (let k = 0; k < parsed.length; k++) {
+        const piece = parsed[k];
+        if (piece) {
+          leading.push(copyPiece(piece));
+          continue;
+        }
+        const running = parsedSoFar[k];
+        if (running) leading.push(running());
+        break;
+      }
+      return leading;
+    };
+    const leadingEpochs = () => {
+      let epochs = 0;
+      for (let k = 0; k < progress.length; k++) {
+        epochs += progress[k].epochs;
+        if (!finished[k]) break;
+      }
+      return epochs;
+    };
+    const reportProgress = () => {
+      if (!onProgress) return;
+      const running = progress.filter((p, k) => !finished[k]);
+      const etas = running.map(p => p.etaSeconds).filter((eta): eta is number => eta !== undefined);
+      const bytesRead = progress.reduce((sum, p) => sum + p.bytesRead, 0);
+      onProgress({
+        bytesRead,
+        totalBytes: file.size,
+        epochs: progress.reduce((sum, p) => sum + p.epochs, 0),
+        etaSeconds: etas.length > 0 ? Math.max(...etas) : undefined,
+        lastTimestamp: running.find(p => p.lastTimestamp !== undefined)?.lastTimestamp
+      }, partialResult(leadingPieces, leadingEpochs(), bytesRead));
+    };
+
+    const pieces = await Promise.all(points.slice(1).map((end, k) =>
+      parsePiece(file, points[k], end, (p, soFar) => {
+        progress[k] = p;
+        parsedSoFar[k] = soFar;
+        reportProgress();
+      }, controller.signal).then(piece => {
+        finished[k] = true;
+        parsed[k] = piece;
+        progress[k] = { bytesRead: end - points[k], totalBytes: end - points[k], epochs: piece.data.length };
+        if (finished.some(f => !f)) reportProgress();
+        return piece;
+      })
+    ));
+    return mergePieces(pieces, file.size);
+  } catch (err) {
+    controller.abort();
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
@@ -1,41 +1,235 @@
-import { GNSSDataPoint } from '../types';
+import {
+  GNSSDataPoint,
+  GnssSystem,
+  InterferenceBand,
+  LogProtocol,
+  ParseIntegrity,
+  RfBlockStatus,
+  SatelliteInfo,
+  SecurityEvent,
+  SignalBand,
+  SignalGroupStats,
+  SpectrumBlock
+} from '../types';
+import {
+  nmeaPrnToSystem,
+  nmeaSignalToBand,
+  nmeaSystemIdToSystem,
+  nmeaTalkerToSystem,
+  normalizeNmeaPrn,
+  satelliteId,
+  sbfSignalType,
+  sbfSvidToSystem,
+  signalKey,
+  sbfFrontendLabel,
+  ubxGnssIdToSystem,
+  ubxRfBlockLabel,
+  ubxSignalToBand
+} from './gnssSignals';
+import { osnmaStateLabel, siglogDetectionLabel, siglogEventLabel } from './securityCodes';
+import { nmeaChecksumOk, sbfCrcOk, ubxChecksumOk } from './logFrames';
+import { DAY_MS, DEFAULT_LEAP_SECONDS, gpsToUtcMs, parseNmeaDate, utcMidnightMs } from './utcTime';
+import { EpochTableBuilder, epochTableBuffers, hasValue, setEpochValue } from './epochTable';
+import { compressedSize, decompressedChunks, LogSource } from './archive';
+
+// Only the first failures are kept with offsets, the rest are just counted
+const MAX_REPORTED_FAILURES = 50;
+
+// The file is read in slices of this size; a frame cut by a slice boundary is carried into the next one
+const CHUNK_BYTES = 8 * 1024 * 1024;
+// Minimum time between progress messages (each one also hands over the epochs parsed so far)
+const PROGRESS_INTERVAL_MS = 250;
+// A piece of a split file is parsed from this far before its start, so epoch drivers, OSNMA state,
+// SIGLOG history and the epoch open at the boundary are rebuilt before its own bytes begin
+const WARMUP_BYTES = 1024 * 1024;
 
 /* eslint-disable no-restricted-globals */
-self.onmessage = async (e: MessageEvent) => {
-  const { buffer } = e.data;
-  const uint8Array = new Uint8Array(buffer);
-  const totalLength = uint8Array.byteLength;
-  
-  const dataPoints: GNSSDataPoint[] = [];
+const parseRange = async (e: MessageEvent) => {
+  // Large files are split into pieces parsed in parallel (see parser.ts): this worker owns the frames
+  // starting in [start, end) and only reports epochs flushed by one of them. A compressed source is
+  // never split: offsets then count decompressed bytes and the piece runs to the end of the data.
+  const { file, source = null } = e.data as { file: Blob; source?: LogSource | null };
+  const { start = 0, end = source ? Infinity : file.size } = e.data as { start?: number; end?: number };
+  const firstPiece = start === 0;
+  const lastPiece = end >= file.size;
+
+  // Bytes of the slice being parsed (plus any frame carried over from the previous one)
+  let uint8Array = new Uint8Array(0);
+  let totalLength = 0;
+  let bufferOffset = Math.max(0, start - WARMUP_BYTES); // File offset of uint8Array[0]
+  let finalChunk = false; // Without more data to come, incomplete frames at the end are garbage
+  let owned = firstPiece; // Whether the scan has reached this piece's own bytes
+  let reachedEnd = false;
+
+  // Epochs and events not yet handed to the main thread
+  const epochs = new EpochTableBuilder();
+  let lastTimestamp: string | undefined;
+  let epochCount = 0;
   const messageCounts: Record<string, number> = {};
   
+  // A later piece cannot know values the receiver reported before its warm-up (a SEC-SIG logged
+  // once, a fix type from an hour ago): they start as NaN/undefined and are filled in when merging
+  const inherited = firstPiece ? 0 : NaN;
+
   let currentEpoch: Partial<GNSSDataPoint> = {
     spoofingState: 0,
-    secSigState: 0,
-    gpsL1Cn0: 0,
+    secSigState: inherited,
+    gpsL1Cn0: inherited,
     gpsTop3AvgCn0: 0,
     gpsTrackedCount: 0,
     satellitesUsed: 0
   };
   
   // State persistence
-  let lastSecSigState = 0;
-  let lastGpsL1Cn0 = 0;
-  let lastFixType = 0;
-  let lastGnssFixOK = false;
-  let startTime = 0;
+  let lastSecSigState = inherited;
+  let lastGpsL1Cn0 = inherited;
+  let lastFixType = inherited;
+  let lastGnssFixOK: boolean | undefined = firstPiece ? false : undefined;
+  let resolvedGpsL1Cn0: number | null = null; // NAV-SIG value of the epoch that ended an unknown C/N0
   let lastSbfTow = -1; // Track SBF Time of Week to handle epoch flushing
+  let lastUbxItow = -1; // Track UBX iTOW so NAV-PVT can drive epochs in pure-UBX logs
+  let hasNmeaEpochs = false; // Once a GGA is seen, NMEA drives epochs and NAV-PVT only merges
+  let currentNmeaSod = -1; // UTC second-of-day of the GGA that opened the current epoch
+  let pendingPvt: { utcSod: number; fields: Partial<GNSSDataPoint> } | null = null;
+  // RMC/VTG usually precede the GGA of their epoch; hold their velocity until it opens
+  let pendingNmeaVel: { utcSod: number; groundSpeed?: number; heading?: number } | null = null;
   
+  // Absolute time: UTC second-of-day is unwrapped across midnight onto a continuous scale,
+  // which is anchored to a calendar date once RMC/ZDA, NAV-PVT or SBF WNc supply one
+  let startTime = -1; // Continuous second of the first epoch
+  let lastSod = -1;
+  let dayRollovers = 0;
+  let firstDayMs: number | null = null; // UTC midnight of the day the continuous scale starts on
+  let leapSeconds = DEFAULT_LEAP_SECONDS; // GPS - UTC, from NAV-TIMEGPS / SBF ReceiverTime when logged
+
   // Buffer for GSV/SBF accumulation within a single epoch
   let currentEpochGpsSnrs: number[] = [];
   // Use a Set to track unique GPS satellites (PRN) to avoid double counting
   let currentEpochGpsSvs = new Set<number>(); // Tracked (GSV)
   let currentEpochGpsUsedSvs = new Set<number>(); // Used in Fix (GSA)
 
+  // Multi-constellation accumulation: `${system}:${band}` -> (PRN -> C/N0).
+  // Keyed by PRN so the same signal reported by GSV and NAV-SIG is only counted once.
+  const currentEpochSignals = new Map<string, Map<number, number>>();
+  const currentEpochUsedSvs = new Map<GnssSystem, Set<number>>();
+
+  // Per-satellite view of the current epoch, keyed by RINEX-style ID
+  const currentEpochSats = new Map<string, SatelliteInfo>();
+
+  const getSatellite = (system: GnssSystem, prn: number) => {
+    const id = satelliteId(system, prn);
+    let sat = currentEpochSats.get(id);
+    if (!sat) {
+      sat = { prn: id, elevation: NaN, azimuth: NaN, snr: 0, system };
+      currentEpochSats.set(id, sat);
+    }
+    return sat;
+  };
+
+  const updateSatelliteGeometry = (system: GnssSystem, prn: number, elevation: number, azimuth: number) => {
+    if (system === 'Unknown') return;
+    const sat = getSatellite(system, prn);
+    if (!isNaN(elevation)) sat.elevation = elevation;
+    if (!isNaN(azimuth)) sat.azimuth = azimuth;
+  };
+
+  const addSignalObservation = (system: GnssSystem, band: SignalBand, prn: number, cn0: number) => {
+    if (system === 'Unknown') return;
+
+    // The skyplot shows the L1-band C/N0; other bands only fill in when no L1 is tracked
+    const sat = getSatellite(system, prn);
+    if (band === 'L1' || sat.snr === 0) sat.snr = cn0;
+
+    const key = signalKey(system, band);
+    let group = currentEpochSignals.get(key);
+    if (!group) {
+      group = new Map<number, number>();
+      currentEpochSignals.set(key, group);
+    }
+    group.set(prn, cn0);
+  };
+
+  const addUsedSv = (system: GnssSystem, prn: number) => {
+    if (system === 'Unknown') return;
+    getSatellite(system, prn).used = true;
+    let used = currentEpochUsedSvs.get(system);
+    if (!used) {
+      used = new Set<number>();
+      currentEpochUsedSvs.set(system, used);
+    }
+    used.add(prn);
+  };
+
+  // Helper: Reduce the per-signal accumulators into per-band and per-constellation stats
+  const buildSignalStats = () => {
+    const signalStats: Record<string, SignalGroupStats> = {};
+    const perSystem = new Map<GnssSystem, { svs: Set<number>; cn0Sum: number; cn0Count: number }>();
+
+    currentEpochSignals.forEach((group, key) => {
+      const system = key.split(':')[0] as GnssSystem;
+      let sum = 0;
+      group.forEach(cn0 => { sum += cn0; });
+      signalStats[key] = {
+        avgCn0: parseFloat((sum / group.size).toFixed(1)),
+        tracked: group.size
+      };
+
+      let sys = perSystem.get(system);
+      if (!sys) {
+        sys = { svs: new Set<number>(), cn0Sum: 0, cn0Count: 0 };
+        perSystem.set(system, sys);
+      }
+      group.forEach((cn0, prn) => sys!.svs.add(prn));
+      sys.cn0Sum += sum;
+      sys.cn0Count += group.size;
+    });
+
+    const constellationStats: Partial<Record<GnssSystem, SignalGroupStats>> = {};
+    perSystem.forEach((sys, system) => {
+      constellationStats[system] = {
+        avgCn0: parseFloat((sys.cn0Sum / sys.cn0Count).toFixed(1)),
+        tracked: sys.svs.size,
+        used: currentEpochUsedSvs.get(system)?.size
+      };
+    });
+    // Systems used in the fix but without any C/N0 report this epoch
+    currentEpochUsedSvs.forEach((used, system) => {
+      if (!constellationStats[system]) constellationStats[system] = { avgCn0: 0, tracked: 0, used: used.size };
+    });
+
+    return { signalStats, constellationStats };
+  };
+
+  // Security events are collected per epoch and timestamped when the epoch is flushed,
+  // since SEC messages can arrive before the epoch's time is known (pure UBX)
+  const securityEvents: SecurityEvent[] = [];
+  let currentEpochEvents: (Omit<SecurityEvent, 'timestamp' | 'timeSeconds'> & { elapsed: number })[] = [];
+  const lastSiglogTimes = new Map<string, number>(); // SIGLOG repeats its history in every message
+  let lastOsnmaState = -1;
+  let lastAuthenticatedSignals = -1;
+
+  const integrity: ParseIntegrity = {
+    frames: {
+      NMEA: { good: 0, bad: 0 },
+      UBX: { good: 0, bad: 0 },
+      SBF: { good: 0, bad: 0 }
+    },
+    failures: [],
+    bytesSkipped: 0,
+    totalBytes: end - start
+  };
+
   const incrementMsgCount = (type: string) => {
     messageCounts[type] = (messageCounts[type] || 0) + 1;
   };
 
+  const recordBadFrame = (protocol: LogProtocol, offset: number, reason: string) => {
+    integrity.frames[protocol].bad++;
+    if (integrity.failures.length < MAX_REPORTED_FAILURES) {
+      integrity.failures.push({ protocol, offset: bufferOffset + offset, reason });
+    }
+  };
+
   // Helper to parse time from NMEA (hhmmss.ss)
   const parseNmeaTime = (timeStr: string) => {
     if (!timeStr || timeStr.length < 6) return 0;
@@ -45,6 +239,122 @@ self.onmessage = async (e: MessageEvent) => {
     return hours * 3600 + minutes * 60 + seconds;
   };
 
+  // Helper: Map a UTC second-of-day onto the continuous scale (a drop of more than half a day is midnight)
+  const unwrapSod = (sod: number) => {
+    if (lastSod >= 0 && sod > lastSod + 43200) {
+      // Late message from before the last midnight
+      return sod + (dayRollovers - 1) * 86400;
+    }
+    if (lastSod >= 0 && sod < lastSod - 43200) dayRollovers++;
+    lastSod = sod;
+    return sod + dayRollovers * 86400;
+  };
+
+  // Helper: A message's calendar date (UTC midnight) together with its own second-of-day
+  const anchorDate = (midnightMs: number, sod: number) => {
+    const days = Math.floor(unwrapSod(sod) / 86400);
+    firstDayMs = midnightMs - days * DAY_MS;
+  };
+
+  // Helper: Set the current epoch's time from its UTC second-of-day
+  const setEpochTime = (sod: number) => {
+    const t = unwrapSod(sod);
+    if (startTime < 0) startTime = t;
+    currentEpoch.timestamp = formatSod(sod);
+    currentEpoch.timeSeconds = t - startTime;
+  };
+
+  const utcMsAt = (timeSeconds: number) =>
+    firstDayMs !== null ? Math.round(firstDayMs + (startTime + timeSeconds) * 1000) : undefined;
+
+  // Helper: Anchor from a GPS week + time of week (SBF WNc/TOW, NAV-TIMEGPS)
+  const anchorGpsTime = (week: number, towMs: number) => {
+    const utc = gpsToUtcMs(week, towMs, leapSeconds);
+    const midnight = Math.floor(utc / DAY_MS) * DAY_MS;
+    anchorDate(midnight, (utc - midnight) / 1000);
+    return (utc - midnight) / 1000;
+  };
+
+  // Helper to format seconds-of-day as HH:MM:SS
+  const formatSod = (continuousSod: number) => {
+    // SIGLOG history from before the first epoch may fall before the midnight the scale starts on
+    const sod = ((continuousSod % 86400) + 86400) % 86400;
+    const hours = Math.floor(sod / 3600);
+    const mins = Math.floor((sod % 3600) / 60);
+    const secs = Math.floor(sod % 60);
+    return `${hours.toString().padStart(2,'0')}:${mins.toString().padStart(2,'0')}:${secs.toString().padStart(2,'0')}`;
+  };
+
+  // Helper: Decode UBX-NAV-PVT (0x01 0x07) payload into GNSSDataPoint fields.
+  // utcSod is the UTC second-of-day (or GPS ToW mod day if UTC time is not yet valid),
+  // used to match the message against the NMEA epoch it belongs to.
+  const decodeNavPvt = (payload: Uint8Array) => {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const iTOW = view.getUint32(0, true);
+    const year = view.getUint16(4, true);
+    const month = payload[6];
+    const day = payload[7];
+    const hour = payload[8];
+    const min = payload[9];
+    const sec = payload[10];
+    const valid = payload[11];
+    const nano = view.getInt32(16, true);
+    const fixType = payload[20];
+    const flags = payload[21];
+    const gnssFixOK = (flags & 0x01) === 1;
+
+    const validDate = (valid & 0x01) !== 0;
+    const validTime = (valid & 0x02) !== 0;
+    const utcSod = validTime
+      ? hour * 3600 + min * 60 + sec + nano / 1e9
+      : (((iTOW / 1000 - leapSeconds) % 86400) + 86400) % 86400;
+
+    const fields: Partial<GNSSDataPoint> = {
+      iTOW,
+      fixType,
+      gnssFixOK,
+      numSV: payload[23],
+      hAcc: view.getUint32(40, true) / 1000,
+      vAcc: view.getUint32(44, true) / 1000,
+      velN: view.getInt32(48, true) / 1000,
+      velE: view.getInt32(52, true) / 1000,
+      velD: view.getInt32(56, true) / 1000,
+      groundSpeed: view.getInt32(60, true) / 1000,
+      heading: view.getInt32(64, true) / 1e5,
+      sAcc: view.getUint32(68, true) / 1000,
+      pDOP: view.getUint16(76, true) / 100
+    };
+
+    if (validDate) {
+      fields.utcDate = `${year}-${month.toString().padStart(2,'0')}-${day.toString().padStart(2,'0')}`;
+    }
+    const midnightMs = validDate && validTime ? utcMidnightMs(year, month, day) : undefined;
+
+    // Position is only meaningful with a valid fix
+    if (gnssFixOK && fixType >= 2) {
+      fields.lon = view.getInt32(24, true) / 1e7;
+      fields.lat = view.getInt32(28, true) / 1e7;
+      fields.heightEllipsoid = view.getInt32(32, true) / 1000;
+      fields.alt = view.getInt32(36, true) / 1000;
+    }
+
+    return { utcSod, midnightMs, fields };
+  };
+
+  // Helper: Merge NAV-PVT fields into an NMEA-driven epoch.
+  // NAV-PVT position has higher resolution than GGA, so it wins for lat/lon/alt;
+  // GGA keeps ownership of timestamp, fixQuality and satellitesUsed.
+  const mergePvtIntoEpoch = (fields: Partial<GNSSDataPoint>) => {
+    Object.assign(currentEpoch, fields);
+  };
+
+  // Helper: Apply RMC/VTG velocity unless NAV-PVT already supplied it (Doppler-based, higher resolution)
+  const applyNmeaVelocity = (vel: { groundSpeed?: number; heading?: number }) => {
+    if (currentEpoch.iTOW !== undefined) return;
+    if (vel.groundSpeed !== undefined) currentEpoch.groundSpeed = vel.groundSpeed;
+    if (vel.heading !== undefined) currentEpoch.heading = vel.heading;
+  };
+
   // Helper: Calculate Top 3 Avg CN0 for GPS
   const calculateTop3Avg = (snrs: number[]) => {
     if (snrs.length === 0) return 0;
@@ -54,7 +364,8 @@ self.onmessage = async (e: MessageEvent) => {
     return parseFloat((sum / top3.length).toFixed(1));
   };
 
-  // Helper: Flush current epoch to dataPoints
+  // Helper: Flush current epoch to the epoch table
+  // Epochs flushed during the warm-up belong to the previous piece: they only update the state
   const flushEpoch = () => {
     if (currentEpoch.timeSeconds !== undefined) {
         const top3Avg = calculateTop3Avg(currentEpochGpsSnrs);
@@ -66,17 +377,52 @@ self.onmessage = async (e: MessageEvent) => {
             : (currentEpoch.satellitesUsed || 0);
 
         const gpsTrackedCount = currentEpochGpsSvs.size;
+        const { signalStats, constellationStats } = buildSignalStats();
         
-        dataPoints.push({
-          ...currentEpoch,
-          secSigState: currentEpoch.secSigState || lastSecSigState, // Use current if set (from SBF), else last
-          gpsL1Cn0: lastGpsL1Cn0 || currentEpoch.gpsL1Cn0,
-          gpsTop3AvgCn0: top3Avg, 
-          gpsTrackedCount: gpsTrackedCount, // GPS Tracked (In View)
-          satellitesUsed: gpsUsedCount,     // GPS Used (In Fix)
-          fixType: currentEpoch.fixType ?? lastFixType,
-          gnssFixOK: currentEpoch.gnssFixOK ?? lastGnssFixOK
-        } as GNSSDataPoint);
+        if (owned) {
+          if (isNaN(lastGpsL1Cn0) && !isNaN(currentEpoch.gpsL1Cn0!)) resolvedGpsL1Cn0 = currentEpoch.gpsL1Cn0!;
+          epochCount++;
+          lastTimestamp = currentEpoch.timestamp;
+          epochs.push({
+            ...currentEpoch,
+            utcMs: utcMsAt(currentEpoch.timeSeconds),
+            signalStats,
+            constellationStats,
+            satellites: currentEpochSats.size > 0 ? Array.from(currentEpochSats.values()) : undefined,
+            secSigState: currentEpoch.secSigState || lastSecSigState, // Use current if set (from SBF), else last
+            gpsL1Cn0: isNaN(lastGpsL1Cn0) ? undefined : lastGpsL1Cn0 || currentEpoch.gpsL1Cn0,
+            gpsTop3AvgCn0: top3Avg, 
+            gpsTrackedCount: gpsTrackedCount, // GPS Tracked (In View)
+            satellitesUsed: gpsUsedCount,     // GPS Used (In Fix)
+            fixType: currentEpoch.fixType ?? lastFixType,
+            gnssFixOK: currentEpoch.gnssFixOK ?? lastGnssFixOK
+          } as GNSSDataPoint);
+        }
+
+        // Timestamp this epoch's security events
+        const epochTime = currentEpoch.timeSeconds;
+        currentEpochEvents.forEach(({ elapsed, ...evt }) => {
+            const t = epochTime - elapsed;
+            if (evt.source === 'UBX-SEC-SIGLOG') {
+                const key = `${evt.detector}|${evt.eventType}`;
+                const last = lastSiglogTimes.get(key);
+                if (last !== undefined && Math.abs(last - t) < 1.5) return;
+                lastSiglogTimes.set(key, t);
+            }
+            if (owned) securityEvents.push({ ...evt, timeSeconds: t, timestamp: formatSod(startTime + t), utcMs: utcMsAt(t) });
+        });
+        currentEpochEvents = [];
+
+        // Galileo authentication transitions from NAV-SIG
+        if (currentEpoch.authenticatedSignals !== undefined) {
+            const auth = currentEpoch.authenticatedSignals;
+            if (owned && lastAuthenticatedSignals > 0 && auth === 0) {
+                securityEvents.push({ timeSeconds: epochTime, timestamp: currentEpoch.timestamp!, utcMs: utcMsAt(epochTime), source: 'UBX-NAV-SIG', eventType: 'Authentication lost', constellation: 'Galileo' });
+            } else if (owned && lastAuthenticatedSignals <= 0 && auth > 0) {
+                securityEvents.push({ timeSeconds: epochTime, timestamp: currentEpoch.timestamp!, utcMs: utcMsAt(epochTime), source: 'UBX-NAV-SIG', eventType: 'Signals authenticated', constellation: 'Galileo' });
+            }
+            lastAuthenticatedSignals = auth;
+        }
 
         // Update persistence
         if (currentEpoch.secSigState !== undefined) lastSecSigState = currentEpoch.secSigState;
@@ -89,6 +435,9 @@ self.onmessage = async (e: MessageEvent) => {
      currentEpochGpsSnrs = [];
      currentEpochGpsSvs.clear();
      currentEpochGpsUsedSvs.clear();
+     currentEpochSignals.clear();
+     currentEpochUsedSvs.clear();
+     currentEpochSats.clear();
 
      // Prepare next epoch (retain some state if needed, or mostly clean)
      currentEpoch = {
@@ -103,360 +452,916 @@ self.onmessage = async (e: MessageEvent) => {
      };
   };
 
-  let i = 0;
   let extractedText = "";
   const textLimit = 50000;
 
-  while (i < totalLength) {
-    const byte = uint8Array[i];
+  // Parse the current buffer; returns how many bytes were consumed. Before the final chunk it stops
+  // at the first frame that may continue past the end of the buffer.
+  const parseBuffer = () => {
+    let i = 0;
+    while (i < totalLength) {
+      const scanOffset = bufferOffset + i; // File offset of the frame about to be parsed
+      if (scanOffset >= end) {
+        reachedEnd = true;
+        break;
+      }
+      if (!owned && scanOffset >= start) {
+        // Counters and extracted text only cover this piece's own bytes
+        owned = true;
+        Object.keys(messageCounts).forEach(key => delete messageCounts[key]);
+        Object.values(integrity.frames).forEach(frame => { frame.good = 0; frame.bad = 0; });
+        integrity.failures = [];
+        integrity.bytesSkipped = 0;
+        extractedText = "";
+      }
+      const byte = uint8Array[i];
+
+      // '$' at the very end: NMEA or SBF depends on the next byte
+      if (byte === 0x24 && i + 1 >= totalLength && !finalChunk) break;
 
-    // --- 1. NMEA Handling ($) ---
-    if (byte === 0x24 && (i + 1 >= totalLength || uint8Array[i+1] !== 0x40)) { // Check it's NOT SBF ($@)
-      let lineEnd = -1;
-      for (let j = i + 1; j < Math.min(i + 500, totalLength); j++) {
-        if (uint8Array[j] === 0x0A || uint8Array[j] === 0x0D) {
-          lineEnd = j;
-          break;
+      // --- 1. NMEA Handling ($) ---
+      if (byte === 0x24 && (i + 1 >= totalLength || uint8Array[i+1] !== 0x40)) { // Check it's NOT SBF ($@)
+        let lineEnd = -1;
+        for (let j = i + 1; j < Math.min(i + 500, totalLength); j++) {
+          if (uint8Array[j] === 0x0A || uint8Array[j] === 0x0D) {
+            lineEnd = j;
+            break;
+          }
         }
-      }
+        if (lineEnd === -1 && i + 500 > totalLength && !finalChunk) break;
+
+        if (lineEnd !== -1) {
+          const lineBuffer = uint8Array.slice(i, lineEnd);
+          const line = new TextDecoder().decode(lineBuffer).trim();
 
-      if (lineEnd !== -1) {
-        const lineBuffer = uint8Array.slice(i, lineEnd);
-        const line = new TextDecoder().decode(lineBuffer).trim();
+          // Only lines with an NMEA-looking address field count as frames; a stray '$' is garbage
+          const isNmeaCandidate = /^\$[A-Z0-9]{3,10}[,*]/.test(line);
+          if (!isNmeaCandidate || !nmeaChecksumOk(line)) {
+            if (isNmeaCandidate) recordBadFrame('NMEA', i, line.includes('*') ? 'Checksum mismatch' : 'Missing checksum');
+            // Resync: rescan from the next byte for any sync pattern
+            integrity.bytesSkipped++;
+            i++;
+            continue;
+          }
+          integrity.frames.NMEA.good++;
         
-        if (extractedText.length < textLimit) extractedText += line + "\n";
+          if (extractedText.length < textLimit) extractedText += line + "\n";
 
-        // Identify NMEA type
-        const commaIdx = line.indexOf(',');
-        if (commaIdx > 0) {
-            const msgType = line.substring(0, commaIdx);
-            incrementMsgCount(msgType); 
-        }
+          // Identify NMEA type
+          const commaIdx = line.indexOf(',');
+          if (commaIdx > 0) {
+              const msgType = line.substring(0, commaIdx);
+              incrementMsgCount(msgType); 
+          }
 
-        // --- GSA Parsing (DOP and Active Satellites) ---
-        // Determines specifically which satellites are used in the fix
-        if (line.includes('GSA')) {
-            const parts = line.split('*')[0].split(',');
-            // Format: $GPGSA,A,3,01,02,03,,,,,,,,,,3.5,2.1,1.8
-            // Index 3 to 14 are PRNs
-            if (parts.length > 3) {
-                 for (let k = 3; k <= 14; k++) {
-                     const prnStr = parts[k];
-                     if (prnStr && prnStr !== '') {
-                         const prn = parseInt(prnStr);
-                         // GPS PRNs are 1-32. SBAS are 33-64 (often mapped to 120+). GLONASS 65-96.
-                         // We strictly only count 1-32 for "GPS Used"
-                         if (!isNaN(prn) && prn >= 1 && prn <= 32) {
-                             currentEpochGpsUsedSvs.add(prn);
-                         }
-                     }
-                 }
-            }
-        }
+          // --- GSA Parsing (DOP and Active Satellites) ---
+          // Determines specifically which satellites are used in the fix
+          if (line.includes('GSA')) {
+              const parts = line.split('*')[0].split(',');
+              // Format: $GPGSA,A,3,01,02,03,,,,,,,,,,3.5,2.1,1.8[,systemId]
+              // Index 3 to 14 are PRNs, 15-17 DOPs, 18 is the NMEA 4.11 system ID
+              if (parts.length > 3) {
+                   const talker = parts[0].slice(1, 3);
+                   const systemId = parts.length > 18 ? parseInt(parts[18], 16) : NaN;
+                   const sentenceSystem = (!isNaN(systemId) ? nmeaSystemIdToSystem(systemId) : null)
+                       ?? nmeaTalkerToSystem(talker);
 
-        // --- GSV Parsing (Satellites in View) ---
-        // Support all standard Talkers, but FILTER for GPS.
-        if (line.includes('GSV')) {
-            const parts = line.split('*')[0].split(',');
-            if (parts.length > 3) {
-                const talker = parts[0].slice(1, 3); // GP, GN, GL, etc.
+                   for (let k = 3; k <= 14; k++) {
+                       const prnStr = parts[k];
+                       if (prnStr && prnStr !== '') {
+                           const prn = parseInt(prnStr);
+                           if (isNaN(prn)) continue;
+                           // Without a talker/system ID (GN, NMEA < 4.11) fall back to PRN ranges:
+                           // GPS 1-32, SBAS 33-64, GLONASS 65-96, ...
+                           const system = sentenceSystem ?? nmeaPrnToSystem(prn);
+                           addUsedSv(system, normalizeNmeaPrn(system, prn));
+                           // We strictly only count GPS for "GPS Used"
+                           if (system === 'GPS' && prn >= 1 && prn <= 32) {
+                               currentEpochGpsUsedSvs.add(prn);
+                           }
+                       }
+                   }
+              }
+          }
+
+          // --- GSV Parsing (Satellites in View) ---
+          // Support all standard Talkers. Legacy GPS fields stay GPS L1 only.
+          if (line.includes('GSV')) {
+              const parts = line.split('*')[0].split(',');
+              if (parts.length > 3) {
+                  const talker = parts[0].slice(1, 3); // GP, GN, GL, etc.
+                  const talkerSystem = nmeaTalkerToSystem(talker);
+
+                  // NMEA 4.11 appends a signal ID after the satellite blocks
+                  const hasSignalId = (parts.length - 4) % 4 === 1;
+                  const signalId = hasSignalId ? parseInt(parts[parts.length - 1], 16) : 0;
                 
-                // Groups of 4: PRN, El, Az, SNR starting at index 4
-                // Field index: 0=ID, 1=TotMsgs, 2=MsgNum, 3=SatsInView, 4=PRN1...
-                for (let k = 4; k < parts.length; k += 4) {
-                    // Safety check to ensure we have a full block of 4
-                    if (k + 3 >= parts.length) break;
-
-                    const prn = parseInt(parts[k]);
-                    const snr = parseInt(parts[k+3]);
+                  // Groups of 4: PRN, El, Az, SNR starting at index 4
+                  // Field index: 0=ID, 1=TotMsgs, 2=MsgNum, 3=SatsInView, 4=PRN1...
+                  for (let k = 4; k < parts.length; k += 4) {
+                      // Safety check to ensure we have a full block of 4
+                      if (k + 3 >= parts.length) break;
+
+                      const prn = parseInt(parts[k]);
+                      const snr = parseInt(parts[k+3]);
+                      if (isNaN(prn)) continue;
+
+                      const system = talkerSystem ?? nmeaPrnToSystem(prn);
+                      const satPrn = normalizeNmeaPrn(system, prn);
+                      // Satellites in view without C/N0 still go on the skyplot
+                      updateSatelliteGeometry(system, satPrn, parseInt(parts[k+1]), parseInt(parts[k+2]));
                     
-                    if (!isNaN(prn) && !isNaN(snr) && snr > 0) {
-                        // FILTER: Only count GPS satellites.
-                        // Talker GP is always GPS. 
-                        // Talker GN with PRN 1-32 is GPS.
-                        const isGPS = (talker === 'GP') || (talker === 'GN' && prn >= 1 && prn <= 32);
-
-                        if (isGPS) {
-                             currentEpochGpsSvs.add(prn);
-                             currentEpochGpsSnrs.push(snr);
-                        }
-                    }
-                }
-            }
-        }
+                      if (!isNaN(snr) && snr > 0) {
+                          const band = nmeaSignalToBand(system, isNaN(signalId) ? 0 : signalId);
+                          addSignalObservation(system, band, satPrn, snr);
 
-        // --- GGA Parsing (Position & Time - Starts/Ends Epoch) ---
-        // Uses split(',') instead of strict regex to handle empty fields (e.g. no fix)
-        // Structure: $xxGGA,time,lat,NS,lon,EW,quality,numSV,HDOP,alt,altUnit...
-        if (line.includes('GGA')) {
-           const parts = line.split('*')[0].split(',');
-           if (parts.length >= 10) {
-              const timeStr = parts[1];
-              
-              // Only process if we have a valid time string
-              if (timeStr && timeStr.length >= 6) {
-                  // Finalize previous epoch
-                  flushEpoch();
-
-                  const latRaw = parseFloat(parts[2]);
-                  const latDir = parts[3];
-                  const lonRaw = parseFloat(parts[4]);
-                  const lonDir = parts[5];
-                  const fixQuality = parseInt(parts[6]);
-                  // Note: GGA satsUsed is total satellites (GPS+GLO+GAL etc).
-                  // We store it as a fallback, but GSA parsing will overwrite it with GPS-only count if available.
-                  const satsUsedTotal = parseInt(parts[7]); 
-                  const alt = parseFloat(parts[9]);
-
-                  let lat = undefined;
-                  let lon = undefined;
-
-                  // Parse lat/lon only if valid numbers
-                  if (!isNaN(latRaw) && !isNaN(lonRaw) && latDir && lonDir) {
-                      const latDeg = Math.floor(latRaw / 100);
-                      const latMin = latRaw % 100;
-                      lat = (latDeg + latMin / 60) * (latDir === 'S' ? -1 : 1);
-                      
-                      const lonDeg = Math.floor(lonRaw / 100);
-                      const lonMin = lonRaw % 100;
-                      lon = (lonDeg + lonMin / 60) * (lonDir === 'W' ? -1 : 1);
+                          // Legacy GPS L1 fields: talker GP is always GPS, talker GN with PRN 1-32 is GPS.
+                          const isGPS = (talker === 'GP') || (talker === 'GN' && prn >= 1 && prn <= 32);
+
+                          if (isGPS && band === 'L1') {
+                               currentEpochGpsSvs.add(prn);
+                               currentEpochGpsSnrs.push(snr);
+                          }
+                      }
                   }
+              }
+          }
+
+          // --- RMC / VTG Parsing (Reported Speed & Course) ---
+          // $xxRMC,time,status,lat,NS,lon,EW,speedKn,courseT,date,...
+          // $xxVTG,courseT,T,courseM,M,speedKn,N,speedKmh,K,mode
+          if (line.includes('RMC') || line.includes('VTG')) {
+              const parts = line.split('*')[0].split(',');
+              const isRmc = line.includes('RMC');
+              const speedKn = parseFloat(parts[isRmc ? 7 : 5]);
+              const course = parseFloat(parts[isRmc ? 8 : 1]);
+              const vel = {
+                  groundSpeed: isNaN(speedKn) ? undefined : speedKn * 0.514444,
+                  heading: isNaN(course) ? undefined : course
+              };
 
-                  const tSecs = parseNmeaTime(timeStr);
-                  if (startTime === 0 && tSecs > 0) startTime = tSecs;
-
-                  currentEpoch.timestamp = `${timeStr.slice(0, 2)}:${timeStr.slice(2, 4)}:${timeStr.slice(4, 6)}`;
-                  currentEpoch.timeSeconds = startTime > 0 ? tSecs - startTime : 0;
-                  currentEpoch.lat = lat;
-                  currentEpoch.lon = lon;
-                  currentEpoch.alt = isNaN(alt) ? undefined : alt;
-                  currentEpoch.fixQuality = isNaN(fixQuality) ? 0 : fixQuality;
-                  // Temporary store total, will be overridden by GSA logic in flushEpoch if GSA exists
-                  currentEpoch.satellitesUsed = isNaN(satsUsedTotal) ? 0 : satsUsedTotal;
+              if (isRmc && parts.length > 8 && parts[2] === 'A') {
+                  const tSecs = parseNmeaTime(parts[1]);
+                  const midnightMs = parseNmeaDate(parts[9]);
+                  if (midnightMs !== undefined && parts[1].length >= 6) anchorDate(midnightMs, tSecs);
+                  if (Math.abs(tSecs - currentNmeaSod) < 0.005) {
+                      applyNmeaVelocity(vel);
+                  } else {
+                      pendingNmeaVel = { utcSod: tSecs, ...vel };
+                  }
+              } else if (!isRmc && parts.length > 7) {
+                  // VTG carries no time: it belongs with the RMC just before it
+                  if (pendingNmeaVel) {
+                      pendingNmeaVel = { ...pendingNmeaVel, ...vel };
+                  } else {
+                      applyNmeaVelocity(vel);
+                  }
               }
-           }
-        }
+          }
+
+          // --- ZDA Parsing (Date) ---
+          // $xxZDA,time,day,month,year,zoneHours,zoneMinutes
+          if (line.includes('ZDA')) {
+              const parts = line.split('*')[0].split(',');
+              const day = parseInt(parts[2]);
+              const month = parseInt(parts[3]);
+              const year = parseInt(parts[4]);
+              if (parts[1] && parts[1].length >= 6 && !isNaN(day) && !isNaN(month) && year >= 1980) {
+                  anchorDate(utcMidnightMs(year, month, day), parseNmeaTime(parts[1]));
+              }
+          }
+
+          // --- GGA Parsing (Position & Time - Starts/Ends Epoch) ---
+          // Uses split(',') instead of strict regex to handle empty fields (e.g. no fix)
+          // Structure: $xxGGA,time,lat,NS,lon,EW,quality,numSV,HDOP,alt,altUnit...
+          if (line.includes('GGA')) {
+             const parts = line.split('*')[0].split(',');
+             if (parts.length >= 10) {
+                const timeStr = parts[1];
+              
+                // Only process if we have a valid time string
+                if (timeStr && timeStr.length >= 6) {
+                    // Finalize previous epoch
+                    flushEpoch();
+
+                    const latRaw = parseFloat(parts[2]);
+                    const latDir = parts[3];
+                    const lonRaw = parseFloat(parts[4]);
+                    const lonDir = parts[5];
+                    const fixQuality = parseInt(parts[6]);
+                    // Note: GGA satsUsed is total satellites (GPS+GLO+GAL etc).
+                    // We store it as a fallback, but GSA parsing will overwrite it with GPS-only count if available.
+                    const satsUsedTotal = parseInt(parts[7]); 
+                    const alt = parseFloat(parts[9]);
+
+                    let lat = undefined;
+                    let lon = undefined;
+
+                    // Parse lat/lon only if valid numbers
+                    if (!isNaN(latRaw) && !isNaN(lonRaw) && latDir && lonDir) {
+                        const latDeg = Math.floor(latRaw / 100);
+                        const latMin = latRaw % 100;
+                        lat = (latDeg + latMin / 60) * (latDir === 'S' ? -1 : 1);
+                      
+                        const lonDeg = Math.floor(lonRaw / 100);
+                        const lonMin = lonRaw % 100;
+                        lon = (lonDeg + lonMin / 60) * (lonDir === 'W' ? -1 : 1);
+                    }
+
+                    const tSecs = parseNmeaTime(timeStr);
+                    setEpochTime(tSecs);
+                    currentEpoch.lat = lat;
+                    currentEpoch.lon = lon;
+                    currentEpoch.alt = isNaN(alt) ? undefined : alt;
+                    currentEpoch.fixQuality = isNaN(fixQuality) ? 0 : fixQuality;
+                    // Temporary store total, will be overridden by GSA logic in flushEpoch if GSA exists
+                    currentEpoch.satellitesUsed = isNaN(satsUsedTotal) ? 0 : satsUsedTotal;
+
+                    hasNmeaEpochs = true;
+                    currentNmeaSod = tSecs;
+
+                    // NAV-PVT / RMC for this epoch may have arrived before its GGA
+                    if (pendingPvt && Math.abs(pendingPvt.utcSod - tSecs) < 0.005) {
+                        mergePvtIntoEpoch(pendingPvt.fields);
+                    }
+                    pendingPvt = null;
+                    if (pendingNmeaVel && Math.abs(pendingNmeaVel.utcSod - tSecs) < 0.005) {
+                        applyNmeaVelocity(pendingNmeaVel);
+                    }
+                    pendingNmeaVel = null;
+                }
+             }
+          }
         
-        i = lineEnd + 1;
-        continue;
+          i = lineEnd + 1;
+          continue;
+        }
       }
-    }
 
-    // --- 2. UBX Handling (0xB5 0x62) ---
-    if (byte === 0xB5 && i + 1 < totalLength && uint8Array[i+1] === 0x62) {
-      if (i + 6 <= totalLength) {
-        const msgClass = uint8Array[i+2];
-        const msgId = uint8Array[i+3];
-        const len = uint8Array[i+4] + (uint8Array[i+5] << 8);
+      // --- 2. UBX Handling (0xB5 0x62) ---
+      if (byte === 0xB5 && i + 1 >= totalLength && !finalChunk) break;
+      if (byte === 0xB5 && i + 1 < totalLength && uint8Array[i+1] === 0x62) {
+        if (i + 6 > totalLength && !finalChunk) break;
+        if (i + 6 <= totalLength) {
+          const msgClass = uint8Array[i+2];
+          const msgId = uint8Array[i+3];
+          const len = uint8Array[i+4] + (uint8Array[i+5] << 8);
 
-        if (i + 6 + len + 2 <= totalLength) {
-          const payload = uint8Array.slice(i + 6, i + 6 + len);
-          const msgKey = `UBX-0x${msgClass.toString(16).toUpperCase().padStart(2,'0')}-0x${msgId.toString(16).toUpperCase().padStart(2,'0')}`;
+          if (i + 6 + len + 2 > totalLength && !finalChunk) break;
+          if (i + 6 + len + 2 <= totalLength) {
+            if (!ubxChecksumOk(uint8Array, i, len)) {
+              recordBadFrame('UBX', i, 'Checksum mismatch');
+              integrity.bytesSkipped++;
+              i++;
+              continue;
+            }
+            integrity.frames.UBX.good++;
+
+            const payload = uint8Array.slice(i + 6, i + 6 + len);
+            const msgKey = `UBX-0x${msgClass.toString(16).toUpperCase().padStart(2,'0')}-0x${msgId.toString(16).toUpperCase().padStart(2,'0')}`;
           
-          let readableName = msgKey;
-          if (msgClass === 0x01 && msgId === 0x07) readableName = "UBX-NAV-PVT";
-          else if (msgClass === 0x01 && msgId === 0x43) readableName = "UBX-NAV-SIG";
-          else if (msgClass === 0x27 && msgId === 0x09) readableName = "UBX-SEC-SIG";
-          else if (msgClass === 0x01 && msgId === 0x03) readableName = "UBX-NAV-STATUS";
+            let readableName = msgKey;
+            if (msgClass === 0x01 && msgId === 0x07) readableName = "UBX-NAV-PVT";
+            else if (msgClass === 0x01 && msgId === 0x43) readableName = "UBX-NAV-SIG";
+            else if (msgClass === 0x27 && msgId === 0x09) readableName = "UBX-SEC-SIG";
+            else if (msgClass === 0x27 && msgId === 0x10) readableName = "UBX-SEC-SIGLOG";
+            else if (msgClass === 0x27 && msgId === 0x0A) readableName = "UBX-SEC-OSNMA";
+            else if (msgClass === 0x01 && msgId === 0x03) readableName = "UBX-NAV-STATUS";
+            else if (msgClass === 0x01 && msgId === 0x35) readableName = "UBX-NAV-SAT";
+            else if (msgClass === 0x01 && msgId === 0x20) readableName = "UBX-NAV-TIMEGPS";
+            else if (msgClass === 0x0A && msgId === 0x38) readableName = "UBX-MON-RF";
+            else if (msgClass === 0x0A && msgId === 0x31) readableName = "UBX-MON-SPAN";
           
-          incrementMsgCount(readableName);
-
-          // A. UBX-SEC-SIG (0x27 0x09)
-          if (msgClass === 0x27 && msgId === 0x09) {
-             const version = payload[0];
-             if (version === 2) {
-               const flags = payload[1];
-               const spfState = (flags >> 4) & 0x03;
-               currentEpoch.secSigState = spfState;
-             } else if (len >= 8 && version === 1) {
-                   const spfState = payload[6];
-                   currentEpoch.secSigState = spfState;
-             }
-          }
+            incrementMsgCount(readableName);
 
-          // B. UBX-NAV-SIG (0x01 0x43)
-          else if (msgClass === 0x01 && msgId === 0x43) {
-             if (len >= 8) {
-               const numSigs = payload[5];
-               let l1CnoSum = 0;
-               let l1Count = 0;
-               for (let s = 0; s < numSigs; s++) {
-                 const base = 8 + (s * 16);
-                 if (base + 16 <= len) {
-                   const gnssId = payload[base];
-                   const sigId = payload[base + 1];
-                   const cno = payload[base + 2];
-                   if (gnssId === 0 && sigId === 0) {
-                     l1CnoSum += cno;
-                     l1Count++;
+            // Pure UBX: every NAV message starts with iTOW, a change marks a new navigation epoch
+            if (msgClass === 0x01 && len >= 4 && !hasNmeaEpochs) {
+               const iTOW = (payload[0] | (payload[1] << 8) | (payload[2] << 16) | (payload[3] << 24)) >>> 0;
+               if (lastUbxItow !== -1 && iTOW !== lastUbxItow) {
+                 flushEpoch();
+               }
+               lastUbxItow = iTOW;
+            }
+
+            // A. UBX-SEC-SIG (0x27 0x09)
+            if (msgClass === 0x27 && msgId === 0x09) {
+               const version = payload[0];
+               if (version === 2) {
+                 const flags = payload[1];
+                 const spfState = (flags >> 4) & 0x03;
+                 currentEpoch.secSigState = spfState;
+               } else if (len >= 8 && version === 1) {
+                     const spfState = payload[6];
+                     currentEpoch.secSigState = spfState;
+               }
+            }
+
+            // A2. UBX-SEC-SIGLOG (0x27 0x10)
+            else if (msgClass === 0x27 && msgId === 0x10) {
+               if (len >= 8) {
+                 const numEvents = payload[1];
+                 // Repeated block (8 bytes) @8: timeElapsed U4 s (0), detectionType U1 (4), eventType U1 (5)
+                 for (let e = 0; e < numEvents; e++) {
+                   const base = 8 + (e * 8);
+                   if (base + 8 > len) break;
+                   const timeElapsed = (payload[base] | (payload[base + 1] << 8) | (payload[base + 2] << 16) | (payload[base + 3] << 24)) >>> 0;
+                   currentEpochEvents.push({
+                     elapsed: timeElapsed,
+                     source: 'UBX-SEC-SIGLOG',
+                     detector: siglogDetectionLabel(payload[base + 4]),
+                     eventType: siglogEventLabel(payload[base + 5])
+                   });
+                 }
+               }
+            }
+
+            // A3. UBX-SEC-OSNMA (0x27 0x0A)
+            else if (msgClass === 0x27 && msgId === 0x0A) {
+               // version U1 (0), status (1): bits 0-2 OSNMA state
+               if (len >= 2) {
+                 const state = payload[1] & 0x07;
+                 currentEpoch.osnmaState = state;
+                 if (state !== lastOsnmaState) {
+                   currentEpochEvents.push({ elapsed: 0, source: 'UBX-SEC-OSNMA', eventType: osnmaStateLabel(state), constellation: 'Galileo' });
+                   lastOsnmaState = state;
+                 }
+               }
+            }
+
+            // B. UBX-NAV-SIG (0x01 0x43)
+            else if (msgClass === 0x01 && msgId === 0x43) {
+               if (len >= 8) {
+                 const numSigs = payload[5];
+                 let l1CnoSum = 0;
+                 let l1Count = 0;
+                 let authCount = 0;
+                 // Repeated block (16 bytes): gnssId(0), svId(1), sigId(2), freqId(3), prRes(4-5),
+                 // cno(6), qualityInd(7), corrSource(8), ionoModel(9), sigFlags(10-11)
+                 for (let s = 0; s < numSigs; s++) {
+                   const base = 8 + (s * 16);
+                   if (base + 16 <= len) {
+                     const gnssId = payload[base];
+                     const svId = payload[base + 1];
+                     const sigId = payload[base + 2];
+                     const cno = payload[base + 6];
+                     const sigFlags = payload[base + 10] | (payload[base + 11] << 8);
+                     if (cno === 0) continue; // Not tracked
+                     const system = ubxGnssIdToSystem(gnssId);
+                     addSignalObservation(system, ubxSignalToBand(gnssId, sigId), svId, cno);
+                     if (sigFlags & 0x08) addUsedSv(system, svId); // prUsed
+                     if (gnssId === 2 && (sigFlags & 0x200)) authCount++; // Bit 9: authStatus (OSNMA)
+                     if (gnssId === 0 && sigId === 0) {
+                       l1CnoSum += cno;
+                       l1Count++;
+                     }
                    }
                  }
+                 if (l1Count > 0) {
+                   currentEpoch.gpsL1Cn0 = parseFloat((l1CnoSum / l1Count).toFixed(1));
+                 }
+                 // Only meaningful once OSNMA is running, otherwise every signal reads "not authenticated"
+                 if (lastOsnmaState >= 1) currentEpoch.authenticatedSignals = authCount;
                }
-               if (l1Count > 0) {
-                 currentEpoch.gpsL1Cn0 = parseFloat((l1CnoSum / l1Count).toFixed(1));
+            }
+
+            // B2. UBX-NAV-SAT (0x01 0x35)
+            else if (msgClass === 0x01 && msgId === 0x35) {
+               if (len >= 8) {
+                 const numSvs = payload[5];
+                 // Repeated block (12 bytes): gnssId(0), svId(1), cno(2), elev i1(3), azim i2(4-5),
+                 // prRes i2(6-7), flags X4(8-11): bit 3 svUsed
+                 for (let s = 0; s < numSvs; s++) {
+                   const base = 8 + (s * 12);
+                   if (base + 12 > len) break;
+                   const system = ubxGnssIdToSystem(payload[base]);
+                   const svId = payload[base + 1];
+                   const cno = payload[base + 2];
+                   const elev = (payload[base + 3] << 24) >> 24;
+                   const azim = (payload[base + 4] | (payload[base + 5] << 8)) << 16 >> 16;
+                   const flags = payload[base + 8];
+                   // Elevation/azimuth are only valid once the orbit is known (-91 = unknown)
+                   if (elev >= -90) updateSatelliteGeometry(system, svId, elev, azim);
+                   if (system !== 'Unknown' && cno > 0) {
+                     // NAV-SIG has per-band detail; NAV-SAT only fills in when it is absent
+                     const sat = getSatellite(system, svId);
+                     if (sat.snr === 0) sat.snr = cno;
+                   }
+                   if (flags & 0x08) addUsedSv(system, svId);
+                 }
                }
-             }
-          }
+            }
 
-          // C. UBX-NAV-PVT (0x01 0x07)
-          else if (msgClass === 0x01 && msgId === 0x07) {
-             if (len >= 22) {
-               const fixType = payload[20];
-               const flags = payload[21];
-               const gnssFixOK = (flags & 0x01) === 1;
-               currentEpoch.fixType = fixType;
-               currentEpoch.gnssFixOK = gnssFixOK;
-             }
-          }
+            // C. UBX-NAV-PVT (0x01 0x07)
+            else if (msgClass === 0x01 && msgId === 0x07) {
+               if (len >= 92) {
+                 const { utcSod, midnightMs, fields } = decodeNavPvt(payload);
+                 if (midnightMs !== undefined) anchorDate(midnightMs, utcSod);
+
+                 if (hasNmeaEpochs) {
+                   // NMEA drives epochs: attach to the matching GGA epoch, or hold until it arrives
+                   if (currentNmeaSod >= 0 && Math.abs(currentNmeaSod - utcSod) < 0.005) {
+                     mergePvtIntoEpoch(fields);
+                   } else {
+                     pendingPvt = { utcSod, fields };
+                   }
+                 } else {
+                   // Pure UBX: epoch already opened by the iTOW check above, NAV-PVT supplies its time
+                   setEpochTime(utcSod);
+                   Object.assign(currentEpoch, fields);
+                   // No GGA/GSA: fall back to the all-constellation NAV-PVT counts
+                   currentEpoch.satellitesUsed = fields.numSV;
+                   if (fields.lat !== undefined) currentEpoch.fixQuality = 1;
+                 }
+               } else if (len >= 22) {
+                 const fixType = payload[20];
+                 const flags = payload[21];
+                 const gnssFixOK = (flags & 0x01) === 1;
+                 currentEpoch.fixType = fixType;
+                 currentEpoch.gnssFixOK = gnssFixOK;
+               }
+            }
           
-          // D. UBX-NAV-STATUS
-          else if (msgClass === 0x01 && msgId === 0x03) {
-             if (len >= 16) {
-               const flags2 = payload[13];
-               const spoofDetState = (flags2 >> 3) & 0x03;
-               currentEpoch.spoofingState = spoofDetState;
-             }
-          }
+            // C2. UBX-NAV-TIMEGPS (0x01 0x20)
+            else if (msgClass === 0x01 && msgId === 0x20) {
+               // iTOW U4 ms (0), fTOW I4 ns (4), week I2 (8), leapS I1 (10),
+               // valid X1 (11): bit 0 towValid, bit 1 weekValid, bit 2 leapSValid
+               if (len >= 12) {
+                 const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+                 const valid = payload[11];
+                 if (valid & 0x04) leapSeconds = view.getInt8(10);
+                 if ((valid & 0x03) === 0x03) {
+                   anchorGpsTime(view.getInt16(8, true), view.getUint32(0, true) + view.getInt32(4, true) / 1e6);
+                 }
+               }
+            }
 
-          i += 6 + len + 2; 
-          continue;
+            // D. UBX-NAV-STATUS
+            else if (msgClass === 0x01 && msgId === 0x03) {
+               if (len >= 16) {
+                 const flags2 = payload[13];
+                 const spoofDetState = (flags2 >> 3) & 0x03;
+                 currentEpoch.spoofingState = spoofDetState;
+               }
+            }
+
+            // E. UBX-MON-RF (0x0A 0x38)
+            else if (msgClass === 0x0A && msgId === 0x38) {
+               if (len >= 4) {
+                 const nBlocks = payload[1];
+                 // Repeated block (24 bytes): blockId(0), flags(1): bits 0-1 jammingState, antStatus(2),
+                 // antPower(3), postStatus U4(4), noisePerMS U2(12), agcCnt U2(14), jamInd U1(16)
+                 const blocks: RfBlockStatus[] = [];
+                 for (let b = 0; b < nBlocks; b++) {
+                   const base = 4 + (b * 24);
+                   if (base + 24 > len) break;
+                   const blockId = payload[base];
+                   blocks.push({
+                     id: blockId,
+                     label: ubxRfBlockLabel(blockId),
+                     jammingState: payload[base + 1] & 0x03,
+                     noisePerMS: payload[base + 12] | (payload[base + 13] << 8),
+                     agcPercent: parseFloat((((payload[base + 14] | (payload[base + 15] << 8)) / 8191) * 100).toFixed(1)),
+                     cwJamInd: payload[base + 16]
+                   });
+                 }
+                 if (blocks.length > 0) {
+                   currentEpoch.rfBlocks = blocks;
+                   currentEpoch.jammingState = Math.max(...blocks.map(b => b.jammingState!));
+                   currentEpoch.cwJamInd = Math.max(...blocks.map(b => b.cwJamInd!));
+                   currentEpoch.noisePerMS = Math.max(...blocks.map(b => b.noisePerMS!));
+                   currentEpoch.agcPercent = parseFloat((blocks.reduce((acc, b) => acc + b.agcPercent!, 0) / blocks.length).toFixed(1));
+                 }
+               }
+            }
+
+            // F. UBX-MON-SPAN (0x0A 0x31)
+            else if (msgClass === 0x0A && msgId === 0x31) {
+               if (len >= 4) {
+                 const numRfBlocks = payload[1];
+                 const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+                 // Repeated block (272 bytes): spectrum[256] U1 (0.25 dB), span U4 Hz (256),
+                 // res U4 Hz (260), center U4 Hz (264), pga U1 dB (268)
+                 const spectra: SpectrumBlock[] = [];
+                 for (let b = 0; b < numRfBlocks; b++) {
+                   const base = 4 + (b * 272);
+                   if (base + 272 > len) break;
+                   spectra.push({
+                     rfBlock: b,
+                     bins: payload.slice(base, base + 256),
+                     spanMHz: view.getUint32(base + 256, true) / 1e6,
+                     resKHz: view.getUint32(base + 260, true) / 1e3,
+                     centerMHz: view.getUint32(base + 264, true) / 1e6,
+                     pgaGainDb: payload[base + 268]
+                   });
+                 }
+                 if (spectra.length > 0) currentEpoch.spectra = spectra;
+               }
+            }
+
+            i += 6 + len + 2; 
+            continue;
+          }
         }
       }
-    }
 
-    // --- 3. SBF Handling ($@) ---
-    // Header (8 bytes): Sync(2, $ @), CRC(2), ID(2), Length(2)
-    // ID: Bits 0-12 Block Number, 13-15 Revision
-    if (byte === 0x24 && i + 1 < totalLength && uint8Array[i+1] === 0x40) {
-         if (i + 8 <= totalLength) {
-             const idBytes = uint8Array.slice(i+4, i+6);
-             const blockId = idBytes[0] | (idBytes[1] << 8);
-             const blockNumber = blockId & 0x1FFF;
+      // --- 3. SBF Handling ($@) ---
+      // Header (8 bytes): Sync(2, $ @), CRC(2), ID(2), Length(2)
+      // ID: Bits 0-12 Block Number, 13-15 Revision
+      if (byte === 0x24 && i + 1 < totalLength && uint8Array[i+1] === 0x40) {
+           if (i + 8 > totalLength && !finalChunk) break;
+           if (i + 8 <= totalLength) {
+               const idBytes = uint8Array.slice(i+4, i+6);
+               const blockId = idBytes[0] | (idBytes[1] << 8);
+               const blockNumber = blockId & 0x1FFF;
              
-             const lenBytes = uint8Array.slice(i+6, i+8);
-             const length = lenBytes[0] | (lenBytes[1] << 8);
+               const lenBytes = uint8Array.slice(i+6, i+8);
+               const length = lenBytes[0] | (lenBytes[1] << 8);
 
-             if (i + length <= totalLength) {
-                 const payload = uint8Array.slice(i+8, i+length);
-                 // Header is 8 bytes. Payload starts after header.
-                 // Time stamps (TOW u4, WNc u2) are always first 6 bytes of payload for blocks with time.
-                 
-                 const tow = payload[0] | (payload[1] << 8) | (payload[2] << 16) | (payload[3] << 24);
+               // SBF block lengths are always a multiple of 4 and include the 8-byte header
+               if (length < 8 || length % 4 !== 0) {
+                   recordBadFrame('SBF', i, `Invalid length ${length}`);
+                   integrity.bytesSkipped++;
+                   i++;
+                   continue;
+               }
+
+               if (i + length > totalLength && !finalChunk) break;
+               if (i + length <= totalLength) {
+                   if (!sbfCrcOk(uint8Array, i, length)) {
+                       recordBadFrame('SBF', i, 'CRC mismatch');
+                       integrity.bytesSkipped++;
+                       i++;
+                       continue;
+                   }
+                   integrity.frames.SBF.good++;
+
+                   const payload = uint8Array.slice(i+8, i+length);
+                   // Header is 8 bytes. Payload starts after header.
+                   // Time stamps (TOW u4, WNc u2) are always first 6 bytes of payload for blocks with time.
                  
-                 // If TOW changed and is valid, flush previous epoch
-                 if (tow !== 4294967295) {
-                    if (lastSbfTow !== -1 && tow !== lastSbfTow) {
-                        flushEpoch();
-                    }
-                    lastSbfTow = tow;
+                   const tow = (payload[0] | (payload[1] << 8) | (payload[2] << 16) | (payload[3] << 24)) >>> 0;
+                   const wnc = payload[4] | (payload[5] << 8);
+
+                   // SBF: ReceiverTime (5914) - DeltaLS i1 @12 (-128 = unknown)
+                   if (blockNumber === 5914 && payload.length > 12) {
+                       incrementMsgCount("SBF-ReceiverTime");
+                       const deltaLs = (payload[12] << 24) >> 24;
+                       if (deltaLs !== -128) leapSeconds = deltaLs;
+                   }
+
+                   // If TOW changed and is valid, flush previous epoch
+                   if (tow !== 4294967295 && wnc !== 65535) {
+                      if (lastSbfTow !== -1 && tow !== lastSbfTow) {
+                          flushEpoch();
+                      }
+                      lastSbfTow = tow;
                     
-                    // Set timestamp from SBF if not already set by NMEA this epoch
-                    if (!currentEpoch.timestamp) {
-                         const tSecs = tow / 1000;
-                         if (startTime === 0) startTime = tSecs;
-                         currentEpoch.timeSeconds = tSecs - startTime;
-                         const hours = Math.floor((tSecs % 86400) / 3600);
-                         const mins = Math.floor((tSecs % 3600) / 60);
-                         const secs = Math.floor(tSecs % 60);
-                         currentEpoch.timestamp = `${hours.toString().padStart(2,'0')}:${mins.toString().padStart(2,'0')}:${secs.toString().padStart(2,'0')}`;
-                    }
-                 }
+                      // Set timestamp from SBF if not already set by NMEA this epoch.
+                      // TOW is GPS time, so go through the absolute time to get UTC across week ends.
+                      if (!currentEpoch.timestamp) {
+                           setEpochTime(anchorGpsTime(wnc, tow));
+                      }
+                   }
 
-                 // SBF: RFStatus (4092)
-                 if (blockNumber === 4092) {
-                     incrementMsgCount("SBF-RFStatus");
-                     // Offset in payload: TOW(4)+WNc(2)+N(1)+SBLen(1) = 8 bytes.
-                     // Byte 8 is Flags.
-                     if (payload.length > 8) {
-                        const flags = payload[8];
-                        const spoofing = (flags & 0x01) !== 0; // Bit 0
-                        // Map to shared state: 1=Safe, 3=Confirmed Spoofing (Alert)
-                        currentEpoch.secSigState = spoofing ? 3 : 1;
-                     }
-                 }
+                   // SBF: RFStatus (4092)
+                   if (blockNumber === 4092) {
+                       incrementMsgCount("SBF-RFStatus");
+                       // Offset in payload: TOW(4)+WNc(2)+N(1)+SBLen(1) = 8 bytes.
+                       // Byte 8 is Flags.
+                       if (payload.length > 8) {
+                          const flags = payload[8];
+                          const spoofing = (flags & 0x01) !== 0; // Bit 0
+                          // Map to shared state: 1=Safe, 3=Confirmed Spoofing (Alert)
+                          currentEpoch.secSigState = spoofing ? 3 : 1;
+
+                          // N(1) @6, SBLength(1) @7, then RFBand sub-blocks @12:
+                          // Frequency u4 Hz (0), Bandwidth u2 kHz (4), Info u1 (6): bits 0-3 mode, 6-7 antenna
+                          const n = payload[6];
+                          const sbLen = payload[7];
+                          const bands: InterferenceBand[] = [];
+                          for (let k = 0; k < n; k++) {
+                              const ptr = 12 + k * sbLen;
+                              if (ptr + 7 > payload.length) break;
+                              const freq = (payload[ptr] | (payload[ptr+1] << 8) | (payload[ptr+2] << 16) | (payload[ptr+3] << 24)) >>> 0;
+                              const info = payload[ptr+6];
+                              bands.push({
+                                  frequencyMHz: freq / 1e6,
+                                  bandwidthKHz: payload[ptr+4] | (payload[ptr+5] << 8),
+                                  mode: info & 0x0F,
+                                  antenna: info >> 6
+                              });
+                          }
+                          currentEpoch.interferenceBands = bands;
+                       }
+                   }
+
+                   // SBF: ReceiverStatus (4014) - Front-end AGC
+                   else if (blockNumber === 4014) {
+                       incrementMsgCount("SBF-ReceiverStatus");
+                       // N(1) @20, SBLength(1) @21, AGCState sub-blocks @24:
+                       // FrontendID u1 (0): bits 0-4 code, 5-7 antenna; Gain i1 dB (1); SampleVar (2); BlankingStat % (3)
+                       if (payload.length > 24) {
+                           const n = payload[20];
+                           const sbLen = payload[21];
+                           const blocks: RfBlockStatus[] = [];
+                           for (let k = 0; k < n; k++) {
+                               const ptr = 24 + k * sbLen;
+                               if (ptr + 4 > payload.length) break;
+                               const frontendId = payload[ptr];
+                               const gain = (payload[ptr+1] << 24) >> 24;
+                               if (gain === -128) continue; // Do-Not-Use
+                               blocks.push({
+                                   id: frontendId & 0x1F,
+                                   label: sbfFrontendLabel(frontendId & 0x1F),
+                                   antenna: frontendId >> 5,
+                                   agcGainDb: gain,
+                                   blankingPercent: payload[ptr+3]
+                               });
+                           }
+                           if (blocks.length > 0) {
+                               currentEpoch.rfBlocks = blocks;
+                               currentEpoch.agcGainDb = parseFloat((blocks.reduce((acc, b) => acc + b.agcGainDb!, 0) / blocks.length).toFixed(1));
+                           }
+                       }
+                   }
                  
-                 // SBF: PVTGeodetic (4007)
-                 else if (blockNumber === 4007) {
-                     incrementMsgCount("SBF-PVTGeodetic");
-                     // Payload: TOW(4)+WNc(2)+Mode(1)+Error(1) = 8 bytes.
-                     // Lat (8 bytes, float64) at index 8
-                     // Lon (8 bytes, float64) at index 16
-                     // Height (8 bytes, float64) at index 24
-                     if (payload.length >= 24) {
-                        const latBuf = payload.slice(8, 16).buffer;
-                        const lonBuf = payload.slice(16, 24).buffer;
-                        // Need to ensure alignment or copy slice
-                        const latVal = new Float64Array(latBuf)[0];
-                        const lonVal = new Float64Array(lonBuf)[0];
+                   // SBF: PVTGeodetic (4007)
+                   else if (blockNumber === 4007) {
+                       incrementMsgCount("SBF-PVTGeodetic");
+                       // Payload: TOW(4)+WNc(2)+Mode(1)+Error(1) = 8 bytes.
+                       // Lat (8 bytes, float64) at index 8
+                       // Lon (8 bytes, float64) at index 16
+                       // Height (8 bytes, float64) at index 24
+                       if (payload.length >= 24) {
+                          const latBuf = payload.slice(8, 16).buffer;
+                          const lonBuf = payload.slice(16, 24).buffer;
+                          // Need to ensure alignment or copy slice
+                          const latVal = new Float64Array(latBuf)[0];
+                          const lonVal = new Float64Array(lonBuf)[0];
                         
-                        // -2e10 is Do-Not-Use
-                        if (latVal > -1e10 && lonVal > -1e10) {
-                            currentEpoch.lat = latVal * 180 / Math.PI; // SBF uses Radians
-                            currentEpoch.lon = lonVal * 180 / Math.PI;
-                            currentEpoch.fixQuality = 1; // Assume valid fix if position valid
-                        }
-                     }
-                 }
+                          // -2e10 is Do-Not-Use
+                          if (latVal > -1e10 && lonVal > -1e10) {
+                              currentEpoch.lat = latVal * 180 / Math.PI; // SBF uses Radians
+                              currentEpoch.lon = lonVal * 180 / Math.PI;
+                              currentEpoch.fixQuality = 1; // Assume valid fix if position valid
+                          }
+                       }
+                   }
 
-                 // SBF: MeasEpoch (4027)
-                 else if (blockNumber === 4027) {
-                     incrementMsgCount("SBF-MeasEpoch");
-                     // Parse GPS L1 C/N0
-                     // Payload Header: TOW(4)+WNc(2)=6 bytes
-                     // N1(1) @6, SB1Len(1) @7, SB2Len(1) @8, CommonFlags(1) @9
-                     // CumClkJumps(1) @10, Reserved(1) @11
-                     // Type1 Sub-blocks start @12
+                   // SBF: MeasEpoch (4027)
+                   else if (blockNumber === 4027) {
+                       incrementMsgCount("SBF-MeasEpoch");
+                       // Parse GPS L1 C/N0
+                       // Payload Header: TOW(4)+WNc(2)=6 bytes
+                       // N1(1) @6, SB1Len(1) @7, SB2Len(1) @8, CommonFlags(1) @9
+                       // CumClkJumps(1) @10, Reserved(1) @11
+                       // Type1 Sub-blocks start @12
                      
-                     if (payload.length > 12) {
-                         const n1 = payload[6];
-                         const sb1Len = payload[7];
-                         const sb2Len = payload[8];
-                         let ptr = 12;
-
-                         for (let k = 0; k < n1; k++) {
-                             if (ptr + 19 > payload.length) break;
-                             
-                             const type = payload[ptr+1];
-                             const sigType = type & 0x1F; // Lower 5 bits
+                       if (payload.length > 12) {
+                           const n1 = payload[6];
+                           const sb1Len = payload[7];
+                           const sb2Len = payload[8];
+                           let ptr = 12;
+
+                           // Signal type: bits 0-4 of Type, 31 means "see ObsInfo bits 3-7" (+32)
+                           const decodeSigType = (type: number, obsInfo: number) => {
+                               const sig = type & 0x1F;
+                               return sig === 31 ? 32 + ((obsInfo >> 3) & 0x1F) : sig;
+                           };
+                           // C/N0: 0.25 dB-Hz resolution, +10 offset except for GPS L1P/L2P
+                           const decodeCn0 = (raw: number, sigType: number) =>
+                               (sigType === 1 || sigType === 2) ? raw * 0.25 : raw * 0.25 + 10;
+
+                           for (let k = 0; k < n1; k++) {
+                               if (ptr + 20 > payload.length) break;
                              
-                             // GPS L1CA is signal type 0
-                             if (sigType === 0) {
-                                 const cn0Raw = payload[ptr+15];
-                                 if (cn0Raw !== 255) {
-                                     const cn0Val = cn0Raw * 0.25 + 10;
-                                     currentEpochGpsSnrs.push(cn0Val);
-                                     
-                                     const svid = payload[ptr+2];
-                                     currentEpochGpsSvs.add(svid);
-                                 }
-                             }
+                               const type = payload[ptr+1];
+                               const antenna = type >> 5;
+                               const svid = payload[ptr+2];
+                               const sigType = decodeSigType(type, payload[ptr+18]);
+                               const cn0Raw = payload[ptr+15];
+                               const n2 = payload[ptr+19];
+                               const { system, prn } = sbfSvidToSystem(svid);
+
+                               // Only the main antenna feeds the constellation statistics
+                               if (antenna === 0 && cn0Raw !== 255) {
+                                   const cn0Val = decodeCn0(cn0Raw, sigType);
+                                   addSignalObservation(system, sbfSignalType(sigType).band, prn, cn0Val);
+
+                                   // GPS L1CA is signal type 0
+                                   if (sigType === 0) {
+                                       currentEpochGpsSnrs.push(cn0Val);
+                                       currentEpochGpsSvs.add(svid);
+                                   }
+                               }
+
+                               // Type2 sub-blocks: other signals of the same satellite
+                               let ptr2 = ptr + sb1Len;
+                               for (let m = 0; m < n2; m++) {
+                                   if (ptr2 + 6 > payload.length) break;
+                                   const type2 = payload[ptr2];
+                                   const cn0Raw2 = payload[ptr2+2];
+                                   if ((type2 >> 5) === 0 && cn0Raw2 !== 255) {
+                                       const sigType2 = decodeSigType(type2, payload[ptr2+5]);
+                                       addSignalObservation(system, sbfSignalType(sigType2).band, prn, decodeCn0(cn0Raw2, sigType2));
+                                   }
+                                   ptr2 += sb2Len;
+                               }
                              
-                             const n2 = payload[ptr+19];
-                             ptr += sb1Len + (n2 * sb2Len);
-                         }
-                     }
-                 }
+                               ptr += sb1Len + (n2 * sb2Len);
+                           }
+                       }
+                   }
+
+                   // SBF: SatVisibility (4012) - Azimuth/Elevation per satellite
+                   else if (blockNumber === 4012) {
+                       incrementMsgCount("SBF-SatVisibility");
+                       // N(1) @6, SBLength(1) @7, SatInfo @8:
+                       // SVID(0), FreqNr(1), Azimuth u2 0.01deg (2), Elevation i2 0.01deg (4), RiseSet(6), SatelliteInfo(7)
+                       if (payload.length > 8) {
+                           const n = payload[6];
+                           const sbLen = payload[7];
+                           const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+                           for (let k = 0; k < n; k++) {
+                               const ptr = 8 + k * sbLen;
+                               if (ptr + 8 > payload.length) break;
+                               const { system, prn } = sbfSvidToSystem(payload[ptr]);
+                               const azRaw = view.getUint16(ptr + 2, true);
+                               const elRaw = view.getInt16(ptr + 4, true);
+                               updateSatelliteGeometry(system, prn,
+                                   elRaw === -32768 ? NaN : elRaw / 100,
+                                   azRaw === 65535 ? NaN : azRaw / 100);
+                           }
+                       }
+                   }
+
+                   // SBF: ChannelStatus (4013) - Satellites used in the PVT
+                   else if (blockNumber === 4013) {
+                       incrementMsgCount("SBF-ChannelStatus");
+                       // N(1) @6, SB1Length(1) @7, SB2Length(1) @8, Reserved(3) @9
+                       // ChannelSatInfo: SVID(0) ... N2(9); then N2 x ChannelStateInfo:
+                       // Antenna(0), TrackingStatus u2 (2), PVTStatus u2 (4): 2 bits per signal, 2 = used
+                       if (payload.length > 12) {
+                           const n = payload[6];
+                           const sb1Len = payload[7];
+                           const sb2Len = payload[8];
+                           let ptr = 12;
+                           for (let k = 0; k < n; k++) {
+                               if (ptr + 12 > payload.length) break;
+                               const svid = payload[ptr];
+                               const n2 = payload[ptr+9];
+                               const { system, prn } = sbfSvidToSystem(svid);
+                               // Azimuth: bits 0-8 (511 = unknown), Elevation i1 (-128 = unknown)
+                               const azimuth = (payload[ptr+4] | (payload[ptr+5] << 8)) & 0x1FF;
+                               const elevation = (payload[ptr+8] << 24) >> 24;
+                               updateSatelliteGeometry(system, prn,
+                                   elevation === -128 ? NaN : elevation,
+                                   azimuth === 511 ? NaN : azimuth);
+                               let ptr2 = ptr + sb1Len;
+                               for (let m = 0; m < n2; m++) {
+                                   if (ptr2 + 8 > payload.length) break;
+                                   const pvtStatus = payload[ptr2+4] | (payload[ptr2+5] << 8);
+                                   for (let b = 0; b < 16; b += 2) {
+                                       if (((pvtStatus >> b) & 0x03) === 2) {
+                                           addUsedSv(system, prn);
+                                           break;
+                                       }
+                                   }
+                                   ptr2 += sb2Len;
+                               }
+                               ptr += sb1Len + (n2 * sb2Len);
+                           }
+                       }
+                   }
                  
-                 // SBF: PVTGeodetic (4007) - Extract NrSV
-                 // Re-visiting 4007 to extract NrSV (Number of satellites used in PVT)
-                 if (blockNumber === 4007 && payload.length >= 41) {
-                     const nrSv = payload[40];
-                     if (nrSv !== 255) {
-                         currentEpoch.satellitesUsed = nrSv;
-                     }
-                 }
+                   // SBF: PVTGeodetic (4007) - Extract NrSV
+                   // Re-visiting 4007 to extract NrSV (Number of satellites used in PVT)
+                   // Offset: ... RxClkDrift f4 @60, TimeSystem @64, Datum @65, NrSV @66
+                   if (blockNumber === 4007 && payload.length >= 67) {
+                       const nrSv = payload[66];
+                       if (nrSv !== 255) {
+                           currentEpoch.satellitesUsed = nrSv;
+                       }
+                   }
                  
-                 i += length;
-                 continue;
-             }
-         }
+                   i += length;
+                   continue;
+               }
+           }
+      }
+
+      // Not part of any valid frame (line endings between NMEA sentences are expected)
+      if (byte !== 0x0A && byte !== 0x0D) integrity.bytesSkipped++;
+      i++;
+    }
+    return i;
+  };
+
+  // Stream the file slice by slice; only the unparsed tail of a slice is kept. A piece reads past
+  // its end only as far as needed to finish the frame that starts before it.
+  const started = performance.now();
+  let lastProgress = started;
+  let fileOffset = bufferOffset;
+  // Compressed input comes from the decompressing stream instead; progress counts compressed bytes.
+  // Data that ends early (a log gzipped while still being written) or is corrupt ends the parse
+  // there, and what was decoded up to that point is kept.
+  let compressedRead = 0;
+  const chunks = source ? decompressedChunks(file, source, (bytes) => { compressedRead += bytes; }) : null;
+  const progressTotal = source ? compressedSize(file, source) : end - start;
+  do {
+    let chunk: Uint8Array;
+    if (chunks) {
+      try {
+        const next = await chunks.next();
+        chunk = next.done === true ? new Uint8Array(0) : next.value;
+      } catch (err) {
+        integrity.archiveError = err instanceof Error ? err.message : String(err);
+        chunk = new Uint8Array(0);
+      }
+      finalChunk = chunk.byteLength === 0;
+    } else {
+      const sliceEnd = fileOffset < end ? Math.min(fileOffset + CHUNK_BYTES, end) : fileOffset + 64 * 1024;
+      chunk = new Uint8Array(await file.slice(fileOffset, sliceEnd).arrayBuffer());
+      finalChunk = fileOffset + chunk.byteLength >= file.size || chunk.byteLength === 0;
     }
+    fileOffset += chunk.byteLength;
+    if (totalLength > 0) {
+      const joined = new Uint8Array(totalLength + chunk.byteLength);
+      joined.set(uint8Array);
+      joined.set(chunk, totalLength);
+      uint8Array = joined;
+    } else {
+      uint8Array = chunk;
+    }
+    totalLength = uint8Array.byteLength;
+    const consumed = parseBuffer();
+    uint8Array = uint8Array.slice(consumed);
+    totalLength = uint8Array.byteLength;
+    bufferOffset += consumed;
+
+    const now = performance.now();
+    if (!finalChunk && !reachedEnd && now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      const batch = epochs.take();
+      const bytesRead = source ? compressedRead : Math.max(0, bufferOffset - start);
+      const rate = bytesRead / (now - started); // Bytes per ms
+      self.postMessage({
+        type: 'progress',
+        progress: {
+          bytesRead,
+          totalBytes: progressTotal,
+          epochs: epochCount,
+          etaSeconds: rate > 0 ? (progressTotal - bytesRead) / rate / 1000 : undefined,
+          lastTimestamp
+        },
+        data: batch,
+        securityEvents: securityEvents.splice(0),
+        // What the main thread needs to show the epochs so far as a partial log
+        messageCounts,
+        integrity,
+        firstDayMs,
+        startTime: startTime >= 0 ? startTime : null
+      }, { transfer: epochTableBuffers(batch) });
+    }
+  } while (!finalChunk && !reachedEnd);
+
+  // Push final epoch (an earlier piece leaves the epoch open at its end to the next one)
+  if (lastPiece) flushEpoch();
+  if (source) integrity.totalBytes = fileOffset;
 
-    i++;
+  // The date may only be known after the first epochs (RMC/ZDA late in the log, NAV-PVT validDate):
+  // epochs already handed over are dated when the pieces are merged, from the same date and scale
+  const data = epochs.take();
+  if (firstDayMs !== null) {
+    for (let idx = 0; idx < data.length; idx++) {
+      if (!hasValue(data, 'utcMs', idx)) setEpochValue(data, 'utcMs', idx, utcMsAt(data.timeSeconds[idx])!);
+    }
   }
+  securityEvents.forEach(e => {
+    if (e.utcMs === undefined) e.utcMs = utcMsAt(e.timeSeconds);
+  });
 
-  // Push final epoch
-  flushEpoch();
+  self.postMessage({
+    type: 'done',
+    data,
+    rawText: extractedText,
+    messageCounts,
+    integrity,
+    securityEvents,
+    firstDayMs,
+    startTime: startTime >= 0 ? startTime : null,
+    // State at the end of the piece (NaN/undefined if still unknown), inherited by the next one
+    finalState: { secSigState: lastSecSigState, gpsL1Cn0: lastGpsL1Cn0, fixType: lastFixType, gnssFixOK: lastGnssFixOK },
+    resolvedGpsL1Cn0
+  }, { transfer: epochTableBuffers(data) });
+};
 
-  self.postMessage({ data: dataPoints, rawText: extractedText, messageCounts });
-};
\ No newline at end of file
+// A rejected read (the file changed on disk while being parsed) or a parser exception would otherwise
+// be an unhandled rejection the main thread never hears about, leaving the parse running forever
+self.onmessage = async (e: MessageEvent) => {
+  try {
+    await parseRange(e);
+  } catch (err) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? `${err.name}: ${err.message}` : String(err) });
+  }
+};
@@ -0,0 +1,210 @@
+import { AttackWindow, EpochTable, PositionError, PositionErrorStats, ReferenceSample, ReferenceSource } from '../types';
+import { DAY_MS, parseNmeaDate } from './utcTime';
+import { hasPosition, hasValue } from './epochTable';
+import { parseTimeInput } from './scorecard';
+import { localProjection } from './trajectoryMap';
+
+// Reference samples further apart than this are a gap: epochs inside it get no error
+const MAX_INTERPOLATION_GAP_MS = 5000;
+
+// Time of day that went backwards by more than half a day crossed midnight
+const unwrapTimeOfDay = (samples: ReferenceSample[]) => {
+  let dayOffset = 0;
+  for (let k = 1; k < samples.length; k++) {
+    samples[k].timeMs += dayOffset;
+    if (samples[k].timeMs < samples[k - 1].timeMs - DAY_MS / 2) {
+      dayOffset += DAY_MS;
+      samples[k].timeMs += DAY_MS;
+    }
+  }
+};
+
+// --- GPX: <trkpt|rtept|wpt lat lon><ele/><time/></...> ---
+const parseGpx = (text: string) => {
+  const samples: ReferenceSample[] = [];
+  const pointRegex = /<(trkpt|rtept|wpt)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pointRegex.exec(text)) !== null) {
+    const lat = parseFloat(/lat\s*=\s*["']([^"']+)["']/.exec(match[2])?.[1] ?? '');
+    const lon = parseFloat(/lon\s*=\s*["']([^"']+)["']/.exec(match[2])?.[1] ?? '');
+    const time = /<time>([^<]+)<\/time>/.exec(match[3])?.[1];
+    const ele = /<ele>([^<]+)<\/ele>/.exec(match[3])?.[1];
+    const timeMs = time ? parseTimeInput(time) : undefined;
+    if (isNaN(lat) || isNaN(lon) || timeMs === undefined) continue;
+    const alt = ele !== undefined ? parseFloat(ele) : NaN;
+    samples.push({ timeMs, lat, lon, alt: isNaN(alt) ? undefined : alt });
+  }
+  return samples;
+};
+
+// --- NMEA: GGA positions, dated by the latest RMC (time of day only without one) ---
+const nmeaCoordinate = (value: string, hemisphere: string) => {
+  const raw = parseFloat(value);
+  if (isNaN(raw)) return undefined;
+  const degrees = Math.floor(raw / 100);
+  const result = degrees + (raw - degrees * 100) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -result : result;
+};
+
+const nmeaTimeOfDay = (value: string) => {
+  if (!value || value.length < 6) return undefined;
+  const ms = (parseInt(value.slice(0, 2)) * 3600 + parseInt(value.slice(2, 4)) * 60 + parseFloat(value.slice(4))) * 1000;
+  return isNaN(ms) ? undefined : ms;
+};
+
+const parseNmeaReference = (text: string) => {
+  const samples: ReferenceSample[] = [];
+  let dateMs: number | undefined;
+  let lastTod = -1;
+  text.split(/\r?\n/).forEach(line => {
+    const parts = line.trim().split('*')[0].split(',');
+    const type = parts[0].slice(3);
+    if (type === 'RMC') {
+      dateMs = parseNmeaDate(parts[9]) ?? dateMs;
+      return;
+    }
+    if (type !== 'GGA' || parts[6] === '0') return;
+    const tod = nmeaTimeOfDay(parts[1]);
+    const lat = nmeaCoordinate(parts[2], parts[3]);
+    const lon = nmeaCoordinate(parts[4], parts[5]);
+    if (tod === undefined || lat === undefined || lon === undefined) return;
+    // A GGA just after midnight can arrive before that day's RMC
+    if (dateMs !== undefined && lastTod >= 0 && tod < lastTod - DAY_MS / 2) dateMs += DAY_MS;
+    lastTod = tod;
+    const alt = parseFloat(parts[9]);
+    samples.push({ timeMs: (dateMs ?? 0) + tod, lat, lon, alt: isNaN(alt) ? undefined : alt });
+  });
+  if (dateMs === undefined) unwrapTimeOfDay(samples);
+  return samples;
+};
+
+// --- CSV: time, lat, lon[, alt]; columns found by header name when there is one ---
+const CSV_COLUMNS: Record<'time' | 'lat' | 'lon' | 'alt', RegExp> = {
+  time: /^(utc|time|timestamp|datetime|date_?time|gps_?time|t)(\b|_|\s|\()/i,
+  lat: /^lat(itude)?\b/i,
+  lon: /^(lon|lng|long|longitude)\b/i,
+  alt: /^(alt|altitude|height|ele|elevation|h|msl)\b/i
+};
+
+// Numbers are Unix ms (large values) or seconds (Unix, or of the day); strings go through parseTimeInput
+const csvTime = (value: string) => {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return parseTimeInput(value);
+  const v = parseFloat(value);
+  return v > 1e11 ? v : v * 1000;
+};
+
+const parseCsvReference = (text: string) => {
+  const rows = text.split(/\r?\n/).map(line => line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, ''))).filter(r => r.length >= 3);
+  if (rows.length === 0) return [];
+  let columns = { time: 0, lat: 1, lon: 2, alt: 3 };
+  const header = rows[0];
+  if (header.every(cell => isNaN(parseFloat(cell)) || /[a-z]{3,}/i.test(cell)) && header.some(cell => CSV_COLUMNS.lat.test(cell))) {
+    const find = (key: keyof typeof CSV_COLUMNS) => header.findIndex(cell => CSV_COLUMNS[key].test(cell));
+    columns = { time: find('time'), lat: find('lat'), lon: find('lon'), alt: find('alt') };
+    rows.shift();
+  }
+  const samples: ReferenceSample[] = [];
+  rows.forEach(row => {
+    const timeMs = columns.time >= 0 ? csvTime(row[columns.time] ?? '') : undefined;
+    const lat = parseFloat(row[columns.lat]);
+    const lon = parseFloat(row[columns.lon]);
+    if (timeMs === undefined || isNaN(lat) || isNaN(lon)) return;
+    const alt = columns.alt >= 0 ? parseFloat(row[columns.alt]) : NaN;
+    samples.push({ timeMs, lat, lon, alt: isNaN(alt) ? undefined : alt });
+  });
+  if (samples.length > 0 && samples[0].timeMs < DAY_MS) unwrapTimeOfDay(samples);
+  return samples;
+};
+
+// Reference trajectory from a GPX, NMEA or CSV file. Samples come back sorted by time.
+export const parseReferenceTrajectory = (text: string): ReferenceSample[] => {
+  const trimmed = text.trimStart();
+  let samples: ReferenceSample[];
+  if (trimmed.startsWith('<')) samples = parseGpx(text);
+  else if (trimmed.startsWith('$') || /^\$..GGA,/m.test(text)) samples = parseNmeaReference(text);
+  else samples = parseCsvReference(text);
+  return samples.sort((a, b) => a.timeMs - b.timeMs);
+};
+
+// Reference position at time t (same time base as the samples), linear between samples
+const interpolate = (samples: ReferenceSample[], t: number): ReferenceSample | undefined => {
+  const n = samples.length;
+  if (n === 0 || t < samples[0].timeMs || t > samples[n - 1].timeMs) return undefined;
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].timeMs <= t) lo = mid;
+    else hi = mid;
+  }
+  const a = samples[lo];
+  const b = samples[hi];
+  if (b.timeMs - a.timeMs > MAX_INTERPOLATION_GAP_MS) return undefined;
+  const f = b.timeMs > a.timeMs ? (t - a.timeMs) / (b.timeMs - a.timeMs) : 0;
+  return {
+    timeMs: t,
+    lat: a.lat + (b.lat - a.lat) * f,
+    lon: a.lon + (b.lon - a.lon) * f,
+    alt: a.alt !== undefined && b.alt !== undefined ? a.alt + (b.alt - a.alt) * f : undefined
+  };
+};
+
+// Per-epoch error against the reference (undefined without a fix or reference at that time).
+// times are the epochs' shared-timeline positions (ms, clock offset applied).
+export const computePositionErrors = (
+  data: EpochTable,
+  times: ArrayLike<number>,
+  reference: ReferenceSource
+): (PositionError | undefined)[] => {
+  const dated = reference.kind === 'trajectory' && reference.samples.length > 0 && reference.samples[0].timeMs >= DAY_MS;
+  const pointProjection = reference.kind === 'point' ? localProjection(reference.lat, reference.lon) : undefined;
+  const { lat, lon, alt } = data.floats;
+  return Array.from({ length: data.length }, (_, idx) => {
+    if (!hasPosition(data, idx) || (hasValue(data, 'fixQuality', idx) && data.states.fixQuality[idx] === 0)) return undefined;
+    let ref: { lat: number; lon: number; alt?: number } | undefined = reference.kind === 'point' ? reference : undefined;
+    if (reference.kind === 'trajectory') {
+      // Undated references are matched by time of day
+      const t = dated || times[idx] < DAY_MS ? times[idx] : times[idx] % DAY_MS;
+      ref = interpolate(reference.samples, t);
+    }
+    if (!ref) return undefined;
+    const [east, north] = (pointProjection ?? localProjection(ref.lat, ref.lon)).toEN(lat[idx], lon[idx]);
+    const horizontal = Math.hypot(east, north);
+    const up = hasValue(data, 'alt', idx) && ref.alt !== undefined ? alt[idx] - ref.alt : undefined;
+    return { east, north, up, horizontal, error3d: up !== undefined ? Math.hypot(horizontal, up) : undefined };
+  });
+};
+
+// Nearest-rank percentile of an ascending array
+const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)] : undefined;
+
+const maxOf = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => Math.max(a, b), -Infinity) : undefined);
+
+export const positionErrorStats = (errors: PositionError[]): PositionErrorStats => {
+  const horizontal = errors.map(e => e.horizontal).sort((a, b) => a - b);
+  const vertical = errors.filter(e => e.up !== undefined).map(e => Math.abs(e.up!));
+  const full = errors.filter(e => e.error3d !== undefined).map(e => e.error3d!);
+  return {
+    epochs: errors.length,
+    cep50: percentile(horizontal, 0.5),
+    cep95: percentile(horizontal, 0.95),
+    maxHorizontal: maxOf(horizontal),
+    maxVertical: maxOf(vertical),
+    max3d: maxOf(full)
+  };
+};
+
+// Statistics over all epochs, and split by whether the epoch falls inside an attack window
+export const splitErrorStats = (errors: (PositionError | undefined)[], times: ArrayLike<number>, windows: AttackWindow[]) => {
+  const all: PositionError[] = [];
+  const inside: PositionError[] = [];
+  const outside: PositionError[] = [];
+  errors.forEach((e, idx) => {
+    if (!e) return;
+    all.push(e);
+    const t = times[idx];
+    (windows.some(w => t >= w.startMs && t <= w.endMs) ? inside : outside).push(e);
+  });
+  return { all: positionErrorStats(all), inside: positionErrorStats(inside), outside: positionErrorStats(outside) };
+};
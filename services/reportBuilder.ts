@@ -0,0 +1,576 @@
+import {
+  AttackWindow,
+  DetectionScore,
+  DetectionSeries,
+  DeviceAnalysis,
+  EpochTable,
+  LogProtocol,
+  ParseIntegrity,
+  ReferenceSource,
+  SecurityEvent,
+  TestRun
+} from '../types';
+import { formatEpochTime, formatTimelineTick, formatTimelineTime, formatUtc } from './utcTime';
+import { epochPositions, epochTime, epochValue, hasPosition, hasValue } from './epochTable';
+import { overallConfidence, primaryCn0 } from './spoofingScore';
+import { scoreDetection } from './scorecard';
+import { computePositionErrors, splitErrorStats } from './referenceTrajectory';
+import { formatDistance, localProjection, niceDistance } from './trajectoryMap';
+import { SPOOFING_STATE_LABELS } from './geoExport';
+
+// Self-contained campaign report: one HTML file with inline CSS and SVG charts, no scripts and no
+// external assets, laid out so the browser's "Print to PDF" gives one section per receiver.
+
+export interface ReportDevice {
+  title: string;
+  color: string; // Track color on the comparison map
+  fileName: string | null;
+  data: EpochTable;
+  timeOffset: number; // Seconds
+  msgCounts: Record<string, number>;
+  integrity: ParseIntegrity | null;
+  securityEvents: SecurityEvent[];
+  detections: DetectionSeries[];
+  analysis: DeviceAnalysis | null;
+}
+
+export interface ReportInput {
+  title: string;
+  run: TestRun | null;
+  attackTypeLabel?: string; // Display label of run.attackType
+  devices: ReportDevice[];
+  windows: AttackWindow[];
+  reference: ReferenceSource | null;
+  notes: string; // Analyst notes, plain text
+  generatedMs: number;
+}
+
+const CHART_WIDTH = 760;
+const CHART_PAD = { left: 48, right: 12, top: 10, bottom: 22 };
+const MAP_HEIGHT = 380;
+// Points per plotted line and per map track; the report must stay small enough to mail
+const MAX_LINE_POINTS = 600;
+const MAX_TRACK_POINTS = 2000;
+// Longest step between epochs counted towards time in a state (larger gaps are log outages)
+const MAX_STEP_MS = 10000;
+const MAX_EVENT_ROWS = 300;
+const MAX_MESSAGE_ROWS = 30;
+
+const STATE_COLORS = ['#34d399', '#fbbf24', '#ef4444']; // Clean, indicated, confirmed
+const FIX_CLASSES: { quality: number; label: string; color: string }[] = [
+  { quality: 0, label: 'No fix', color: '#ef4444' },
+  { quality: 1, label: 'GPS', color: '#f59e0b' },
+  { quality: 2, label: 'DGPS', color: '#10b981' },
+  { quality: 4, label: 'RTK fixed', color: '#8b5cf6' },
+  { quality: 5, label: 'RTK float', color: '#3b82f6' },
+  { quality: 6, label: 'Dead reckoning', color: '#94a3b8' }
+];
+const SEVERITY_COLORS: Record<string, string> = { alert: '#dc2626', warn: '#ea580c', info: '#64748b' };
+
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #0f172a; margin: 0 auto; max-width: 820px; padding: 24px; font-size: 12px; line-height: 1.45; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #0f172a; }
+  h3 { font-size: 13px; margin: 16px 0 6px; color: #334155; }
+  .muted { color: #64748b; }
+  .mono { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  table { border-collapse: collapse; width: 100%; margin: 4px 0 8px; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { background: #f1f5f9; font-weight: 600; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  table.kv th { width: 34%; background: none; color: #475569; font-weight: 500; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 3px; color: #fff; font-size: 10px; font-weight: 700; text-transform: uppercase; }
+  .notes { white-space: pre-wrap; border: 1px solid #cbd5e1; background: #f8fafc; padding: 8px 10px; border-radius: 4px; }
+  .legend span { display: inline-block; margin-right: 12px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; vertical-align: -1px; border-radius: 2px; }
+  svg { display: block; margin: 4px 0 10px; }
+  svg text { font-family: inherit; font-size: 10px; fill: #475569; }
+  .device { break-before: page; }
+  .keep { break-inside: avoid; }
+  @page { size: A4; margin: 14mm; }
+  @media print { body { padding: 0; max-width: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmt = (value: number | undefined, digits = 1, unit = '') =>
+  value === undefined || isNaN(value) ? '—' : `${value.toFixed(digits)}${unit}`;
+
+const formatSeconds = (value: number) => {
+  const seconds = Math.round(value);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m ${s}s` : (m > 0 ? `${m}m ${s}s` : `${s}s`);
+};
+
+const keyValueTable = (rows: [string, string][]) =>
+  `<table class="kv">${rows.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${v}</td></tr>`).join('')}</table>`;
+
+const legend = (items: { label: string; color: string }[]) =>
+  `<div class="legend">${items.map(i => `<span><i style="background:${i.color}"></i>${escapeHtml(i.label)}</span>`).join('')}</div>`;
+
+// --- Per-device derived values ---
+
+interface DeviceFacts {
+  device: ReportDevice;
+  times: number[]; // Shared-timeline position of each epoch (ms)
+  levels: Uint8Array; // Worst detection level of any indicator per epoch
+}
+
+const deviceFacts = (device: ReportDevice): DeviceFacts => {
+  const times = Array.from(epochPositions(device.data, device.timeOffset));
+  const levels = Uint8Array.from(times, (_, idx) => device.detections.reduce((acc, s) => Math.max(acc, s.levels[idx] ?? 0), 0));
+  return { device, times, levels };
+};
+
+// Seconds spent at each level (index 0-2), gaps capped at MAX_STEP_MS
+const timeInLevels = (times: number[], levels: ArrayLike<number>) => {
+  const totals = [0, 0, 0];
+  for (let idx = 0; idx + 1 < times.length; idx++) {
+    totals[levels[idx] ?? 0] += Math.min(times[idx + 1] - times[idx], MAX_STEP_MS) / 1000;
+  }
+  return totals;
+};
+
+const firstDetection = (facts: DeviceFacts) => {
+  const idx = facts.levels.findIndex(level => level >= 1);
+  return idx >= 0 ? formatTimelineTime(facts.times[idx]) : '—';
+};
+
+// A position without a fix quality (UBX-only logs) counts as a fix
+const isFix = (data: EpochTable, idx: number) =>
+  hasPosition(data, idx) && (!hasValue(data, 'fixQuality', idx) || data.states.fixQuality[idx] !== 0);
+
+const fixAvailability = (data: EpochTable) => {
+  if (data.length === 0) return undefined;
+  let fixes = 0;
+  for (let idx = 0; idx < data.length; idx++) if (isFix(data, idx)) fixes++;
+  return (100 * fixes) / data.length;
+};
+
+const protocolsOf = (integrity: ParseIntegrity | null) =>
+  integrity
+    ? (Object.keys(integrity.frames) as LogProtocol[]).filter(p => integrity.frames[p].good + integrity.frames[p].bad > 0)
+    : [];
+
+// --- SVG charts on the shared timeline ---
+
+interface ChartFrame {
+  domain: [number, number];
+  height: number;
+  x: (t: number) => number;
+}
+
+const chartFrame = (domain: [number, number], height: number): ChartFrame => {
+  const span = Math.max(1, domain[1] - domain[0]);
+  const plotWidth = CHART_WIDTH - CHART_PAD.left - CHART_PAD.right;
+  return { domain, height, x: t => CHART_PAD.left + ((t - domain[0]) / span) * plotWidth };
+};
+
+// Attack windows shaded behind the plot, time ticks below it
+const chartBackground = (frame: ChartFrame, windows: AttackWindow[]) => {
+  const bottom = frame.height - CHART_PAD.bottom;
+  const parts: string[] = [];
+  windows.forEach(w => {
+    const x0 = Math.max(CHART_PAD.left, frame.x(w.startMs));
+    const x1 = Math.min(CHART_WIDTH - CHART_PAD.right, frame.x(w.endMs));
+    if (x1 > x0) parts.push(`<rect x="${x0.toFixed(1)}" y="${CHART_PAD.top}" width="${(x1 - x0).toFixed(1)}" height="${bottom - CHART_PAD.top}" fill="#fecaca" fill-opacity="0.45"/>`);
+  });
+  const span = frame.domain[1] - frame.domain[0];
+  for (let k = 0; k <= 5; k++) {
+    const t = frame.domain[0] + (span * k) / 5;
+    const x = frame.x(t);
+    parts.push(`<line x1="${x.toFixed(1)}" x2="${x.toFixed(1)}" y1="${CHART_PAD.top}" y2="${bottom}" stroke="#e2e8f0"/>`);
+    parts.push(`<text x="${x.toFixed(1)}" y="${frame.height - 6}" text-anchor="${k === 0 ? 'start' : (k === 5 ? 'end' : 'middle')}">${formatTimelineTick(t, span)}</text>`);
+  }
+  parts.push(`<rect x="${CHART_PAD.left}" y="${CHART_PAD.top}" width="${CHART_WIDTH - CHART_PAD.left - CHART_PAD.right}" height="${bottom - CHART_PAD.top}" fill="none" stroke="#94a3b8"/>`);
+  return parts.join('');
+};
+
+const columnValues = (data: EpochTable, value: (idx: number) => number | undefined) =>
+  Array.from({ length: data.length }, (_, idx) => value(idx));
+
+interface LineSeries {
+  label: string;
+  color: string;
+  times: number[];
+  values: (number | undefined)[];
+}
+
+// Mean per bucket of MAX_LINE_POINTS; missing values break the line
+const lineChart = (frame: ChartFrame, windows: AttackWindow[], series: LineSeries[], unit: string) => {
+  const buckets = series.map(s => {
+    const size = Math.max(1, Math.ceil(s.times.length / MAX_LINE_POINTS));
+    const points: [number, number | undefined][] = [];
+    for (let k = 0; k < s.times.length; k += size) {
+      const slice = s.values.slice(k, k + size).filter((v): v is number => v !== undefined);
+      points.push([s.times[k], slice.length > 0 ? slice.reduce((a, b) => a + b, 0) / slice.length : undefined]);
+    }
+    return points;
+  });
+  const all = buckets.flat().map(p => p[1]).filter((v): v is number => v !== undefined);
+  if (all.length === 0) return '<p class="muted">No data.</p>';
+  let min = all.reduce((a, b) => Math.min(a, b), Infinity);
+  let max = all.reduce((a, b) => Math.max(a, b), -Infinity);
+  if (max - min < 1) {
+    min -= 0.5;
+    max += 0.5;
+  }
+  const bottom = frame.height - CHART_PAD.bottom;
+  const y = (v: number) => bottom - ((v - min) / (max - min)) * (bottom - CHART_PAD.top);
+  const paths = buckets.map((points, idx) => {
+    let d = '';
+    let pen = false;
+    points.forEach(([t, v]) => {
+      if (v === undefined) {
+        pen = false;
+        return;
+      }
+      d += `${pen ? 'L' : 'M'}${frame.x(t).toFixed(1)},${y(v).toFixed(1)}`;
+      pen = true;
+    });
+    return `<path d="${d}" fill="none" stroke="${series[idx].color}" stroke-width="1.2"/>`;
+  });
+  const labels = [max, (min + max) / 2, min].map(v =>
+    `<text x="${CHART_PAD.left - 4}" y="${(y(v) + 3).toFixed(1)}" text-anchor="end">${v.toFixed(max - min < 10 ? 1 : 0)}</text>`
+  );
+  return `<svg width="${CHART_WIDTH}" height="${frame.height}" viewBox="0 0 ${CHART_WIDTH} ${frame.height}" xmlns="http://www.w3.org/2000/svg">` +
+    chartBackground(frame, windows) + paths.join('') + labels.join('') +
+    `<text x="4" y="${CHART_PAD.top + 8}">${escapeHtml(unit)}</text></svg>` +
+    (series.length > 1 ? legend(series) : '');
+};
+
+interface BandRow {
+  label: string;
+  times: number[];
+  values: ArrayLike<number>;
+  color: (value: number) => string;
+  merge: (a: number, b: number) => number; // Which value a pixel column shows when epochs share it
+}
+
+// One horizontal strip per row; runs of equal value become one rectangle
+const bandChart = (domain: [number, number], windows: AttackWindow[], rows: BandRow[]) => {
+  const rowHeight = 16;
+  const height = CHART_PAD.top + rows.length * (rowHeight + 4) + CHART_PAD.bottom;
+  const padLeft = 110; // Row labels
+  const span = Math.max(1, domain[1] - domain[0]);
+  const xOf = (t: number) => padLeft + ((t - domain[0]) / span) * (CHART_WIDTH - padLeft - CHART_PAD.right);
+  const parts: string[] = [];
+  rows.forEach((row, rowIdx) => {
+    const top = CHART_PAD.top + rowIdx * (rowHeight + 4) + 2;
+    const columns = new Map<number, number>();
+    for (let idx = 0; idx < row.times.length; idx++) {
+      const col = Math.floor(xOf(row.times[idx]));
+      const prev = columns.get(col);
+      columns.set(col, prev === undefined ? row.values[idx] : row.merge(prev, row.values[idx]));
+    }
+    const cols = Array.from(columns.keys()).sort((a, b) => a - b);
+    let runStart = 0;
+    for (let k = 1; k <= cols.length; k++) {
+      const value = columns.get(cols[runStart])!;
+      if (k < cols.length && cols[k] === cols[k - 1] + 1 && columns.get(cols[k]) === value) continue;
+      parts.push(`<rect x="${cols[runStart]}" y="${top}" width="${cols[k - 1] - cols[runStart] + 1}" height="${rowHeight}" fill="${row.color(value)}"/>`);
+      runStart = k;
+    }
+    parts.push(`<text x="${padLeft - 6}" y="${top + rowHeight - 4}" text-anchor="end">${escapeHtml(row.label)}</text>`);
+  });
+  // Attack windows outlined over the strips
+  windows.forEach(w => {
+    const x0 = Math.max(padLeft, xOf(w.startMs));
+    const x1 = Math.min(CHART_WIDTH - CHART_PAD.right, xOf(w.endMs));
+    if (x1 > x0) parts.push(`<rect x="${x0.toFixed(1)}" y="${CHART_PAD.top}" width="${(x1 - x0).toFixed(1)}" height="${height - CHART_PAD.top - CHART_PAD.bottom}" fill="none" stroke="#dc2626" stroke-dasharray="3 2"/>`);
+  });
+  for (let k = 0; k <= 4; k++) {
+    const t = domain[0] + (span * k) / 4;
+    parts.push(`<text x="${xOf(t).toFixed(1)}" y="${height - 6}" text-anchor="${k === 0 ? 'start' : (k === 4 ? 'end' : 'middle')}">${formatTimelineTick(t, span)}</text>`);
+  }
+  return `<svg width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}" xmlns="http://www.w3.org/2000/svg">${parts.join('')}</svg>`;
+};
+
+// --- SVG track map (local east/north plane, north up, equal scale) ---
+
+interface MapLine {
+  color: string;
+  width: number;
+  points: [number, number][]; // lat, lon
+}
+
+const hasFix = (data: EpochTable, idx: number) =>
+  isFix(data, idx) && !(data.floats.lat[idx] === 0 && data.floats.lon[idx] === 0);
+
+// Polylines of one track, split at fix loss and, with levels, at every state change
+const trackLines = (data: EpochTable, color: (idx: number) => string, width: number) => {
+  const stride = Math.max(1, Math.ceil(data.length / MAX_TRACK_POINTS));
+  const lines: MapLine[] = [];
+  let current: MapLine | null = null;
+  for (let idx = 0; idx < data.length; idx += stride) {
+    if (!hasFix(data, idx)) {
+      current = null;
+      continue;
+    }
+    const c = color(idx);
+    const point: [number, number] = [data.floats.lat[idx], data.floats.lon[idx]];
+    if (!current || current.color !== c) {
+      const previous: [number, number] | undefined = current ? current.points[current.points.length - 1] : undefined;
+      current = { color: c, width, points: previous ? [previous] : [] };
+      lines.push(current);
+    }
+    current.points.push(point);
+  }
+  return lines;
+};
+
+const svgMap = (lines: MapLine[], reference: ReferenceSource | null) => {
+  const all = lines.flatMap(l => l.points);
+  if (reference?.kind === 'point') all.push([reference.lat, reference.lon]);
+  if (all.length === 0) return '<p class="muted">No position fixes.</p>';
+  const lat0 = all.reduce((acc, p) => acc + p[0], 0) / all.length;
+  const lon0 = all.reduce((acc, p) => acc + p[1], 0) / all.length;
+  const projection = localProjection(lat0, lon0);
+  const en = all.map(p => projection.toEN(p[0], p[1]));
+  const minE = Math.min(...en.map(p => p[0]));
+  const maxE = Math.max(...en.map(p => p[0]));
+  const minN = Math.min(...en.map(p => p[1]));
+  const maxN = Math.max(...en.map(p => p[1]));
+  const pad = 16;
+  const scale = Math.min((CHART_WIDTH - 2 * pad) / Math.max(maxE - minE, 1), (MAP_HEIGHT - 2 * pad) / Math.max(maxN - minN, 1));
+  const cx = (minE + maxE) / 2;
+  const cy = (minN + maxN) / 2;
+  const toXY = (lat: number, lon: number) => {
+    const [e, n] = projection.toEN(lat, lon);
+    return `${(CHART_WIDTH / 2 + (e - cx) * scale).toFixed(1)},${(MAP_HEIGHT / 2 - (n - cy) * scale).toFixed(1)}`;
+  };
+  const parts = lines.map(l =>
+    `<polyline points="${l.points.map(p => toXY(p[0], p[1])).join(' ')}" fill="none" stroke="${l.color}" stroke-width="${l.width}" stroke-linejoin="round" stroke-linecap="round"/>`
+  );
+  if (reference?.kind === 'point') {
+    const [x, y] = toXY(reference.lat, reference.lon).split(',').map(Number);
+    parts.push(`<path d="M${x - 7},${y}H${x + 7}M${x},${y - 7}V${y + 7}" stroke="#0f172a" stroke-width="1.5"/><circle cx="${x}" cy="${y}" r="4" fill="none" stroke="#0f172a"/>`);
+  } else if (reference?.kind === 'trajectory') {
+    const stride = Math.max(1, Math.ceil(reference.samples.length / MAX_TRACK_POINTS));
+    const points = reference.samples.filter((_, idx) => idx % stride === 0).map(s => toXY(s.lat, s.lon));
+    parts.unshift(`<polyline points="${points.join(' ')}" fill="none" stroke="#0f172a" stroke-width="1" stroke-dasharray="4 3"/>`);
+  }
+  const bar = niceDistance((CHART_WIDTH / 4) / scale);
+  const barPx = bar * scale;
+  parts.push(
+    `<path d="M${pad},${MAP_HEIGHT - pad}h${barPx.toFixed(1)}M${pad},${MAP_HEIGHT - pad - 4}v4M${(pad + barPx).toFixed(1)},${MAP_HEIGHT - pad - 4}v4" stroke="#0f172a" stroke-width="1.5"/>`,
+    `<text x="${pad}" y="${MAP_HEIGHT - pad - 6}">${formatDistance(bar)}</text>`,
+    `<text x="${CHART_WIDTH - pad}" y="${pad + 4}" text-anchor="end">N ↑ · origin ${lat0.toFixed(6)}, ${lon0.toFixed(6)}</text>`
+  );
+  return `<svg width="${CHART_WIDTH}" height="${MAP_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${MAP_HEIGHT}" xmlns="http://www.w3.org/2000/svg">` +
+    `<rect width="${CHART_WIDTH}" height="${MAP_HEIGHT}" fill="#f8fafc" stroke="#cbd5e1"/>${parts.join('')}</svg>`;
+};
+
+// --- Sections ---
+
+const runSection = (input: ReportInput) => {
+  const { run } = input;
+  const rows: [string, string][] = [];
+  if (run) {
+    rows.push(
+      ['Campaign', escapeHtml(run.campaign || '—')],
+      ['Run', escapeHtml(run.name || '—')],
+      ['Date', escapeHtml(run.date || '—')],
+      ['Attack type', escapeHtml(input.attackTypeLabel ?? run.attackType)],
+      ['Power steps', run.powerSteps.length > 0 ? escapeHtml(run.powerSteps.map(p => `${p} dBm`).join(', ')) : '—'],
+      ['Location', escapeHtml(run.location || '—')]
+    );
+  }
+  rows.push(
+    ['Receivers', escapeHtml(input.devices.map(d => d.title).join(', '))],
+    ['Reference', input.reference ? escapeHtml(input.reference.label) : 'None'],
+    ['Generated', `${formatUtc(input.generatedMs)} UTC`]
+  );
+  let html = `<h2>Test run</h2>${keyValueTable(rows)}`;
+  if (run?.notes) html += `<h3>Run notes</h3><div class="notes">${escapeHtml(run.notes)}</div>`;
+  if (input.windows.length > 0) {
+    html += '<h3>Attack windows (ground truth)</h3><table><tr><th>Label</th><th>Start (UTC)</th><th>Stop (UTC)</th><th class="num">Duration</th></tr>' +
+      input.windows.map(w => `<tr><td>${escapeHtml(w.label)}</td><td class="mono">${formatTimelineTime(w.startMs)}</td><td class="mono">${formatTimelineTime(w.endMs)}</td><td class="num">${formatSeconds((w.endMs - w.startMs) / 1000)}</td></tr>`).join('') +
+      '</table>';
+  }
+  return html;
+};
+
+const comparisonSection = (input: ReportInput, facts: DeviceFacts[], domain: [number, number]) => {
+  const rows = facts.map(f => {
+    const { device } = f;
+    const summary = device.analysis?.summary;
+    const [clean, indicated, confirmed] = timeInLevels(f.times, f.levels);
+    const events = device.analysis?.events ?? [];
+    const alerts = events.filter(e => e.severity === 'alert').length;
+    const warnings = events.filter(e => e.severity === 'warn').length;
+    return `<tr><td><i style="display:inline-block;width:10px;height:10px;background:${device.color};margin-right:4px"></i>${escapeHtml(device.title)}</td>` +
+      `<td class="num">${device.data.length}</td>` +
+      `<td class="num">${summary ? escapeHtml(summary.totalDuration) : '—'}</td>` +
+      `<td class="num">${fmt(summary?.avgL1CN0)}</td>` +
+      `<td class="num">${fmt(fixAvailability(device.data), 1, ' %')}</td>` +
+      `<td class="num">${summary ? `${overallConfidence(summary)} %` : '—'}</td>` +
+      `<td class="mono">${firstDetection(f)}</td>` +
+      `<td class="num">${formatSeconds(indicated)} / ${formatSeconds(confirmed)}</td>` +
+      `<td class="num">${formatSeconds(clean)}</td>` +
+      `<td class="num">${alerts} / ${warnings}</td></tr>`;
+  });
+  let html = '<h2>Cross-device comparison</h2>' +
+    '<table><tr><th>Receiver</th><th class="num">Epochs</th><th class="num">Duration</th><th class="num">Avg C/N0</th><th class="num">Fix</th>' +
+    '<th class="num">Score</th><th>First detection</th><th class="num">Indicated / confirmed</th><th class="num">Clean</th><th class="num">Alerts / warnings</th></tr>' +
+    rows.join('') + '</table>' +
+    '<p class="muted">Score is the strongest offline indicator. Detection times use the worst level of any indicator per epoch, on the shared (clock-corrected) timeline.</p>';
+
+  html += '<h3>Spoofing state on the shared timeline</h3>' + bandChart(domain, input.windows, facts.map(f => ({
+    label: f.device.title,
+    times: f.times,
+    values: f.levels,
+    color: level => STATE_COLORS[level],
+    merge: Math.max
+  }))) + legend(SPOOFING_STATE_LABELS.map((label, level) => ({ label, color: STATE_COLORS[level] })));
+
+  html += '<div class="keep"><h3>Tracks</h3>' +
+    svgMap(facts.flatMap(f => trackLines(f.device.data, () => f.device.color, 2)), input.reference) +
+    legend(facts.map(f => ({ label: f.device.title, color: f.device.color }))) + '</div>';
+
+  if (input.windows.length > 0) {
+    const scores: DetectionScore[] = facts.flatMap(f => f.device.detections.map(s => scoreDetection(f.device.title, s, f.times, input.windows)));
+    html += '<h3>Detection scorecard</h3><table><tr><th>Receiver</th><th>Indicator</th><th class="num">Detected</th><th class="num">To indication</th>' +
+      '<th class="num">To confirmed</th><th class="num">To recover</th><th class="num">False alarms</th></tr>' +
+      scores.map(s => `<tr><td>${escapeHtml(s.device)}</td><td>${escapeHtml(s.source)}</td><td class="num">${s.detected} / ${s.windows}</td>` +
+        `<td class="num">${fmt(s.timeToIndication, 1, ' s')}</td><td class="num">${fmt(s.timeToConfirmed, 1, ' s')}</td>` +
+        `<td class="num">${fmt(s.timeToRecover, 1, ' s')}${s.notRecovered > 0 ? ` (${s.notRecovered} not recovered)` : ''}</td>` +
+        `<td class="num">${s.falseAlarms} (${s.falseAlarmSeconds.toFixed(1)} s)</td></tr>`).join('') +
+      '</table>';
+  }
+
+  if (input.reference) {
+    const reference = input.reference;
+    const statRows = facts.flatMap(f => {
+      const split = splitErrorStats(computePositionErrors(f.device.data, f.times, reference), f.times, input.windows);
+      const periods: [string, typeof split.all][] = input.windows.length > 0
+        ? [['All', split.all], ['Inside attacks', split.inside], ['Outside attacks', split.outside]]
+        : [['All', split.all]];
+      return periods.map(([period, s], idx) =>
+        `<tr><td>${idx === 0 ? escapeHtml(f.device.title) : ''}</td><td>${period}</td><td class="num">${s.epochs}</td>` +
+        `<td class="num">${fmt(s.cep50, 2)}</td><td class="num">${fmt(s.cep95, 2)}</td><td class="num">${fmt(s.maxHorizontal, 2)}</td>` +
+        `<td class="num">${fmt(s.maxVertical, 2)}</td><td class="num">${fmt(s.max3d, 2)}</td></tr>`);
+    });
+    html += `<h3>Position error vs reference</h3><p class="muted">${escapeHtml(reference.label)}</p>` +
+      '<table><tr><th>Receiver</th><th>Period</th><th class="num">Epochs</th><th class="num">CEP50 (m)</th><th class="num">CEP95 (m)</th>' +
+      '<th class="num">Max 2D (m)</th><th class="num">Max vertical (m)</th><th class="num">Max 3D (m)</th></tr>' + statRows.join('') + '</table>';
+  }
+  return html;
+};
+
+const deviceSection = (facts: DeviceFacts, input: ReportInput) => {
+  const { device, times } = facts;
+  const { data, integrity } = device;
+  const summary = device.analysis?.summary;
+  const first = epochTime(data, 0);
+  const last = epochTime(data, data.length - 1);
+  const domain: [number, number] = [times[0], times[times.length - 1] > times[0] ? times[times.length - 1] : times[0] + 1];
+
+  const metadata: [string, string][] = [
+    ['File', escapeHtml(device.fileName ?? '—')],
+    ['Protocols', escapeHtml(protocolsOf(integrity).join(', ') || '—')],
+    ['Start', escapeHtml(formatEpochTime(first))],
+    ['End', escapeHtml(formatEpochTime(last))],
+    ['Duration', escapeHtml(summary?.totalDuration ?? formatSeconds(last.timeSeconds - first.timeSeconds))],
+    ['Epochs', String(data.length)],
+    ['Clock offset', `${device.timeOffset} s`]
+  ];
+  if (integrity) {
+    const frames = Object.values(integrity.frames);
+    const good = frames.reduce((acc, f) => acc + f.good, 0);
+    const bad = frames.reduce((acc, f) => acc + f.bad, 0);
+    metadata.push(
+      ['File size', `${(integrity.totalBytes / 1024).toFixed(1)} KiB`],
+      ['Frames good / bad', `${good} / ${bad}${good + bad > 0 ? ` (${((100 * bad) / (good + bad)).toFixed(2)} % bad)` : ''}`],
+      ['Bytes skipped', String(integrity.bytesSkipped)]
+    );
+  }
+
+  const messages = Object.entries(device.msgCounts).sort((a, b) => b[1] - a[1]);
+  const messageTable = messages.length === 0 ? '<p class="muted">No messages counted.</p>' :
+    '<table><tr><th>Message</th><th class="num">Count</th><th class="num">Rate</th></tr>' +
+    messages.slice(0, MAX_MESSAGE_ROWS).map(([msg, count]) => {
+      const seconds = last.timeSeconds - first.timeSeconds;
+      return `<tr><td class="mono">${escapeHtml(msg)}</td><td class="num">${count}</td><td class="num">${seconds > 0 ? `${(count / seconds).toFixed(2)} Hz` : '—'}</td></tr>`;
+    }).join('') + '</table>' +
+    (messages.length > MAX_MESSAGE_ROWS ? `<p class="muted">${messages.length - MAX_MESSAGE_ROWS} more message types not listed.</p>` : '');
+
+  const indicators = summary
+    ? `<p>Overall score <b>${overallConfidence(summary)} %</b> · average C/N0 ${fmt(summary.avgL1CN0)} dB-Hz</p>` +
+      '<table><tr><th>Indicator</th><th>Result</th><th class="num">Confidence</th><th>Details</th></tr>' +
+      summary.spoofingIndicators.map(ind => `<tr><td>${escapeHtml(ind.label)}</td>` +
+        `<td>${ind.detected ? '<span class="badge" style="background:#dc2626">Detected</span>' : '<span class="muted">Not detected</span>'}</td>` +
+        `<td class="num">${ind.confidence}</td><td>${escapeHtml(ind.details)}</td></tr>`).join('') + '</table>'
+    : '<p class="muted">Indicators not computed.</p>';
+
+  const events = device.analysis?.events ?? [];
+  const eventTable = events.length === 0 ? '<p class="muted">No events.</p>' :
+    '<table><tr><th>Start</th><th>End</th><th>Event</th><th>Source</th></tr>' +
+    events.slice(0, MAX_EVENT_ROWS).map(evt => `<tr><td class="mono">${escapeHtml(evt.start)}</td><td class="mono">${escapeHtml(evt.end)}</td>` +
+      `<td><span class="badge" style="background:${SEVERITY_COLORS[evt.severity]}">${evt.severity}</span> ${escapeHtml(evt.label)}</td><td>${escapeHtml(evt.source)}</td></tr>`).join('') +
+    '</table>' + (events.length > MAX_EVENT_ROWS ? `<p class="muted">${events.length - MAX_EVENT_ROWS} more events not listed.</p>` : '');
+
+  const stateRows: BandRow[] = device.detections.map(s => ({
+    label: s.source,
+    times,
+    values: s.levels,
+    color: level => STATE_COLORS[level],
+    merge: Math.max
+  }));
+  stateRows.push({
+    label: 'Fix',
+    times,
+    values: data.states.fixQuality,
+    color: quality => FIX_CLASSES.find(c => c.quality === quality)?.color ?? '#64748b',
+    merge: (a, b) => (a === 0 || b === 0 ? 0 : b) // A lost fix stays visible at any zoom
+  });
+  const usedFix = new Set(data.states.fixQuality);
+
+  const cn0Frame = chartFrame(domain, 150);
+  const satFrame = chartFrame(domain, 110);
+  const levelColor = (idx: number) => STATE_COLORS[facts.levels[idx]];
+
+  return `<section class="device"><h2>${escapeHtml(device.title)}</h2>` +
+    `<div class="keep"><h3>File</h3>${keyValueTable(metadata)}</div>` +
+    `<h3>Message statistics</h3>${messageTable}` +
+    `<h3>Indicator summary</h3>${indicators}` +
+    `<h3>Spoofing events</h3>${eventTable}` +
+    '<div class="keep"><h3>C/N0</h3>' + lineChart(cn0Frame, input.windows, [
+      { label: 'Headline C/N0', color: '#2563eb', times, values: columnValues(data, idx => primaryCn0(data, idx)) },
+      { label: 'Average C/N0', color: '#94a3b8', times, values: columnValues(data, idx => epochValue(data, 'avgCn0', idx)) }
+    ], 'dB-Hz') + '</div>' +
+    '<div class="keep"><h3>Satellites used</h3>' + lineChart(satFrame, input.windows, [
+      { label: 'Satellites used', color: '#0f766e', times, values: columnValues(data, idx => epochValue(data, 'satellitesUsed', idx)) }
+    ], 'SVs') + '</div>' +
+    '<div class="keep"><h3>Indicator states and fix</h3>' + bandChart(domain, input.windows, stateRows) +
+    legend([
+      ...SPOOFING_STATE_LABELS.map((label, level) => ({ label, color: STATE_COLORS[level] })),
+      ...FIX_CLASSES.filter(c => usedFix.has(c.quality)).map(c => ({ label: c.label, color: c.color }))
+    ]) + '</div>' +
+    '<div class="keep"><h3>Track by spoofing state</h3>' + svgMap(trackLines(data, levelColor, 2.5), input.reference) + '</div>' +
+    '</section>';
+};
+
+export const buildHtmlReport = (input: ReportInput) => {
+  const facts = input.devices.filter(d => d.data.length > 0).map(deviceFacts);
+  const start = Math.min(...facts.map(f => f.times[0]));
+  const end = Math.max(...facts.map(f => f.times[f.times.length - 1]));
+  const domain: [number, number] = facts.length > 0 ? [start, end > start ? end : start + 1] : [0, 1];
+  const notes = input.notes.trim();
+
+  const body = [
+    `<h1>${escapeHtml(input.title)}</h1>`,
+    facts.length > 0 ? `<p class="muted">${formatTimelineTime(domain[0])} → ${formatTimelineTime(domain[1])} UTC</p>` : '',
+    runSection(input),
+    notes ? `<h2>Analyst notes</h2><div class="notes">${escapeHtml(notes)}</div>` : '',
+    facts.length > 0 ? comparisonSection(input, facts, domain) : '<p class="muted">No logs loaded.</p>',
+    ...facts.map(f => deviceSection(f, input))
+  ];
+  return '<!DOCTYPE html>\n<html lang="en"><head><meta charset="UTF-8">' +
+    `<title>${escapeHtml(input.title)}</title><style>${STYLE}</style></head>` +
+    `<body>${body.join('\n')}</body></html>`;
+};
@@ -0,0 +1,122 @@
+import { AttackWindow, DetectionScore, DetectionSeries } from '../types';
+
+// Epoch gaps longer than this are logging gaps, not time spent in a false alarm
+const MAX_STEP_MS = 10000;
+
+// "YYYY-MM-DD HH:MM:SS[.sss]" / ISO (UTC unless a zone is given), or "HH:MM:SS" for undated logs
+// (time of day, matching the shared timeline's fallback). Returns ms or undefined.
+export const parseTimeInput = (text: string) => {
+  const value = text.trim();
+  const timeOnly = /^(\d{1,2}):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value);
+  if (timeOnly) {
+    return (parseInt(timeOnly[1]) * 3600 + parseInt(timeOnly[2]) * 60 + parseFloat(timeOnly[3])) * 1000;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return undefined;
+  const iso = value.replace(' ', 'T');
+  const ms = Date.parse(/Z|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}Z`);
+  return isNaN(ms) ? undefined : ms;
+};
+
+const parseTimeValue = (value: unknown) =>
+  typeof value === 'number' ? value : (typeof value === 'string' ? parseTimeInput(value) : undefined);
+
+// Test plan: JSON array (or { attacks: [...] }) of { start, end, label? }, or CSV rows start,end[,label].
+// Times are ms since 1970 or strings accepted by parseTimeInput.
+export const parseTestPlan = (text: string): AttackWindow[] => {
+  const windows: AttackWindow[] = [];
+  const add = (start: unknown, end: unknown, label: unknown) => {
+    const startMs = parseTimeValue(start);
+    const endMs = parseTimeValue(end);
+    if (startMs === undefined || endMs === undefined || endMs <= startMs) return;
+    windows.push({ label: typeof label === 'string' && label ? label : `Attack ${windows.length + 1}`, startMs, endMs });
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const items: unknown[] = Array.isArray(json) ? json : (json.attacks ?? json.windows ?? []);
+    items.forEach(item => {
+      const entry = item as Record<string, unknown>;
+      add(entry.start, entry.end ?? entry.stop, entry.label ?? entry.name);
+    });
+  } else {
+    // Header rows simply fail to parse as times and are skipped
+    trimmed.split(/\r?\n/).forEach(line => {
+      const cells = line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, ''));
+      if (cells.length >= 2) add(cells[0], cells[1], cells[2]);
+    });
+  }
+  return windows.sort((a, b) => a.startMs - b.startMs);
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+// Score one indicator of one device. positions are the epochs' shared-timeline times (ms, monotonic).
+export const scoreDetection = (
+  device: string,
+  series: DetectionSeries,
+  positions: ArrayLike<number>,
+  windows: AttackWindow[]
+): DetectionScore => {
+  const { levels } = series;
+  const n = positions.length;
+  const toIndication: number[] = [];
+  const toConfirmed: number[] = [];
+  const toRecover: number[] = [];
+  let covered = 0;
+  let notRecovered = 0;
+  // Attack plus recovery periods: alarms inside them are not false alarms
+  const protectedIntervals: [number, number][] = [];
+
+  windows.forEach(w => {
+    let idx = 0;
+    while (idx < n && positions[idx] < w.startMs) idx++;
+    if (idx >= n || positions[idx] > w.endMs) return; // No data during this attack
+    covered++;
+
+    let indication: number | undefined;
+    let confirmed: number | undefined;
+    for (; idx < n && positions[idx] <= w.endMs; idx++) {
+      if (indication === undefined && levels[idx] >= 1) indication = positions[idx];
+      if (confirmed === undefined && levels[idx] >= 2) confirmed = positions[idx];
+    }
+    if (indication !== undefined) toIndication.push((indication - w.startMs) / 1000);
+    if (confirmed !== undefined) toConfirmed.push((confirmed - w.startMs) / 1000);
+
+    let protectedEnd = w.endMs;
+    if (indication !== undefined) {
+      while (idx < n && levels[idx] >= 1) idx++;
+      if (idx < n) {
+        toRecover.push(Math.max(0, positions[idx] - w.endMs) / 1000);
+        protectedEnd = Math.max(w.endMs, positions[idx]);
+      } else {
+        notRecovered++;
+        protectedEnd = Infinity;
+      }
+    }
+    protectedIntervals.push([w.startMs, protectedEnd]);
+  });
+
+  const isProtected = (t: number) => protectedIntervals.some(([a, b]) => t >= a && t <= b);
+  let falseAlarms = 0;
+  let falseAlarmMs = 0;
+  for (let idx = 0; idx < n; idx++) {
+    if (levels[idx] < 1 || isProtected(positions[idx])) continue;
+    if (idx === 0 || levels[idx - 1] < 1) falseAlarms++;
+    if (idx + 1 < n) falseAlarmMs += Math.min(positions[idx + 1] - positions[idx], MAX_STEP_MS);
+  }
+
+  return {
+    device,
+    source: series.source,
+    windows: covered,
+    detected: toIndication.length,
+    timeToIndication: mean(toIndication),
+    timeToConfirmed: mean(toConfirmed),
+    timeToRecover: mean(toRecover),
+    notRecovered,
+    falseAlarms,
+    falseAlarmSeconds: falseAlarmMs / 1000
+  };
+};
@@ -0,0 +1,37 @@
+// Code tables for the u-blox security (SEC class) messages.
+// Values not listed here are shown as their raw number so nothing is silently dropped.
+
+// UBX-SEC-SIGLOG event detectionType
+export const siglogDetectionLabel = (detectionType: number) => {
+  switch (detectionType) {
+    case 0: return 'Simulated signal';
+    case 1: return 'Abnormal signal';
+    case 2: return 'INS/PVT check';
+    case 3: return 'Jamming';
+    case 4: return 'Broadcast data check';
+    default: return `Detector ${detectionType}`;
+  }
+};
+
+// UBX-SEC-SIGLOG event eventType
+export const siglogEventLabel = (eventType: number) => {
+  switch (eventType) {
+    case 0: return 'Spoofing indicated';
+    case 1: return 'Spoofing confirmed';
+    case 2: return 'Spoofing mitigated';
+    case 3: return 'Spoofing ended';
+    default: return `Event ${eventType}`;
+  }
+};
+
+// UBX-SEC-OSNMA status
+export const osnmaStateLabel = (state: number) => {
+  switch (state) {
+    case 0: return 'OSNMA disabled';
+    case 1: return 'OSNMA initializing';
+    case 2: return 'OSNMA waiting for data';
+    case 3: return 'OSNMA operational';
+    case 4: return 'OSNMA authentication failed';
+    default: return `OSNMA state ${state}`;
+  }
+};
@@ -0,0 +1,347 @@
+import { Cn0CorrelationEpoch, EpochTable, KinematicEvent, LogAnalysisSummary, SecurityEvent } from '../types';
+import { formatEpochTime } from './utcTime';
+import { epochSatelliteSnrs, epochTime, epochTimestamp, epochValue, hasPosition, hasValue } from './epochTable';
+
+// Deterministic, offline spoofing indicators. Every detector only looks at the parsed epochs,
+// so it works the same for receivers with and without built-in detection (A7P).
+
+export interface ScoringConfig {
+  cn0RiseDb: number; // Sudden rise of the smoothed C/N0 above its recent baseline
+  lowSpreadDb: number; // Std dev of C/N0 across satellites below which the sky looks synthetic
+  lowSpreadFraction: number; // Fraction of epochs with low spread needed to raise the indicator
+  trackedDrop: number; // Satellites lost while C/N0 rises
+  fixJumpMeters: number; // Position change across a fix outage
+  timeJumpFactor: number; // Forward time step vs the median epoch interval
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  cn0RiseDb: 6,
+  lowSpreadDb: 2,
+  lowSpreadFraction: 0.2,
+  trackedDrop: 3,
+  fixJumpMeters: 100,
+  timeJumpFactor: 10
+};
+
+type Indicator = LogAnalysisSummary['spoofingIndicators'][number];
+
+interface ScoringInput {
+  fileName: string;
+  data: EpochTable;
+  securityEvents?: SecurityEvent[];
+  kinematicEvents?: KinematicEvent[];
+  correlation?: Cn0CorrelationEpoch[]; // Parallel to data, from analyzeCn0Correlation
+  config?: ScoringConfig;
+}
+
+// Smoothing window and the baseline it is compared against (seconds before the window)
+const SMOOTH_S = 5;
+const BASELINE_S = 30;
+const MIN_SATS_FOR_SPREAD = 4;
+const MAX_SUMMARY_POSITIONS = 1000;
+
+// Headline C/N0 per epoch: GSV/MeasEpoch top-3 if present, else NAV-SIG L1 average
+export const primaryCn0 = (data: EpochTable, idx: number) =>
+  (epochValue(data, 'gpsTop3AvgCn0', idx) || epochValue(data, 'gpsL1Cn0', idx) || undefined);
+
+const trackedCount = (data: EpochTable, idx: number) => {
+  const total = Object.values(data.constellations).reduce((acc, s) => acc + (s.tracked[idx] || 0), 0);
+  if (total > 0) return total;
+  return epochValue(data, 'gpsTrackedCount', idx) || undefined;
+};
+
+// Confidence for a detected indicator: 50 at the threshold, 100 at twice the threshold
+const scaleConfidence = (value: number, threshold: number) =>
+  Math.round(Math.max(0, Math.min(100, 50 * value / threshold)));
+
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return h > 0 ? `${h}h ${m}m ${s}s` : (m > 0 ? `${m}m ${s}s` : `${s}s`);
+};
+
+const distanceMeters = (data: EpochTable, a: number, b: number) => {
+  const { lat, lon } = data.floats;
+  const dN = (lat[b] - lat[a]) * Math.PI / 180 * 6378137;
+  const dE = (lon[b] - lon[a]) * Math.PI / 180 * 6378137 * Math.cos(lat[a] * Math.PI / 180);
+  return Math.hypot(dN, dE);
+};
+
+// Time-windowed mean over a sparse series, using prefix sums
+const buildWindowMean = (data: EpochTable, value: (data: EpochTable, idx: number) => number | undefined) => {
+  const times: number[] = [];
+  const prefix: number[] = [0];
+  for (let idx = 0; idx < data.length; idx++) {
+    const v = value(data, idx);
+    if (v === undefined) continue;
+    times.push(data.timeSeconds[idx]);
+    prefix.push(prefix[prefix.length - 1] + v);
+  }
+  const lowerBound = (t: number) => {
+    let lo = 0;
+    let hi = times.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] < t) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+  // Mean over [t0, t1), undefined if empty
+  return (t0: number, t1: number) => {
+    const a = lowerBound(t0);
+    const b = lowerBound(t1);
+    return b > a ? (prefix[b] - prefix[a]) / (b - a) : undefined;
+  };
+};
+
+// 1. Sudden C/N0 rise and 3. tracked count dropping while C/N0 rises
+const detectCn0Rise = (data: EpochTable, config: ScoringConfig): Indicator[] => {
+  const cn0Mean = buildWindowMean(data, primaryCn0);
+  const trackedMean = buildWindowMean(data, trackedCount);
+
+  let bestRise = { value: 0, at: '' };
+  let bestDrop = { rise: 0, drop: 0, at: '' };
+  for (let idx = 0; idx < data.length; idx++) {
+    const t = data.timeSeconds[idx];
+    const now = cn0Mean(t - SMOOTH_S, t + 1e-6);
+    const before = cn0Mean(t - SMOOTH_S - BASELINE_S, t - SMOOTH_S);
+    if (now === undefined || before === undefined) continue;
+    const rise = now - before;
+    if (rise > bestRise.value) bestRise = { value: rise, at: epochTimestamp(data, idx) };
+
+    const trackedNow = trackedMean(t - SMOOTH_S, t + 1e-6);
+    const trackedBefore = trackedMean(t - SMOOTH_S - BASELINE_S, t - SMOOTH_S);
+    if (trackedNow === undefined || trackedBefore === undefined) continue;
+    const drop = trackedBefore - trackedNow;
+    if (rise >= config.cn0RiseDb / 2 && drop > bestDrop.drop) bestDrop = { rise, drop, at: epochTimestamp(data, idx) };
+  }
+
+  const riseDetected = bestRise.value >= config.cn0RiseDb;
+  const dropDetected = bestDrop.drop >= config.trackedDrop;
+  return [
+    {
+      label: 'Sudden C/N0 rise',
+      detected: riseDetected,
+      confidence: riseDetected ? scaleConfidence(bestRise.value, config.cn0RiseDb) : 0,
+      details: bestRise.at
+        ? `Max rise +${bestRise.value.toFixed(1)} dB over the ${BASELINE_S}s baseline at ${bestRise.at} (threshold ${config.cn0RiseDb} dB)`
+        : 'Not enough C/N0 data'
+    },
+    {
+      label: 'Tracked satellites drop while C/N0 rises',
+      detected: dropDetected,
+      confidence: dropDetected ? scaleConfidence(bestDrop.drop, config.trackedDrop) : 0,
+      details: bestDrop.at
+        ? `-${bestDrop.drop.toFixed(1)} SVs with +${bestDrop.rise.toFixed(1)} dB at ${bestDrop.at}`
+        : 'No simultaneous drop and rise'
+    }
+  ];
+};
+
+// 2. Abnormally uniform C/N0 across satellites (single transmit antenna)
+const detectLowSpread = (data: EpochTable, config: ScoringConfig): Indicator => {
+  let evaluated = 0;
+  let low = 0;
+  let spreadSum = 0;
+  for (let idx = 0; idx < data.length; idx++) {
+    const snrs = epochSatelliteSnrs(data, idx).filter(v => v > 0);
+    if (snrs.length < MIN_SATS_FOR_SPREAD) continue;
+    const mean = snrs.reduce((a, b) => a + b, 0) / snrs.length;
+    const std = Math.sqrt(snrs.reduce((a, b) => a + (b - mean) ** 2, 0) / snrs.length);
+    evaluated++;
+    spreadSum += std;
+    if (std < config.lowSpreadDb) low++;
+  }
+  if (evaluated === 0) {
+    return { label: 'Low C/N0 spread across satellites', detected: false, confidence: 0, details: 'No per-satellite C/N0 in this log' };
+  }
+  const fraction = low / evaluated;
+  const detected = fraction >= config.lowSpreadFraction;
+  return {
+    label: 'Low C/N0 spread across satellites',
+    detected,
+    confidence: detected ? scaleConfidence(fraction, config.lowSpreadFraction) : 0,
+    details: `${(fraction * 100).toFixed(1)}% of epochs below ${config.lowSpreadDb} dB std dev (mean spread ${(spreadSum / evaluated).toFixed(1)} dB)`
+  };
+};
+
+// 4. Fix loss followed by a position jump
+const detectFixLossJump = (data: EpochTable, config: ScoringConfig): Indicator => {
+  const hasFix = (idx: number) => hasPosition(data, idx) && data.states.fixQuality[idx] > 0;
+  let lastGood = -1;
+  let lostSince = false;
+  let worst = { distance: 0, at: '' };
+  let outages = 0;
+  for (let idx = 0; idx < data.length; idx++) {
+    if (!hasFix(idx)) {
+      if (lastGood >= 0) lostSince = true;
+      continue;
+    }
+    if (lostSince && lastGood >= 0) {
+      outages++;
+      const distance = distanceMeters(data, lastGood, idx);
+      if (distance > worst.distance) worst = { distance, at: epochTimestamp(data, idx) };
+    }
+    lostSince = false;
+    lastGood = idx;
+  }
+  const detected = worst.distance >= config.fixJumpMeters;
+  return {
+    label: 'Fix loss followed by position jump',
+    detected,
+    confidence: detected ? scaleConfidence(worst.distance, config.fixJumpMeters) : 0,
+    details: outages === 0
+      ? 'No fix outages'
+      : `${outages} outages, largest re-acquisition jump ${worst.distance.toFixed(0)} m at ${worst.at}`
+  };
+};
+
+// 5. Time discontinuity (backward steps or forward jumps far beyond the epoch rate)
+const detectTimeJump = (data: EpochTable, config: ScoringConfig): Indicator => {
+  if (data.length < 3) return { label: 'Time discontinuity', detected: false, confidence: 0, details: 'Not enough epochs' };
+  const steps = Array.from(data.timeSeconds.subarray(1), (t, i) => t - data.timeSeconds[i]);
+  const sorted = steps.filter(s => s > 0).sort((a, b) => a - b);
+  const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 1;
+  let backward = 0;
+  let forward = 0;
+  let first = '';
+  steps.forEach((step, i) => {
+    const isBackward = step < 0;
+    const isForward = step > median * config.timeJumpFactor;
+    if (isBackward) backward++;
+    if (isForward) forward++;
+    if ((isBackward || isForward) && !first) first = epochTimestamp(data, i + 1);
+  });
+  const detected = backward > 0 || forward > 0;
+  return {
+    label: 'Time discontinuity',
+    detected,
+    // Backward steps cannot happen on a real receiver clock; forward gaps may be logging gaps
+    confidence: backward > 0 ? 90 : (forward > 0 ? 40 : 0),
+    details: detected
+      ? `${backward} backward, ${forward} forward jumps (median step ${median.toFixed(2)}s), first at ${first}`
+      : `Continuous (median step ${median.toFixed(2)}s)`
+  };
+};
+
+// Receiver's own detection, jamming and kinematics, summarized as indicators too
+const detectReceiverFlags = (data: EpochTable, securityEvents: SecurityEvent[]): Indicator => {
+  const { spoofingState, secSigState } = data.states;
+  let flagged = 0;
+  let confirmed = 0;
+  for (let idx = 0; idx < data.length; idx++) {
+    const state = Math.max(spoofingState[idx], secSigState[idx]);
+    if (state >= 2) flagged++;
+    if (state >= 3) confirmed++;
+  }
+  const detectorEvents = securityEvents.filter(e => e.source === 'UBX-SEC-SIGLOG').length;
+  const detected = flagged > 0 || detectorEvents > 0;
+  return {
+    label: 'Receiver spoofing detection',
+    detected,
+    confidence: confirmed > 0 ? 95 : (detected ? 70 : 0),
+    details: detected
+      ? `${flagged} flagged epochs (${confirmed} confirmed), ${detectorEvents} SEC-SIGLOG events`
+      : 'No receiver spoofing flags'
+  };
+};
+
+const detectJamming = (data: EpochTable): Indicator => {
+  let rf = 0;
+  let jammed = 0;
+  let critical = 0;
+  for (let idx = 0; idx < data.length; idx++) {
+    const bands = data.interferenceBands.get(idx);
+    const hasState = hasValue(data, 'jammingState', idx);
+    if (!hasState && !bands) continue;
+    rf++;
+    const state = hasState ? data.states.jammingState[idx] : 0;
+    if (state >= 2 || (bands?.length || 0) > 0) jammed++;
+    if (state === 3) critical++;
+  }
+  const detected = jammed > 0;
+  return {
+    label: 'RF interference / jamming',
+    detected,
+    confidence: critical > 0 ? 90 : (detected ? 60 : 0),
+    details: rf === 0
+      ? 'No RF monitoring data'
+      : `${jammed} of ${rf} RF reports with interference (${critical} critical)`
+  };
+};
+
+const detectKinematics = (events: KinematicEvent[]): Indicator => {
+  const detected = events.length > 0;
+  const jumps = events.filter(e => e.label === 'Position jump').length;
+  return {
+    label: 'Kinematic implausibility',
+    detected,
+    confidence: detected ? Math.min(100, 50 + events.length * 10 + jumps * 10) : 0,
+    details: detected
+      ? Array.from(new Set(events.map(e => e.label))).join(', ') + ` (${events.length} events)`
+      : 'Motion consistent with the platform profile'
+  };
+};
+
+const detectCorrelatedCn0 = (correlation: Cn0CorrelationEpoch[]): Indicator => {
+  const evaluated = correlation.filter(c => c.correlation !== undefined);
+  if (evaluated.length === 0) {
+    return { label: 'Correlated C/N0 (single source)', detected: false, confidence: 0, details: 'No per-satellite C/N0 in this log' };
+  }
+  const uniform = evaluated.filter(c => c.alertLevel >= 2).length;
+  const singleSource = evaluated.filter(c => c.alertLevel >= 3).length;
+  const peak = evaluated.reduce((acc, c) => Math.max(acc, c.correlation!), -1);
+  const detected = uniform > 0;
+  return {
+    label: 'Correlated C/N0 (single source)',
+    detected,
+    confidence: singleSource > 0 ? 90 : (detected ? 65 : 0),
+    details: `${uniform} correlated + uniform epochs (${singleSource} with power rise), peak correlation ${peak.toFixed(2)}`
+  };
+};
+
+// Run every detector and fill a LogAnalysisSummary
+export const buildAnalysisSummary = ({
+  fileName,
+  data,
+  securityEvents = [],
+  kinematicEvents = [],
+  correlation = [],
+  config = DEFAULT_SCORING_CONFIG
+}: ScoringInput): LogAnalysisSummary => {
+  const cn0Values: number[] = [];
+  const withFix: number[] = [];
+  for (let idx = 0; idx < data.length; idx++) {
+    const cn0 = primaryCn0(data, idx);
+    if (cn0 !== undefined) cn0Values.push(cn0);
+    if (hasPosition(data, idx)) withFix.push(idx);
+  }
+  const stride = Math.max(1, Math.ceil(withFix.length / MAX_SUMMARY_POSITIONS));
+  const last = data.length - 1;
+  const duration = data.length > 0 ? data.timeSeconds[last] - data.timeSeconds[0] : 0;
+
+  return {
+    fileName,
+    startTime: data.length > 0 ? formatEpochTime(epochTime(data, 0)) : '',
+    endTime: data.length > 0 ? formatEpochTime(epochTime(data, last)) : '',
+    totalDuration: formatDuration(duration),
+    totalEpochs: data.length,
+    avgL1CN0: cn0Values.length > 0 ? parseFloat((cn0Values.reduce((a, b) => a + b, 0) / cn0Values.length).toFixed(1)) : 0,
+    spoofingIndicators: [
+      detectReceiverFlags(data, securityEvents),
+      ...detectCn0Rise(data, config),
+      detectLowSpread(data, config),
+      detectCorrelatedCn0(correlation),
+      detectFixLossJump(data, config),
+      detectTimeJump(data, config),
+      detectKinematics(kinematicEvents),
+      detectJamming(data)
+    ],
+    positions: withFix.filter((_, k) => k % stride === 0).map(idx => ({ lat: data.floats.lat[idx], lon: data.floats.lon[idx] }))
+  };
+};
+
+// Single headline number: strongest detected indicator
+export const overallConfidence = (summary: LogAnalysisSummary) =>
+  summary.spoofingIndicators.reduce((acc, ind) => (ind.detected ? Math.max(acc, ind.confidence) : acc), 0);
@@ -0,0 +1,82 @@
+// Offline map helpers: a local east/north plane (equirectangular around a reference point),
+// scale-bar steps and GeoJSON basemap geometry. No tiles, no network.
+
+const EARTH_RADIUS = 6378137;
+const DEG = Math.PI / 180;
+
+export interface LocalProjection {
+  lat0: number;
+  lon0: number;
+  toEN: (lat: number, lon: number) => [number, number]; // East, North (m)
+  toLatLon: (east: number, north: number) => [number, number];
+}
+
+// Equirectangular around (lat0, lon0): metre-accurate over the few km a test track covers
+export const localProjection = (lat0: number, lon0: number): LocalProjection => {
+  const kLat = DEG * EARTH_RADIUS;
+  const kLon = kLat * Math.cos(lat0 * DEG);
+  return {
+    lat0,
+    lon0,
+    toEN: (lat, lon) => [(lon - lon0) * kLon, (lat - lat0) * kLat],
+    toLatLon: (east, north) => [lat0 + north / kLat, lon0 + east / kLon]
+  };
+};
+
+// Largest 1/2/5 x 10^k metres that fits in maxMeters (scale bar and grid spacing)
+export const niceDistance = (maxMeters: number) => {
+  if (!(maxMeters > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(maxMeters)));
+  const step = [5, 2, 1].find(m => m * magnitude <= maxMeters) ?? 1;
+  return step * magnitude;
+};
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000 ? `${+(meters / 1000).toFixed(1)} km` : (meters >= 1 ? `${+meters.toFixed(0)} m` : `${+(meters * 100).toFixed(0)} cm`);
+
+// GeoJSON (FeatureCollection, Feature or bare geometry) -> polylines of [lon, lat].
+// Polygon rings come back as closed lines, points as single-vertex lines.
+export const geoJsonLines = (json: unknown): [number, number][][] => {
+  const lines: [number, number][][] = [];
+  const visit = (node: unknown) => {
+    if (!node || typeof node !== 'object') return;
+    const obj = node as Record<string, unknown>;
+    const coords = obj.coordinates as unknown;
+    switch (obj.type) {
+      case 'FeatureCollection':
+        (obj.features as unknown[] | undefined)?.forEach(visit);
+        break;
+      case 'Feature':
+        visit(obj.geometry);
+        break;
+      case 'GeometryCollection':
+        (obj.geometries as unknown[] | undefined)?.forEach(visit);
+        break;
+      case 'Point':
+        lines.push([coords as [number, number]]);
+        break;
+      case 'MultiPoint':
+      case 'LineString':
+        lines.push(coords as [number, number][]);
+        break;
+      case 'MultiLineString':
+      case 'Polygon':
+        lines.push(...(coords as [number, number][][]));
+        break;
+      case 'MultiPolygon':
+        (coords as [number, number][][][]).forEach(polygon => lines.push(...polygon));
+        break;
+    }
+  };
+  visit(json);
+  return lines.filter(line => Array.isArray(line) && line.length > 0);
+};
+
+// "south, west, north, east" in decimal degrees -> bounds of a raster basemap
+export const parseBounds = (text: string) => {
+  const values = text.split(/[,;\s]+/).filter(Boolean).map(parseFloat);
+  if (values.length !== 4 || values.some(isNaN)) return undefined;
+  const [south, west, north, east] = values;
+  if (north <= south || east <= west) return undefined;
+  return { south, west, north, east };
+};
@@ -0,0 +1,51 @@
+import { EpochTable } from '../types';
+
+// Absolute time helpers shared by the parser worker and the UI.
+// All absolute times are UTC milliseconds since 1970 (like Date.getTime()).
+
+export const DAY_MS = 86400000;
+export const WEEK_MS = 7 * DAY_MS;
+
+// GPS time starts 1980-01-06T00:00:00Z and does not include leap seconds
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6);
+
+// GPS - UTC since 2017-01-01. Replaced by the receiver's value when the log provides one.
+export const DEFAULT_LEAP_SECONDS = 18;
+
+export const utcMidnightMs = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day);
+
+// GPS week (continuous, not modulo 1024) + time of week -> UTC
+export const gpsToUtcMs = (week: number, towMs: number, leapSeconds: number) =>
+  GPS_EPOCH_MS + week * WEEK_MS + towMs - leapSeconds * 1000;
+
+// NMEA RMC date field (ddmmyy) -> UTC midnight. Two-digit years are taken as 20yy.
+export const parseNmeaDate = (dateStr: string) => {
+  if (!dateStr || dateStr.length < 6) return undefined;
+  const day = parseInt(dateStr.slice(0, 2));
+  const month = parseInt(dateStr.slice(2, 4));
+  const year = 2000 + parseInt(dateStr.slice(4, 6));
+  if (isNaN(day) || isNaN(month) || isNaN(year) || month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  return utcMidnightMs(year, month, day);
+};
+
+// "YYYY-MM-DD HH:MM:SS" (UTC)
+export const formatUtc = (ms: number) => new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+
+// Display time of an epoch or event: full UTC date-time when the date is known, else HH:MM:SS
+export const formatEpochTime = (point: { timestamp: string; utcMs?: number }) =>
+  point.utcMs !== undefined ? formatUtc(point.utcMs) : point.timestamp;
+
+// Position on the shared multi-device timeline (ms). Dated logs use absolute UTC; undated ones fall back
+// to their time of day, so logs from the same day still line up. offsetSeconds corrects a receiver clock.
+export const timelineAccessor = (data: EpochTable, offsetSeconds = 0) => {
+  const startSod = data.length > 0 ? data.clockSeconds[0] : 0;
+  return (point: { timeSeconds: number; utcMs?: number }) =>
+    (point.utcMs ?? (startSod + point.timeSeconds) * 1000) + offsetSeconds * 1000;
+};
+
+// Axis tick: time of day, with the date when the visible span crosses midnight
+export const formatTimelineTick = (ms: number, spanMs: number) =>
+  spanMs > DAY_MS ? formatUtc(ms).slice(5, 16) : formatUtc(ms).slice(11);
+
+// Shared-timeline time for display: undated logs sit on 1970-01-01, so only show their time of day
+export const formatTimelineTime = (ms: number) => (ms < DAY_MS ? formatUtc(ms).slice(11) : formatUtc(ms));
@@ -1,6 +1,58 @@
+export type GnssSystem = 'GPS' | 'GLONASS' | 'Galileo' | 'BeiDou' | 'QZSS' | 'SBAS' | 'Unknown';
+
+// Carrier band groups: L1 = L1/E1/B1/G1, L2 = L2/G2, L5 = L5/E5a/B2a
+export type SignalBand = 'L1' | 'L2' | 'L5' | 'Other';
+
+export interface SignalGroupStats {
+  avgCn0: number; // Average C/N0 over tracked satellites (dB-Hz)
+  tracked: number; // Satellites with a C/N0 measurement
+  used?: number; // Satellites used in the fix (only when the protocol reports it)
+}
+
+export interface RfBlockStatus {
+  id: number; // UBX RF block ID or SBF FrontendID code
+  label: string; // e.g. 'L1', 'L2/L5', 'GPS L1/E1'
+  antenna?: number; // SBF antenna ID
+  jammingState?: number; // 0: Unknown, 1: OK, 2: Warning, 3: Critical (MON-RF)
+  cwJamInd?: number; // CW jamming indicator, 0 (none) - 255 (strong) (MON-RF)
+  agcPercent?: number; // AGC monitor, % of full scale (MON-RF agcCnt / 8191)
+  noisePerMS?: number; // Noise level as measured by the GPS core (MON-RF)
+  agcGainDb?: number; // Front-end AGC gain in dB (SBF ReceiverStatus)
+  blankingPercent?: number; // % of samples blanked by the pulse blanker (SBF ReceiverStatus)
+}
+
+export interface InterferenceBand {
+  frequencyMHz: number; // Center frequency
+  bandwidthKHz: number;
+  mode: number; // SBF RFStatus Info mode: 1 notched, 2 detected (too wide), 8 mitigated
+  antenna: number;
+}
+
+export interface SpectrumBlock {
+  rfBlock: number; // UBX-MON-SPAN RF block index
+  centerMHz: number; // Center frequency of the spectrum
+  spanMHz: number; // Spectrum span
+  resKHz: number; // Bin resolution
+  pgaGainDb: number; // Programmable gain amplifier setting
+  bins: Uint8Array; // 256 bins, 0.25 dB units (dB = bin / 4)
+}
+
+export type SecurityEventSource = 'UBX-SEC-SIGLOG' | 'UBX-SEC-OSNMA' | 'UBX-NAV-SIG';
+
+export interface SecurityEvent {
+  timestamp: string; // HH:MM:SS of the event (message time minus reported elapsed time)
+  timeSeconds: number; // Same axis as GNSSDataPoint.timeSeconds
+  utcMs?: number; // Absolute UTC (ms since 1970), once the log's date is known
+  source: SecurityEventSource;
+  eventType: string; // e.g. 'Spoofing indicated', 'OSNMA operational', 'Authentication lost'
+  detector?: string; // Which detector fired (SEC-SIGLOG detectionType)
+  constellation?: GnssSystem;
+}
+
 export interface GNSSDataPoint {
-  timestamp: string; // HH:MM:SS
-  timeSeconds: number; // Seconds since start
+  timestamp: string; // HH:MM:SS (UTC)
+  timeSeconds: number; // Seconds since start, continuous across UTC midnight and GPS week rollover
+  utcMs?: number; // Absolute UTC (ms since 1970), once the log's date is known (RMC/ZDA, NAV-PVT, SBF WNc)
   lat?: number;
   lon?: number;
   alt?: number;
@@ -13,28 +65,151 @@ export interface GNSSDataPoint {
   gpsL1Cn0?: number; // Specific GPS L1 Average from UBX-NAV-SIG
   gpsTop3AvgCn0?: number; // Avg of Top 3 Max CN0 GPS satellites (from GSV)
   maxCn0?: number;
+
+  // Multi-constellation Signal Analysis (GSV / UBX-NAV-SIG / SBF MeasEpoch)
+  signalStats?: Record<string, SignalGroupStats>; // Keyed `${GnssSystem}:${SignalBand}`, e.g. 'Galileo:L5'
+  constellationStats?: Partial<Record<GnssSystem, SignalGroupStats>>; // All bands combined, unique SVs
+  satellites?: SatelliteInfo[]; // Per-satellite view (GSV / UBX-NAV-SAT / SBF SatVisibility+ChannelStatus)
   
   // Security & Status
   spoofingState?: number; // 0: Unknown, 1: No Spoofing, 2: Spoofing!, 3: Multiple (from NAV-STATUS)
   secSigState?: number; // 0: Unknown, 1: No Spoofing, 2: Indicated, 3: Confirmed (from SEC-SIG)
+  osnmaState?: number; // Galileo OSNMA status from UBX-SEC-OSNMA (see services/securityCodes)
+  authenticatedSignals?: number; // Galileo signals flagged authenticated in UBX-NAV-SIG
+
+  // RF Front-end / Interference (UBX-MON-RF, SBF ReceiverStatus/RFStatus)
+  jammingState?: number; // Worst jammingState over RF blocks (0: Unknown, 1: OK, 2: Warning, 3: Critical)
+  cwJamInd?: number; // Max CW jamming indicator over RF blocks (0-255)
+  agcPercent?: number; // Mean AGC level over RF blocks (% of full scale, UBX)
+  agcGainDb?: number; // Mean front-end AGC gain (dB, SBF)
+  noisePerMS?: number; // Max noise level over RF blocks (UBX)
+  rfBlocks?: RfBlockStatus[]; // Per RF block / front-end detail
+  interferenceBands?: InterferenceBand[]; // Narrow-band interference reported by SBF RFStatus
+  spectra?: SpectrumBlock[]; // RF spectrum per block (UBX-MON-SPAN)
   
   // PVT Details
   fixType?: number; // 0=NoFix, 2=2D, 3=3D, 4=GNSS+DR, 5=Time
   gnssFixOK?: boolean; // Bit 0 of flags in NAV-PVT
+
+  // Navigation Solution (from UBX-NAV-PVT)
+  iTOW?: number; // GPS Time of Week (ms)
+  utcDate?: string; // YYYY-MM-DD (only when NAV-PVT validDate is set)
+  heightEllipsoid?: number; // Height above ellipsoid (m). `alt` holds height above MSL.
+  velN?: number; // North velocity (m/s)
+  velE?: number; // East velocity (m/s)
+  velD?: number; // Down velocity (m/s)
+  groundSpeed?: number; // 2D ground speed (m/s)
+  heading?: number; // Heading of motion (deg)
+  hAcc?: number; // Horizontal accuracy estimate (m)
+  vAcc?: number; // Vertical accuracy estimate (m)
+  sAcc?: number; // Speed accuracy estimate (m/s)
+  numSV?: number; // Satellites used in the NAV-PVT solution (all constellations)
+  pDOP?: number; // Position DOP
 }
 
 export interface SatelliteInfo {
-  prn: string;
-  elevation: number;
-  azimuth: number;
-  snr: number; // C/N0
-  system: 'GPS' | 'GLONASS' | 'Galileo' | 'BeiDou' | 'Unknown';
+  prn: string; // RINEX-style ID, e.g. G05, E12
+  elevation: number; // deg, NaN if not reported
+  azimuth: number; // deg, NaN if not reported
+  snr: number; // C/N0 (L1 band preferred), 0 if in view but not tracked
+  system: GnssSystem;
+  used?: boolean; // Used in the navigation solution (NAV-SAT / GSA / ChannelStatus)
+}
+
+// Scalar epoch fields kept as Float64Array columns. utcDate holds the UTC midnight (ms) of NAV-PVT's date.
+export type EpochFloatField =
+  | 'utcMs' | 'lat' | 'lon' | 'alt' | 'satellitesUsed' | 'gpsTrackedCount'
+  | 'avgCn0' | 'gpsL1Cn0' | 'gpsTop3AvgCn0' | 'maxCn0' | 'authenticatedSignals'
+  | 'cwJamInd' | 'agcPercent' | 'agcGainDb' | 'noisePerMS'
+  | 'iTOW' | 'utcDate' | 'heightEllipsoid' | 'velN' | 'velE' | 'velD' | 'groundSpeed' | 'heading'
+  | 'hAcc' | 'vAcc' | 'sAcc' | 'numSV' | 'pDOP';
+
+// Small enum/flag fields kept as Int8Array columns (gnssFixOK as 0/1)
+export type EpochStateField = 'fixQuality' | 'spoofingState' | 'secSigState' | 'osnmaState' | 'jammingState' | 'fixType' | 'gnssFixOK';
+
+export type EpochField = EpochFloatField | EpochStateField;
+
+// Per-band or per-constellation stats of every epoch; NaN where the group was not reported
+export interface GroupStatColumns {
+  avgCn0: Float64Array;
+  tracked: Float64Array;
+  used: Float64Array;
+}
+
+// Satellites of all epochs in one set of columns: epoch i owns rows offsets[i] .. offsets[i + 1] - 1
+export interface SatelliteColumns {
+  offsets: Uint32Array; // length + 1 entries
+  ids: string[]; // Distinct RINEX-style IDs, indexed by `id`
+  id: Uint16Array;
+  system: Int8Array; // Index into GNSS_SYSTEMS
+  elevation: Float64Array;
+  azimuth: Float64Array;
+  snr: Float64Array;
+  used: Uint8Array;
+}
+
+// Parsed epochs in columnar form: one typed array per field instead of one object per epoch, so
+// long high-rate logs stay compact and the worker can transfer them without copying.
+// Values of absent fields are NaN (float) or 0 (state); the presence bitmaps tell them apart.
+export interface EpochTable {
+  length: number;
+  timeSeconds: Float64Array;
+  clockSeconds: Int32Array; // UTC second-of-day shown as the epoch's HH:MM:SS timestamp
+  floats: Record<EpochFloatField, Float64Array>; // NaN where absent
+  states: Record<EpochStateField, Int8Array>; // 0 where absent
+  presence: Record<EpochField, Uint8Array>; // Bit (i & 7) of byte (i >> 3) is set when epoch i has the field
+  signals: Record<string, GroupStatColumns>; // Keyed like GNSSDataPoint.signalStats
+  constellations: Partial<Record<GnssSystem, GroupStatColumns>>;
+  satellites: SatelliteColumns;
+  // Low-rate detail, keyed by epoch index
+  rfBlocks: Map<number, RfBlockStatus[]>;
+  interferenceBands: Map<number, InterferenceBand[]>;
+  spectra: Map<number, SpectrumBlock[]>;
+}
+
+export type LogProtocol = 'NMEA' | 'UBX' | 'SBF';
+
+export interface FrameFailure {
+  protocol: LogProtocol;
+  offset: number; // Byte offset of the frame's sync pattern in the file
+  reason: string;
+  fileName?: string; // The file it is in, when a device's log spans several files
+}
+
+export interface ParseIntegrity {
+  frames: Record<LogProtocol, { good: number; bad: number }>;
+  failures: FrameFailure[]; // First N checksum/CRC failures
+  bytesSkipped: number; // Bytes not belonging to any valid frame (excluding line endings)
+  totalBytes: number; // Decompressed bytes for gzip/zip input
+  archiveError?: string; // Compressed input that was cut short or corrupt: parsing stopped there
 }
 
 export interface ParseResult {
-  data: GNSSDataPoint[];
+  data: EpochTable;
   rawText: string;
   messageCounts: Record<string, number>;
+  integrity: ParseIntegrity;
+  securityEvents: SecurityEvent[];
+}
+
+// One file of a device's capture (hourly rotation, logger restarts), merged with the others by time.
+// Times are positions on the shared timeline (ms) without the device's clock offset.
+export interface LogFileSpan {
+  fileName: string;
+  startMs: number | null; // Earliest and latest epoch of the file (null: no epochs)
+  endMs: number | null;
+  epochs: number;
+  duplicates: number; // Epochs already loaded from an overlapping file, left out
+  interleaved: number; // Epochs kept inside the time range of the files loaded before (not duplicates)
+}
+
+// Streaming parse status, posted by the worker while it reads the file
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  epochs: number;
+  etaSeconds?: number;
+  lastTimestamp?: string; // Time of the latest parsed epoch
 }
 
 export interface LogAnalysisSummary {
@@ -53,6 +228,167 @@ export interface LogAnalysisSummary {
   positions: { lat: number; lon: number }[];
 }
 
+export type PlatformProfile = 'static' | 'pedestrian' | 'car' | 'drone';
+
+export interface PlatformLimits {
+  label: string;
+  maxSpeed: number; // m/s
+  maxAccel: number; // m/s^2
+  maxVerticalRate: number; // m/s
+  maxTurnRate: number; // deg/s (only evaluated above 1 m/s)
+  teleportDistance: number; // m, single-step jump that cannot be explained by motion
+  driftRadius?: number; // m, static only: max distance from the initial anchor position
+  speedMismatch: number; // m/s, reported (Doppler) vs position-derived speed
+}
+
+// Bitmask stored per epoch in KinematicEpoch.flags
+export enum KinematicFlag {
+  TELEPORT = 1,
+  SPEED = 2,
+  ACCEL = 4,
+  VERTICAL = 8,
+  TURN = 16,
+  DRIFT = 32,
+  VELOCITY_MISMATCH = 64,
+}
+
+export interface KinematicEpoch {
+  derivedSpeed?: number; // m/s, from consecutive positions
+  acceleration?: number; // m/s^2
+  verticalRate?: number; // m/s
+  turnRate?: number; // deg/s
+  speedError?: number; // m/s, reported minus derived
+  stepDistance?: number; // m, from the previous valid fix
+  anchorDistance?: number; // m, from the initial position (static profile)
+  flags: number; // KinematicFlag bitmask
+}
+
+export interface KinematicEvent {
+  flag: KinematicFlag;
+  label: string;
+  start: string;
+  end: string;
+  startTime: number;
+  endTime: number;
+  peak: number; // Worst value of the flagged quantity during the event
+  unit: string;
+}
+
+// Cross-satellite C/N0 correlation (single-antenna spoofing indicator), one per epoch
+export interface Cn0CorrelationEpoch {
+  correlation?: number; // Mean pairwise Pearson correlation over the sliding window
+  pairs: number; // Satellite pairs that contributed
+  spread?: number; // Std dev of C/N0 across satellites at this epoch (dB)
+  powerDistortion?: number; // Mean C/N0 above the log's baseline (dB)
+  alertLevel: number; // 0 None, 1 Correlated, 2 Correlated + uniform, 3 + power rise
+}
+
+// Ground-truth attack interval of a test campaign, on the shared timeline (UTC ms)
+export interface AttackWindow {
+  label: string;
+  startMs: number;
+  endMs: number;
+}
+
+// Per-epoch detection level of one indicator: 0 none, 1 indicated, 2 confirmed
+export interface DetectionSeries {
+  source: string; // 'Receiver', 'C/N0 correlation', 'Kinematics'
+  levels: Uint8Array; // Parallel to the device's data
+}
+
+// One row of a panel's event table (receiver states, detector events, kinematics, C/N0 correlation)
+export interface AnalysisEvent {
+  timeSeconds: number; // Same axis as GNSSDataPoint.timeSeconds
+  label: string;
+  source: string;
+  severity: 'alert' | 'warn' | 'info';
+  start: string;
+  end: string;
+}
+
+// Offline analysis results a panel reports up, for the campaign report
+export interface DeviceAnalysis {
+  summary: LogAnalysisSummary;
+  events: AnalysisEvent[];
+}
+
+// Detection performance of one indicator of one device against the attack windows
+export interface DetectionScore {
+  device: string;
+  source: string;
+  windows: number; // Attack windows covered by this log
+  detected: number;
+  timeToIndication?: number; // Mean seconds from attack start, over detected windows
+  timeToConfirmed?: number;
+  timeToRecover?: number; // Mean seconds from attack stop until the indicator clears
+  notRecovered: number; // Windows still flagged at the end of the log
+  falseAlarms: number; // Alarm onsets outside attack and recovery periods
+  falseAlarmSeconds: number;
+}
+
+// Ground truth for accuracy analysis: a surveyed antenna position or a time-tagged reference track (e.g. INS)
+export interface ReferenceSample {
+  timeMs: number; // UTC ms since 1970, or time of day (ms) when the reference carries no date
+  lat: number;
+  lon: number;
+  alt?: number; // m, same datum as GNSSDataPoint.alt (MSL)
+}
+
+export type ReferenceSource =
+  | { kind: 'point'; label: string; lat: number; lon: number; alt?: number }
+  | { kind: 'trajectory'; label: string; samples: ReferenceSample[] };
+
+// Position error of one epoch against the reference, local ENU at the reference position (m)
+export interface PositionError {
+  east: number;
+  north: number;
+  up?: number; // Only when both the fix and the reference have an altitude
+  horizontal: number;
+  error3d?: number;
+}
+
+export interface PositionErrorStats {
+  epochs: number;
+  cep50?: number; // Horizontal error percentiles (m)
+  cep95?: number;
+  maxHorizontal?: number;
+  maxVertical?: number; // Largest |up|
+  max3d?: number;
+}
+
+export type DeviceType = 'X20P' | 'A7P' | 'X5';
+
+export type AttackType = 'meaconing' | 'simulation' | 'time-push' | 'jamming' | 'other';
+
+// One stored receiver file
+export interface RunLogFile {
+  fileName: string;
+  size: number; // Bytes
+  entries?: string[]; // Zip archive: the members parsed, in join order
+}
+
+// One receiver log of a run. The raw files are stored separately (campaign store 'logs') and re-parsed on open.
+export interface RunLog extends RunLogFile {
+  timeOffset: number; // Seconds, clock correction applied on the shared timeline
+  extraFiles?: RunLogFile[]; // Further files of the same capture, merged with the first one
+}
+
+// One test run of a campaign: what was attacked, how, and the log each receiver recorded
+export interface TestRun {
+  id: string;
+  campaign: string; // Groups runs of the same test campaign
+  name: string;
+  date: string; // YYYY-MM-DD
+  attackType: AttackType;
+  powerSteps: number[]; // Spoofer transmit power steps, dBm
+  location: string;
+  notes: string;
+  attackWindows: AttackWindow[];
+  logs: Partial<Record<DeviceType, RunLog>>;
+  createdMs: number;
+  updatedMs: number;
+}
+
 export enum AnalysisStatus {
   IDLE = 'IDLE',
   PARSING = 'PARSING',